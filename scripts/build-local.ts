@@ -19,7 +19,7 @@ async function buildLocal() {
   console.log('🔨 Building magick-tui for current platform...\n')
 
   const result = await Bun.build({
-    entrypoints: ['./src/index.tsx'],
+    entrypoints: ['./src/index.tsx', './src/utils/estimateWorker.ts', './src/utils/conversionWorker.ts', './src/utils/previewWorker.ts'],
     plugins: [solidPlugin],
     sourcemap: 'linked',
     minify: true,
@@ -28,7 +28,7 @@ async function buildSingle() {
   const outfile = `./dist/${artifactName}`
 
   const result = await Bun.build({
-    entrypoints: ['./src/index.tsx'],
+    entrypoints: ['./src/index.tsx', './src/utils/estimateWorker.ts', './src/utils/conversionWorker.ts', './src/utils/previewWorker.ts'],
     plugins: [solidPlugin],
     sourcemap: 'linked',
     minify: true,
@@ -40,7 +40,7 @@ async function build() {
     console.log(`📦 Building for ${target}...`)
 
     const result = await Bun.build({
-      entrypoints: ['./src/index.tsx'],
+      entrypoints: ['./src/index.tsx', './src/utils/estimateWorker.ts', './src/utils/conversionWorker.ts', './src/utils/previewWorker.ts'],
       plugins: [solidPlugin],
       sourcemap: 'linked',
       minify: true,
@@ -0,0 +1,336 @@
+// Headless CLI commands that drive the same processing engine as the TUI
+
+import { dirname, relative, resolve } from 'node:path'
+import { stat } from 'node:fs/promises'
+import { parseCheckArgs, parseConvertArgs } from './utils/cliArgs'
+import { expandInputPaths, checkImageMagick } from './utils/fileScanner'
+import { processBatch } from './utils/imageProcessor'
+import { isFFIAvailable } from './utils/magickFFI'
+import { loadConfig } from './utils/userConfig'
+import { createPictureMarkup } from './utils/pictureMarkup'
+import { watchFolder, type FolderWatcher } from './utils/folderWatcher'
+import {
+  checkImages,
+  describeBudget,
+  describeSuggestion,
+  describeViolation,
+  formatJUnitReport,
+  formatJsonReport,
+} from './utils/budgetCheck'
+import type { BatchItemResult, ImageFile, ProcessOptions, ProcessResult, ScanOptions } from './utils/types'
+
+// Exit codes
+export const EXIT_OK = 0
+export const EXIT_FAILURE = 1
+export const EXIT_USAGE = 2
+
+function displayPath(path: string): string {
+  const rel = relative(process.cwd(), path)
+  return rel.startsWith('..') ? path : rel
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+// Qualities picked by the target size search, e.g. ", WEBP q72, AVIF q55"
+function describeQualities(qualities: ProcessResult['qualities']): string {
+  if (!qualities) return ''
+  return Object.entries(qualities)
+    .map(([format, quality]) => `, ${format.toUpperCase()} q${quality}`)
+    .join('')
+}
+
+/**
+ * Where progress lines go: stderr when stdout carries the <picture> markup
+ */
+type Log = (message: string) => void
+
+/**
+ * Write <picture> markup for every converted image to `target` ('-' for stdout)
+ * Outputs kept by the overwrite policy are included, since they exist too
+ */
+async function writePictureMarkup(results: BatchItemResult[], target: string, log: Log): Promise<void> {
+  const baseDir = target === '-' ? process.cwd() : dirname(resolve(target))
+  const snippets: string[] = []
+  for (const result of results) {
+    const paths = [...(result.outputPaths ?? []), ...(result.skippedPaths ?? [])]
+    const markup = paths.length > 0 ? await createPictureMarkup(paths, { baseDir }) : null
+    if (markup) snippets.push(markup)
+  }
+
+  const html = snippets.join('\n\n') + '\n'
+  if (target === '-') {
+    process.stdout.write(html)
+  } else {
+    await Bun.write(target, html)
+    log(`Wrote <picture> markup for ${snippets.length} image${snippets.length !== 1 ? 's' : ''} to ${displayPath(target)}`)
+  }
+}
+
+/**
+ * Print one converted image; returns false when it counts as a failure
+ * Partial success is a failure too, so CI notices missing outputs
+ */
+function printResult(result: BatchItemResult, log: Log): boolean {
+  const duration = formatDuration(result.durationMs ?? 0)
+  let ok = true
+
+  if (result.upToDate) {
+    log(`= ${displayPath(result.inputPath)}: up to date`)
+  } else if (result.skipped) {
+    log(`- ${displayPath(result.inputPath)}: skipped, ${result.skippedPaths?.map(displayPath).join(', ')} exists`)
+  } else if (result.success) {
+    const outputs = result.outputPaths?.map(displayPath).join(', ')
+    log(`✓ ${displayPath(result.inputPath)} -> ${outputs} (${duration}${describeQualities(result.qualities)})`)
+  } else {
+    ok = false
+    console.error(`✗ ${displayPath(result.inputPath)}: ${result.error || 'Conversion failed'}`)
+  }
+
+  if (result.skippedWidths) {
+    log(`  ${result.skippedWidths.map((w) => `${w}px`).join(', ')} skipped: larger than the image`)
+  }
+
+  if (result.success && result.error) {
+    ok = false
+    console.error(`  ${result.error.replace(/\n/g, '\n  ')}`)
+  }
+
+  return ok
+}
+
+/**
+ * The inputs that are directories, resolved
+ */
+async function directoryInputs(inputs: string[]): Promise<string[]> {
+  const roots: string[] = []
+  for (const input of inputs) {
+    const path = resolve(input)
+    if (await stat(path).then((s) => s.isDirectory(), () => false)) roots.push(path)
+  }
+  return roots
+}
+
+/**
+ * Convert new or modified images in `roots` until interrupted with Ctrl+C
+ * Returns a failure exit code if any conversion failed, including the
+ * initial batch's `code`
+ */
+async function watchDirectories(
+  roots: string[],
+  options: Omit<ProcessOptions, 'inputPath'>,
+  scan: ScanOptions,
+  code: number,
+  log: Log
+): Promise<number> {
+  const controller = new AbortController()
+  // One batch at a time across all roots, so cache and manifest updates don't race
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const convertChanges = async (files: ImageFile[]): Promise<string[]> => {
+    const batch = await processBatch(
+      files.map((f) => f.path),
+      options,
+      (progress) => {
+        if (progress.result && !printResult(progress.result, log)) code = EXIT_FAILURE
+      },
+      controller.signal
+    )
+    for (const error of [batch.cacheError, batch.manifestError]) {
+      if (error) {
+        console.error(`Error: ${error}`)
+        code = EXIT_FAILURE
+      }
+    }
+
+    // Outputs may land in another watched directory
+    const written = batch.results.flatMap((r) => [...(r.outputPaths ?? []), ...(r.skippedPaths ?? [])])
+    for (const watcher of watchers) watcher.ignore(written)
+    return written
+  }
+
+  const watchers: FolderWatcher[] = roots.map((root) =>
+    watchFolder(root, {
+      scan,
+      onChange: (files) => {
+        const run = queue.then(() => convertChanges(files))
+        queue = run.catch(() => {})
+        return run
+      },
+      onError: (error) => console.error(`Error: ${error}`),
+    })
+  )
+
+  log(`Watching ${roots.map((root) => displayPath(root) || '.').join(', ')} for changes (Ctrl+C to stop)`)
+  await new Promise((resolve) => process.once('SIGINT', resolve))
+
+  for (const watcher of watchers) watcher.close()
+  controller.abort()
+  await queue
+  log('Stopped watching')
+  return code
+}
+
+/**
+ * Run `magick-tui convert <files...>` and return the process exit code
+ */
+export async function runConvert(argv: string[]): Promise<number> {
+  const { config, errors } = await loadConfig()
+  for (const error of errors) {
+    console.error(`Warning: ${error}`)
+  }
+
+  const parsed = parseConvertArgs(argv, config.presets)
+  if (!parsed.success) {
+    console.error(`Error: ${parsed.error}`)
+    console.error("Run 'magick-tui --help' for usage.")
+    return EXIT_USAGE
+  }
+
+  const { inputs, options, scan, picture, watch } = parsed.command
+
+  if (!isFFIAvailable() && !(await checkImageMagick())) {
+    console.error('Error: ImageMagick not found. Install via: brew install imagemagick')
+    return EXIT_FAILURE
+  }
+
+  const watchRoots = watch ? await directoryInputs(inputs) : []
+  if (watch && watchRoots.length === 0) {
+    console.error('Error: --watch needs a directory to watch')
+    return EXIT_USAGE
+  }
+
+  const inputPaths = await expandInputPaths(inputs, process.cwd(), scan)
+  if (inputPaths.length === 0 && !watch) {
+    console.error('Error: No input images found')
+    return EXIT_USAGE
+  }
+
+  const log = picture === '-' ? console.error : console.log
+  const code = inputPaths.length > 0 ? await convertAll(inputPaths, options, picture, log) : EXIT_OK
+  return watch ? watchDirectories(watchRoots, options, scan, code, log) : code
+}
+
+/**
+ * Convert every input once, print a summary and return the exit code
+ */
+async function convertAll(
+  inputPaths: string[],
+  options: Omit<ProcessOptions, 'inputPath'>,
+  picture: string | null,
+  log: Log
+): Promise<number> {
+  let failed = 0
+  const startTime = performance.now()
+
+  const batch = await processBatch(inputPaths, options, (progress) => {
+    if (progress.result && !printResult(progress.result, log)) failed++
+  })
+
+  for (const error of [batch.cacheError, batch.manifestError]) {
+    if (error) console.error(`Error: ${error}`)
+  }
+
+  let pictureFailed = false
+  if (picture) {
+    try {
+      await writePictureMarkup(batch.results, picture, log)
+    } catch (error) {
+      pictureFailed = true
+      console.error(`Error: Could not write ${picture}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const total = inputPaths.length
+  const skipped = batch.skipped > 0 ? `, ${batch.skipped} skipped` : ''
+  const upToDate = batch.upToDate > 0 ? `, ${batch.upToDate} up to date` : ''
+  const converted = total - failed - batch.skipped - batch.upToDate
+  const summary = `Converted ${converted}/${total} file${total !== 1 ? 's' : ''}${upToDate}${skipped} in ${formatDuration(performance.now() - startTime)}`
+
+  if (failed > 0) {
+    console.error(`${summary}, ${failed} failed`)
+    return EXIT_FAILURE
+  }
+
+  log(summary)
+  return pictureFailed || batch.cacheError || batch.manifestError ? EXIT_FAILURE : EXIT_OK
+}
+
+/**
+ * Run `magick-tui check [paths...]` and return the process exit code:
+ * non-zero when an image is over budget or can't be read
+ */
+export async function runCheck(argv: string[]): Promise<number> {
+  const { config, errors } = await loadConfig()
+  for (const error of errors) {
+    console.error(`Warning: ${error}`)
+  }
+
+  const parsed = parseCheckArgs(argv, config.budget)
+  if (!parsed.success) {
+    console.error(`Error: ${parsed.error}`)
+    console.error("Run 'magick-tui --help' for usage.")
+    return EXIT_USAGE
+  }
+
+  const { inputs, scan, budget, formats, quality, suggest, json, junit } = parsed.command
+
+  // Byte sizes alone can be checked without ImageMagick
+  const needsMagick = suggest || budget.maxWidth !== null || budget.maxHeight !== null
+  if (needsMagick && !isFFIAvailable() && !(await checkImageMagick())) {
+    console.error('Error: ImageMagick not found. Install via: brew install imagemagick')
+    return EXIT_FAILURE
+  }
+
+  const inputPaths = await expandInputPaths(inputs, process.cwd(), scan)
+  if (inputPaths.length === 0) {
+    console.error('Error: No input images found')
+    return EXIT_USAGE
+  }
+
+  // Keep stdout clean for a report written there
+  const log = json === '-' || junit === '-' ? console.error : console.log
+
+  const results = await checkImages(inputPaths, budget, { formats, quality, suggest }, (result) => {
+    if (result.error !== undefined) {
+      console.error(`✗ ${displayPath(result.path)}: ${result.error}`)
+    } else if (result.violations.length > 0) {
+      log(`✗ ${displayPath(result.path)}: ${result.violations.map(describeViolation).join('; ')}`)
+      if (result.suggestion) log(`  Suggestion: ${describeSuggestion(result.suggestion, result.size)}`)
+    }
+  })
+
+  let reportFailed = false
+  const reports: [string | null, () => string][] = [
+    [json, () => formatJsonReport(results, budget, process.cwd())],
+    [junit, () => formatJUnitReport(results, budget, process.cwd())],
+  ]
+  for (const [target, format] of reports) {
+    if (!target) continue
+    try {
+      if (target === '-') {
+        process.stdout.write(format())
+      } else {
+        await Bun.write(target, format())
+        log(`Wrote report to ${displayPath(target)}`)
+      }
+    } catch (error) {
+      reportFailed = true
+      console.error(`Error: Could not write ${target}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const overBudget = results.filter((r) => r.violations.length > 0).length
+  const unreadable = results.filter((r) => r.error !== undefined).length
+  const total = results.length
+  const summary = `Checked ${total} image${total !== 1 ? 's' : ''} against ${describeBudget(budget)}`
+  if (overBudget > 0 || unreadable > 0) {
+    const problems = [overBudget > 0 && `${overBudget} over budget`, unreadable > 0 && `${unreadable} unreadable`]
+    console.error(`${summary}: ${problems.filter(Boolean).join(', ')}`)
+    return EXIT_FAILURE
+  }
+
+  log(`${summary}: all within budget`)
+  return reportFailed ? EXIT_FAILURE : EXIT_OK
+}
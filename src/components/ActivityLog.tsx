@@ -0,0 +1,83 @@
+// Activity panel listing watch mode conversions, newest at the bottom
+
+import { For, Show, createMemo } from 'solid-js'
+import type { ActivityEntry, StatusType } from '../utils/types'
+import { COLORS } from '../constants'
+
+interface ActivityLogProps {
+  entries: ActivityEntry[]
+  watching: boolean
+  scrollOffset: number // entries hidden below the window, 0 follows the newest
+  focused: boolean
+}
+
+// Entries visible at once
+export const ACTIVITY_WINDOW = 6
+
+function entryColor(type: StatusType): string {
+  switch (type) {
+    case 'success':
+      return COLORS.success
+    case 'error':
+      return COLORS.error
+    case 'warning':
+      return COLORS.warning
+    case 'processing':
+      return COLORS.primary
+    default:
+      return COLORS.muted
+  }
+}
+
+function formatTime(time: Date): string {
+  return time.toTimeString().slice(0, 8)
+}
+
+export function ActivityLog(props: ActivityLogProps) {
+  const scrollState = createMemo(() => {
+    const end = Math.max(0, props.entries.length - props.scrollOffset)
+    const start = Math.max(0, end - ACTIVITY_WINDOW)
+    return { start, end, hasItemsAbove: start > 0, hasItemsBelow: end < props.entries.length }
+  })
+
+  const visibleEntries = createMemo(() => {
+    const { start, end } = scrollState()
+    return props.entries.slice(start, end)
+  })
+
+  const helpText = () => {
+    const newer = scrollState().hasItemsBelow ? `${props.scrollOffset} newer below` : ''
+    if (!props.focused) return newer
+    return [newer, 'Up/Down: Scroll | c: Clear'].filter(Boolean).join(' | ')
+  }
+
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={props.focused ? COLORS.focused : COLORS.border}
+      paddingLeft={1}
+      paddingRight={1}
+      title={props.watching ? 'Activity (watching)' : 'Activity'}
+      style={{ height: ACTIVITY_WINDOW + 4, flexShrink: 0 }}
+    >
+      <Show when={scrollState().hasItemsAbove}>
+        <text fg={COLORS.muted}>  ...{scrollState().start} earlier</text>
+      </Show>
+      <Show when={props.entries.length > 0} fallback={<text fg={COLORS.muted}>Waiting for changes...</text>}>
+        <For each={visibleEntries()}>
+          {(entry) => (
+            <box flexDirection="row" gap={1}>
+              <text fg={COLORS.muted}>{formatTime(entry.time)}</text>
+              <text fg={entryColor(entry.type)}>{entry.message}</text>
+            </box>
+          )}
+        </For>
+      </Show>
+      <Show when={helpText()}>
+        <text fg={COLORS.muted}>{helpText()}</text>
+      </Show>
+    </box>
+  )
+}
@@ -0,0 +1,110 @@
+// Before/after comparison screen: the source and its encoded version side by
+// side or swapped in place, scaled to fit or as a 1:1 crop
+
+import { Show } from 'solid-js'
+import { TextAttributes } from '@opentui/core'
+import type { OutputFormat } from '../utils/types'
+import type { ComparisonImages, ComparisonZoom } from '../utils/imagePreview'
+import { calculateDecreasePercent } from '../utils/magickShared'
+import { KITTY_IMAGE_IDS } from '../utils/terminalGraphics'
+import { GraphicView } from './GraphicView'
+import { COLORS, formatDimensions, formatFileSize } from '../constants'
+
+export type ComparisonLayout = 'side' | 'swipe'
+
+interface ComparisonViewProps {
+  images: ComparisonImages | null
+  loading: boolean
+  error: string | null
+  format: OutputFormat
+  quality: number
+  searchesQuality: boolean // target size or auto quality mode
+  originalSize: number // bytes of the source file
+  layout: ComparisonLayout
+  showEncoded: boolean // which version the swipe layout shows
+  zoom: ComparisonZoom
+  columns: number // size of each view in cells
+  rows: number
+}
+
+export function ComparisonView(props: ComparisonViewProps) {
+  const originalLabel = () => `Original ${formatFileSize(props.originalSize)}`
+
+  // Target size and auto quality modes search for the quality, so it's only known once rendered
+  const encodedLabel = () => {
+    if (!props.images) return `${props.format.toUpperCase()}${props.searchesQuality ? '' : ` q${props.quality}`}`
+    const label = `${props.format.toUpperCase()} q${props.images.quality}`
+    const percent = calculateDecreasePercent(props.originalSize, props.images.encodedSize)
+    const change = percent >= 0 ? `-${percent}%` : `+${Math.abs(percent)}%`
+    return `${label} ${formatFileSize(props.images.encodedSize)} (${change})`
+  }
+
+  const zoomLabel = () => {
+    const images = props.images
+    if (!images) return ''
+    const { outputSize, region } = images
+    if (!region) return `Scaled to fit, ${formatDimensions(outputSize.width, outputSize.height)} output`
+    return `1:1 crop ${formatDimensions(region.width, region.height)} at ${region.x},${region.y} of ${formatDimensions(outputSize.width, outputSize.height)}`
+  }
+
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={COLORS.focused}
+      padding={1}
+      flexGrow={1}
+      title={props.loading ? 'Compare (rendering)' : 'Compare'}
+    >
+      <Show
+        when={!props.error}
+        fallback={<text fg={COLORS.error}>{props.error}</text>}
+      >
+        <Show
+          when={props.layout === 'side'}
+          fallback={
+            <box flexDirection="column">
+              <text fg={COLORS.text} attributes={TextAttributes.BOLD}>
+                {props.showEncoded ? encodedLabel() : originalLabel()}
+              </text>
+              <GraphicView
+                image={(props.showEncoded ? props.images?.encoded : props.images?.original) ?? null}
+                columns={props.columns}
+                rows={props.rows}
+                imageId={KITTY_IMAGE_IDS.original}
+              />
+            </box>
+          }
+        >
+          <box flexDirection="row" gap={2}>
+            <box flexDirection="column">
+              <text fg={COLORS.text} attributes={TextAttributes.BOLD}>{originalLabel()}</text>
+              <GraphicView
+                image={props.images?.original ?? null}
+                columns={props.columns}
+                rows={props.rows}
+                imageId={KITTY_IMAGE_IDS.original}
+              />
+            </box>
+            <box flexDirection="column">
+              <text fg={COLORS.text} attributes={TextAttributes.BOLD}>{encodedLabel()}</text>
+              <GraphicView
+                image={props.images?.encoded ?? null}
+                columns={props.columns}
+                rows={props.rows}
+                imageId={KITTY_IMAGE_IDS.encoded}
+              />
+            </box>
+          </box>
+        </Show>
+        <text fg={COLORS.muted} style={{ marginTop: 1 }}>{zoomLabel()}</text>
+      </Show>
+      <text fg={COLORS.muted}>
+        Tab: {props.layout === 'side' ? 'Swipe' : 'Side by side'}
+        {props.layout === 'swipe' ? ' | Space: Swap' : ''} | z: {props.zoom === 'fit' ? 'Zoom 1:1' : 'Fit'}
+        {props.zoom === 'actual' ? ' | h/j/k/l: Pan' : ''} | f: Next format | Esc: Close
+      </text>
+    </box>
+  )
+}
@@ -0,0 +1,84 @@
+// Details panel showing the color, EXIF and encoding properties of the selected image
+
+import { For, Show } from 'solid-js'
+import type { ImageDetails } from '../utils/types'
+import { COLORS } from '../constants'
+
+interface DetailsPanelProps {
+  details: ImageDetails | null
+  loading: boolean
+  error: string | null
+}
+
+// Panel width in columns, borders included
+export const DETAILS_WIDTH = 36
+
+const LABEL_WIDTH = 8
+
+// Values are cut to one line between the label and the border
+const VALUE_WIDTH = DETAILS_WIDTH - LABEL_WIDTH - 4
+
+const ORIENTATION_LABELS: Record<number, string> = {
+  1: 'Normal',
+  2: 'Mirrored',
+  3: 'Rotated 180°',
+  4: 'Mirrored, 180°',
+  5: 'Mirrored, 90° CW',
+  6: 'Rotated 90° CW',
+  7: 'Mirrored, 90° CCW',
+  8: 'Rotated 90° CCW',
+}
+
+// "2024:05:01 14:22:10" -> "2024-05-01 14:22"
+function formatExifDate(date: string): string {
+  const match = date.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}:\d{2})/)
+  return match ? `${match[1]}-${match[2]}-${match[3]} ${match[4]}` : date
+}
+
+function truncate(value: string): string {
+  return value.length > VALUE_WIDTH ? `${value.slice(0, VALUE_WIDTH - 1)}…` : value
+}
+
+function detailRows(details: ImageDetails): [string, string][] {
+  return [
+    ['Color', details.colorSpace],
+    ['Depth', `${details.bitDepth}-bit`],
+    ['Alpha', details.hasAlpha ? 'Yes' : 'No'],
+    ['Profile', details.profileName ?? 'None'],
+    ['Camera', details.camera ?? '-'],
+    ['Lens', details.lens ?? '-'],
+    ['Taken', details.dateTaken ? formatExifDate(details.dateTaken) : '-'],
+    ['Orient', ORIENTATION_LABELS[details.orientation] ?? String(details.orientation)],
+    ['Frames', String(details.frames)],
+    ['Codec', details.compression ?? '-'],
+  ]
+}
+
+export function DetailsPanel(props: DetailsPanelProps) {
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={COLORS.border}
+      paddingLeft={1}
+      paddingRight={1}
+      title={props.loading ? 'Details (loading)' : 'Details'}
+      style={{ height: 14, width: DETAILS_WIDTH }}
+    >
+      <Show when={props.error}>
+        <text fg={COLORS.muted}>{props.error}</text>
+      </Show>
+      <For each={props.details ? detailRows(props.details) : []}>
+        {([label, value]) => (
+          <box flexDirection="row">
+            <text fg={COLORS.muted} style={{ width: LABEL_WIDTH, flexShrink: 0 }}>
+              {label}
+            </text>
+            <text fg={COLORS.text}>{truncate(value)}</text>
+          </box>
+        )}
+      </For>
+    </box>
+  )
+}
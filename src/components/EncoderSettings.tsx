@@ -0,0 +1,64 @@
+// Encoder settings component for per-format advanced options (one row per selected format)
+
+import { For, Show } from 'solid-js'
+import { TextAttributes } from '@opentui/core'
+import type { EncoderOptions, OutputFormat } from '../utils/types'
+import { ENCODER_FIELDS, describeEncoderField } from '../utils/encoderOptions'
+import { OUTPUT_FORMATS, COLORS } from '../constants'
+
+interface EncoderSettingsProps {
+  formats: OutputFormat[] // selected formats, in display order
+  encoder: EncoderOptions
+  focused: boolean
+  focusedRow: number
+  focusedField: number
+}
+
+export function EncoderSettings(props: EncoderSettingsProps) {
+  const formatLabel = (format: OutputFormat) =>
+    OUTPUT_FORMATS.find((f) => f.format === format)?.label ?? format
+
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={props.focused ? COLORS.focused : COLORS.border}
+      padding={1}
+      title="Encoder"
+    >
+      <For each={props.formats}>
+        {(format, row) => (
+          <box flexDirection="row" gap={2}>
+            <text fg={COLORS.text} attributes={TextAttributes.BOLD} style={{ width: 8 }}>
+              {formatLabel(format)}
+            </text>
+            <For each={ENCODER_FIELDS[format]}>
+              {(field, index) => {
+                const isFocused = () =>
+                  props.focused && props.focusedRow === row() && props.focusedField === index()
+
+                return (
+                  <box flexDirection="row" gap={1}>
+                    <text fg={COLORS.muted}>{field.label}:</text>
+                    <text
+                      fg={isFocused() ? COLORS.focused : COLORS.text}
+                      attributes={isFocused() ? TextAttributes.BOLD : 0}
+                    >
+                      {describeEncoderField(props.encoder, field)}
+                    </text>
+                  </box>
+                )
+              }}
+            </For>
+          </box>
+        )}
+      </For>
+      <Show when={props.focused}>
+        <text fg={COLORS.muted} style={{ marginTop: 1 }}>
+          Up/Down: Format | Left/Right: Setting | Space/+: Next value | -: Previous value
+        </text>
+      </Show>
+    </box>
+  )
+}
@@ -8,6 +8,9 @@ import { COLORS, formatFileSize, formatDimensions } from '../constants'
 interface FileListProps {
   files: ImageFile[]
   selectedIndex: number
+  markedPaths: Set<string>
+  recursive: boolean
+  watching: boolean
   onSelect: (index: number) => void
   focused: boolean
   loading: boolean
@@ -44,6 +47,11 @@ export function FileList(props: FileListProps) {
     }))
   })
 
+  const title = () => {
+    const modes = [props.recursive && 'recursive', props.watching && 'watching'].filter(Boolean)
+    return modes.length > 0 ? `Select Image (${modes.join(', ')})` : 'Select Image'
+  }
+
   return (
     <box
       flexDirection="column"
@@ -51,7 +59,7 @@ export function FileList(props: FileListProps) {
       borderStyle="rounded"
       borderColor={props.focused ? COLORS.focused : COLORS.border}
       padding={1}
-      title="Select Image"
+      title={title()}
       style={{ height: 14 }}
     >
       <Show when={props.loading}>
@@ -63,7 +71,11 @@ export function FileList(props: FileListProps) {
       </Show>
 
       <Show when={!props.loading && !props.error && props.files.length === 0}>
-        <text fg={COLORS.warning}>No image files found in current directory</text>
+        <text fg={COLORS.warning}>
+          {props.recursive
+            ? 'No image files found in current directory tree'
+            : 'No image files found in current directory'}
+        </text>
       </Show>
 
       <Show when={!props.loading && !props.error && props.files.length > 0}>
@@ -71,6 +83,7 @@ export function FileList(props: FileListProps) {
           <For each={visibleFiles()}>
             {({ file, actualIndex }) => {
               const isSelected = () => actualIndex === props.selectedIndex
+              const isMarked = () => props.markedPaths.has(file.path)
 
               return (
                 <box
@@ -87,13 +100,28 @@ export function FileList(props: FileListProps) {
                   >
                     {isSelected() ? '>' : ' '}
                   </text>
+                  <text
+                    fg={isMarked() ? COLORS.success : COLORS.muted}
+                    attributes={isMarked() ? TextAttributes.BOLD : 0}
+                    style={{ width: 4 }}
+                  >
+                    {isMarked() ? '[x]' : '[ ]'}
+                  </text>
                   <text
                     fg={isSelected() ? COLORS.text : COLORS.text}
                     attributes={isSelected() ? TextAttributes.BOLD : 0}
                     style={{ flexGrow: 1 }}
                   >
-                    {file.name}
+                    {file.relativePath}
                   </text>
+                  <Show when={file.colorSpace && file.colorSpace !== 'sRGB'}>
+                    <text
+                      fg={isSelected() ? COLORS.text : COLORS.warning}
+                      style={{ marginLeft: 2 }}
+                    >
+                      {file.colorSpace}
+                    </text>
+                  </Show>
                   <text
                     fg={isSelected() ? COLORS.text : COLORS.muted}
                     style={{ marginLeft: 2 }}
@@ -115,8 +143,11 @@ export function FileList(props: FileListProps) {
         </scrollbox>
 
         <text fg={COLORS.muted} style={{ marginTop: 1 }}>
-          {props.files.length} image{props.files.length !== 1 ? 's' : ''} |{' '}
-          {props.focused ? 'Up/Down: Navigate | Enter: Confirm' : ''}
+          {props.files.length} image{props.files.length !== 1 ? 's' : ''}
+          {props.markedPaths.size > 0 ? `, ${props.markedPaths.size} marked` : ''} |{' '}
+          {props.focused
+            ? `Up/Down: Navigate | Space: Mark | a: All | i: Invert | r: Recursive ${props.recursive ? 'off' : 'on'} | w: Watch ${props.watching ? 'off' : 'on'} | v: Compare | d: Details`
+            : ''}
         </text>
       </Show>
     </box>
@@ -1,4 +1,4 @@
-// Format selector component for choosing output formats (WebP, AVIF)
+// Format selector component for choosing output formats (WebP, AVIF, JPEG XL, JPEG, PNG)
 
 import { For } from 'solid-js'
 import { TextAttributes } from '@opentui/core'
@@ -0,0 +1,83 @@
+// Graphic view that draws a preview image into a fixed block of cells with
+// Kitty graphics, Sixel or Unicode half-blocks
+
+import { createEffect, createMemo, onCleanup } from 'solid-js'
+import { RGBA, type BoxRenderable, type OptimizedBuffer } from '@opentui/core'
+import type { PreviewImage } from '../utils/imagePreview'
+import {
+  atPosition,
+  clearRegionSequence,
+  halfBlockRows,
+  kittyDeleteSequence,
+  kittyImageSequence,
+  writeToTerminal,
+} from '../utils/terminalGraphics'
+import { COLORS } from '../constants'
+
+interface GraphicViewProps {
+  image: PreviewImage | null
+  columns: number
+  rows: number
+  imageId: number // Kitty image id; views shown at the same time need different ids
+}
+
+export function GraphicView(props: GraphicViewProps) {
+  // Kitty and Sixel images are written straight to the terminal, outside the
+  // renderer; remember where so they're only re-sent when something changes
+  let placed: { image: PreviewImage; x: number; y: number } | null = null
+
+  const clearGraphic = () => {
+    if (!placed) return
+    writeToTerminal(
+      placed.image.protocol === 'kitty'
+        ? kittyDeleteSequence(props.imageId)
+        : clearRegionSequence(placed.x, placed.y, props.columns, props.rows)
+    )
+    placed = null
+  }
+
+  createEffect(() => {
+    if (props.image !== placed?.image) clearGraphic()
+  })
+  onCleanup(clearGraphic)
+
+  const halfBlocks = createMemo(() => {
+    const image = props.image
+    return image?.protocol === 'blocks' ? halfBlockRows(image.data, image.width, image.height) : null
+  })
+
+  function drawImage(this: BoxRenderable, buffer: OptimizedBuffer) {
+    const image = props.image
+    if (!image) return
+
+    // Center the image in the view
+    const x = this.x + Math.max(0, Math.floor((props.columns - image.columns) / 2))
+    const y = this.y + Math.max(0, Math.floor((props.rows - image.rows) / 2))
+
+    const rows = halfBlocks()
+    if (rows) {
+      rows.forEach((cells, row) => {
+        cells.forEach((cell, column) => {
+          const bottom = cell.bottom ? RGBA.fromInts(...cell.bottom) : RGBA.fromHex(COLORS.background)
+          buffer.setCell(x + column, y + row, '▀', RGBA.fromInts(...cell.top), bottom)
+        })
+      })
+      return
+    }
+
+    if (placed?.image === image && placed.x === x && placed.y === y) return
+    clearGraphic()
+    placed = { image, x, y }
+
+    const sequence = image.protocol === 'kitty'
+      ? kittyImageSequence(image.data, props.imageId)
+      : new TextDecoder().decode(image.data)
+
+    // Written after the frame is flushed so the renderer doesn't draw over it
+    setTimeout(() => {
+      if (placed?.image === image) writeToTerminal(atPosition(x, y, sequence))
+    }, 0)
+  }
+
+  return <box style={{ width: props.columns, height: props.rows }} renderAfter={drawImage} />
+}
@@ -0,0 +1,39 @@
+// Image preview pane showing the selected image next to the file list
+
+import { Show } from 'solid-js'
+import type { PreviewImage } from '../utils/imagePreview'
+import { KITTY_IMAGE_IDS } from '../utils/terminalGraphics'
+import { GraphicView } from './GraphicView'
+import { COLORS, PREVIEW_COLUMNS, PREVIEW_ROWS } from '../constants'
+
+interface ImagePreviewProps {
+  image: PreviewImage | null
+  loading: boolean
+  error: string | null
+}
+
+export function ImagePreview(props: ImagePreviewProps) {
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={COLORS.border}
+      padding={1}
+      title={props.loading ? 'Preview (loading)' : 'Preview'}
+      style={{ height: PREVIEW_ROWS + 4, width: PREVIEW_COLUMNS + 4 }}
+    >
+      <Show
+        when={!props.error}
+        fallback={<text fg={COLORS.muted}>{props.error}</text>}
+      >
+        <GraphicView
+          image={props.image}
+          columns={PREVIEW_COLUMNS}
+          rows={PREVIEW_ROWS}
+          imageId={KITTY_IMAGE_IDS.preview}
+        />
+      </Show>
+    </box>
+  )
+}
@@ -0,0 +1,141 @@
+// Output settings component for choosing the output directory, filename template,
+// the metadata kept in outputs and their color conversion
+
+import { Show } from 'solid-js'
+import { TextAttributes } from '@opentui/core'
+import { COLOR_MODES, COLORS, DEFAULT_FILENAME_TEMPLATE, METADATA_POLICIES, OVERWRITE_POLICIES } from '../constants'
+import type { ColorOptions, MetadataPolicy, OverwritePolicy } from '../utils/types'
+
+export type OutputField = 'dir' | 'template' | 'mirror' | 'overwrite' | 'metadata' | 'color' | 'embed'
+
+interface OutputSettingsProps {
+  outputDir: string
+  template: string
+  mirrorTree: boolean
+  overwrite: OverwritePolicy
+  metadata: MetadataPolicy
+  color: ColorOptions
+  onOutputDirChange: (value: string) => void
+  onTemplateChange: (value: string) => void
+  focused: boolean
+  focusedField: OutputField
+  preview: string | null // example output path for the selected image
+  error: string | null
+}
+
+export function OutputSettings(props: OutputSettingsProps) {
+  const isFieldFocused = (field: OutputField) => props.focused && props.focusedField === field
+  const overwriteLabel = () => OVERWRITE_POLICIES.find((p) => p.policy === props.overwrite)?.label ?? props.overwrite
+  const metadataLabel = () => METADATA_POLICIES.find((p) => p.policy === props.metadata)?.label ?? props.metadata
+  const colorLabel = () => COLOR_MODES.find((m) => m.mode === props.color.mode)?.label ?? props.color.mode
+  const canEmbed = () => props.color.mode !== 'keep'
+
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={props.focused ? COLORS.focused : COLORS.border}
+      padding={1}
+      title="Output"
+    >
+      <box flexDirection="row" gap={2} alignItems="center">
+        <box flexDirection="row" gap={1} alignItems="center" flexGrow={1}>
+          <text fg={COLORS.text}>Directory:</text>
+          <box
+            border
+            borderStyle="rounded"
+            borderColor={isFieldFocused('dir') ? COLORS.focused : COLORS.border}
+            style={{ height: 3, flexGrow: 1 }}
+          >
+            <input
+              placeholder="next to input"
+              value={props.outputDir}
+              focused={isFieldFocused('dir')}
+              onInput={props.onOutputDirChange}
+            />
+          </box>
+        </box>
+
+        <box flexDirection="row" gap={1} alignItems="center" flexGrow={1}>
+          <text fg={COLORS.text}>Name:</text>
+          <box
+            border
+            borderStyle="rounded"
+            borderColor={isFieldFocused('template') ? COLORS.focused : COLORS.border}
+            style={{ height: 3, flexGrow: 1 }}
+          >
+            <input
+              placeholder={DEFAULT_FILENAME_TEMPLATE}
+              value={props.template}
+              focused={isFieldFocused('template')}
+              onInput={props.onTemplateChange}
+            />
+          </box>
+        </box>
+
+        <box flexDirection="row" gap={1}>
+          <text
+            fg={isFieldFocused('mirror') ? COLORS.focused : COLORS.text}
+            attributes={isFieldFocused('mirror') ? TextAttributes.BOLD : 0}
+          >
+            {props.mirrorTree ? '[x]' : '[ ]'}
+          </text>
+          <text fg={props.mirrorTree ? COLORS.text : COLORS.muted}>Mirror folders</text>
+        </box>
+
+        <box flexDirection="row" gap={1}>
+          <text fg={COLORS.text}>Existing:</text>
+          <text
+            fg={isFieldFocused('overwrite') ? COLORS.focused : COLORS.text}
+            attributes={isFieldFocused('overwrite') ? TextAttributes.BOLD : 0}
+          >
+            {overwriteLabel()}
+          </text>
+        </box>
+      </box>
+
+      <box flexDirection="row" gap={2} alignItems="center">
+        <box flexDirection="row" gap={1}>
+          <text fg={COLORS.text}>Metadata:</text>
+          <text
+            fg={isFieldFocused('metadata') ? COLORS.focused : COLORS.text}
+            attributes={isFieldFocused('metadata') ? TextAttributes.BOLD : 0}
+          >
+            {metadataLabel()}
+          </text>
+        </box>
+
+        <box flexDirection="row" gap={1}>
+          <text fg={COLORS.text}>Color:</text>
+          <text
+            fg={isFieldFocused('color') ? COLORS.focused : COLORS.text}
+            attributes={isFieldFocused('color') ? TextAttributes.BOLD : 0}
+          >
+            {colorLabel()}
+          </text>
+        </box>
+
+        <box flexDirection="row" gap={1}>
+          <text
+            fg={isFieldFocused('embed') ? COLORS.focused : COLORS.text}
+            attributes={isFieldFocused('embed') ? TextAttributes.BOLD : 0}
+          >
+            {props.color.embedProfile && canEmbed() ? '[x]' : '[ ]'}
+          </text>
+          <text fg={props.color.embedProfile && canEmbed() ? COLORS.text : COLORS.muted}>Embed profile</text>
+        </box>
+      </box>
+
+      <Show
+        when={!props.error}
+        fallback={<text fg={COLORS.error} style={{ marginTop: 1 }}>{props.error}</text>}
+      >
+        <text fg={COLORS.muted} style={{ marginTop: 1 }}>
+          {props.preview ? `Example: ${props.preview}` : 'Variables: {name} {ext} {format} {width} {height} {quality} {hash8}'}
+          {props.focused ? ' | Left/Right: Switch field | Space: Change setting' : ''}
+        </text>
+      </Show>
+    </box>
+  )
+}
@@ -0,0 +1,89 @@
+// Preset selector component for applying and saving named conversion presets
+
+import { For, Show } from 'solid-js'
+import { TextAttributes } from '@opentui/core'
+import type { ConversionPreset } from '../utils/types'
+import { describePreset } from '../utils/userConfig'
+import { COLORS } from '../constants'
+
+interface PresetSelectorProps {
+  presets: ConversionPreset[]
+  appliedName: string | null // preset the current settings came from
+  presetName: string // name to save the current settings under
+  onPresetNameChange: (value: string) => void
+  focused: boolean
+  focusedIndex: number // presets.length focuses the preset name input
+}
+
+export function PresetSelector(props: PresetSelectorProps) {
+  const isNameFocused = () => props.focused && props.focusedIndex === props.presets.length
+  const focusedPreset = () => (props.focused ? props.presets[props.focusedIndex] : undefined)
+
+  const helpText = () => {
+    if (isNameFocused()) return 'Enter: Save current formats, quality, resize and encoder settings | Left: Presets'
+    if (!props.focused) return ''
+    if (props.presets.length === 0) return 'No presets yet | Right: Save current settings as a preset'
+    const deletable = focusedPreset()?.source === 'user' ? ' | d: Delete' : ''
+    return `Left/Right: Navigate | Enter: Apply${deletable} | Right on last: Save as preset`
+  }
+
+  return (
+    <box
+      flexDirection="column"
+      border
+      borderStyle="rounded"
+      borderColor={props.focused ? COLORS.focused : COLORS.border}
+      paddingLeft={1}
+      paddingRight={1}
+      title="Presets"
+    >
+      <box flexDirection="row" gap={3} alignItems="center">
+        <Show when={props.presets.length > 0} fallback={<text fg={COLORS.muted}>None</text>}>
+          <For each={props.presets}>
+            {(preset, index) => {
+              const isApplied = () => props.appliedName === preset.name
+              const isFocused = () => props.focused && props.focusedIndex === index()
+
+              return (
+                <box flexDirection="row" gap={1}>
+                  <text
+                    fg={isFocused() ? COLORS.focused : COLORS.text}
+                    attributes={isFocused() ? TextAttributes.BOLD : 0}
+                  >
+                    {isApplied() ? '(*)' : '( )'}
+                  </text>
+                  <text
+                    fg={isApplied() ? COLORS.text : COLORS.muted}
+                    attributes={isApplied() ? TextAttributes.BOLD : 0}
+                  >
+                    {preset.name}
+                  </text>
+                  <text fg={COLORS.muted}>
+                    {describePreset(preset)}
+                    {preset.source === 'project' ? ' (project)' : ''}
+                  </text>
+                </box>
+              )
+            }}
+          </For>
+        </Show>
+        <Show when={isNameFocused()}>
+          <box flexDirection="row" gap={1} alignItems="center">
+            <text fg={COLORS.muted}>Save as:</text>
+            <box border borderStyle="rounded" borderColor={COLORS.focused} style={{ height: 3, width: 22 }}>
+              <input
+                placeholder="preset name"
+                value={props.presetName}
+                focused={isNameFocused()}
+                onInput={props.onPresetNameChange}
+              />
+            </box>
+          </box>
+        </Show>
+      </box>
+      <Show when={props.focused}>
+        <text fg={COLORS.muted}>{helpText()}</text>
+      </Show>
+    </box>
+  )
+}
@@ -1,18 +1,58 @@
-// Quality selector component for choosing compression quality
+// Quality selector component for choosing compression quality or a target file size
 
-import { For } from 'solid-js'
+import { For, Show } from 'solid-js'
 import { TextAttributes } from '@opentui/core'
-import { QUALITY_PRESETS, COLORS } from '../constants'
+import { COLORS } from '../constants'
+import type { QualityPreset, QualitySetting } from '../utils/types'
+
+// Characters in the slider track
+const SLIDER_WIDTH = 20
 
 interface QualitySelectorProps {
-  selectedQuality: number
-  onSelect: (quality: number) => void
+  presets: QualityPreset[] // built-in presets followed by saved ones
+  selectedQuality: QualitySetting
+  onSelect: (quality: QualitySetting) => void
+  customQuality: number // value the slider shows
+  minSsim: number // threshold of the Auto preset
+  targetSize: string // e.g. "150KB"; overrides the preset when set
+  onTargetSizeChange: (value: string) => void
+  presetName: string // name to save the slider value under
+  onPresetNameChange: (value: string) => void
   focused: boolean
+  // presets.length focuses the target size input, +1 the slider, +2 the preset name input
   focusedIndex: number
   onFocusedIndexChange: (index: number) => void
 }
 
+/**
+ * Slider track with a knob at `quality` (1-100)
+ */
+function sliderTrack(quality: number): string {
+  const position = Math.round(((quality - 1) / 99) * (SLIDER_WIDTH - 1))
+  return '━'.repeat(position) + '●' + '─'.repeat(SLIDER_WIDTH - 1 - position)
+}
+
 export function QualitySelector(props: QualitySelectorProps) {
+  const targetMode = () => props.targetSize.trim() !== ''
+  const isTargetFocused = () => props.focused && props.focusedIndex === props.presets.length
+  const isSliderFocused = () => props.focused && props.focusedIndex === props.presets.length + 1
+  const isNameFocused = () => props.focused && props.focusedIndex === props.presets.length + 2
+  const focusedPreset = () => (props.focused ? props.presets[props.focusedIndex] : undefined)
+  const presetDetail = (preset: QualityPreset) =>
+    preset.value === 'auto' ? `SSIM ${props.minSsim}` : preset.value
+
+  // The slider counts as selected when the quality matches no preset
+  const isCustomSelected = () =>
+    !targetMode() && !props.presets.some((preset) => preset.value === props.selectedQuality)
+
+  const helpText = () => {
+    if (isTargetFocused()) return 'Left: Presets | Quality is searched per format to fit the size; clear to use presets'
+    if (isSliderFocused()) return 'Left/Right: -/+1 | Shift+Left/Right: -/+5 | Type a value | Up: Presets | Down: Save as preset'
+    if (isNameFocused()) return 'Enter: Save preset | Up: Slider'
+    if (!props.focused) return ''
+    return `Left/Right: Navigate | Enter: Select | Down: Custom${focusedPreset()?.saved ? ' | d: Delete preset' : ''}`
+  }
+
   return (
     <box
       flexDirection="column"
@@ -22,10 +62,10 @@ export function QualitySelector(props: QualitySelectorProps) {
       padding={1}
       title="Quality"
     >
-      <box flexDirection="row" gap={2}>
-        <For each={QUALITY_PRESETS}>
+      <box flexDirection="row" gap={2} alignItems="center">
+        <For each={props.presets}>
           {(preset, index) => {
-            const isSelected = () => props.selectedQuality === preset.value
+            const isSelected = () => !targetMode() && props.selectedQuality === preset.value
             const isFocused = () => props.focused && props.focusedIndex === index()
 
             return (
@@ -40,15 +80,75 @@ export function QualitySelector(props: QualitySelectorProps) {
                   fg={isSelected() ? COLORS.text : COLORS.muted}
                   attributes={isSelected() ? TextAttributes.BOLD : 0}
                 >
-                  {preset.name} ({preset.value})
+                  {preset.name} ({presetDetail(preset)})
                 </text>
               </box>
             )
           }}
         </For>
+        <box flexDirection="row" gap={1} alignItems="center">
+          <text fg={targetMode() ? COLORS.text : COLORS.muted}>Max size:</text>
+          <box
+            border
+            borderStyle="rounded"
+            borderColor={isTargetFocused() ? COLORS.focused : COLORS.border}
+            style={{ height: 3, width: 12 }}
+          >
+            <input
+              placeholder="e.g. 150KB"
+              value={props.targetSize}
+              focused={isTargetFocused()}
+              onInput={props.onTargetSizeChange}
+            />
+          </box>
+        </box>
+      </box>
+
+      {/* Custom quality slider */}
+      <box flexDirection="row" gap={1} alignItems="center">
+        <text
+          fg={isSliderFocused() ? COLORS.focused : COLORS.text}
+          attributes={isSliderFocused() ? TextAttributes.BOLD : 0}
+        >
+          {isCustomSelected() ? '(*)' : '( )'}
+        </text>
+        <text fg={isCustomSelected() ? COLORS.text : COLORS.muted}>Custom:</text>
+        <text fg={isSliderFocused() ? COLORS.focused : COLORS.muted}>{sliderTrack(props.customQuality)}</text>
+        <box
+          border
+          borderStyle="rounded"
+          borderColor={isSliderFocused() ? COLORS.focused : COLORS.border}
+          style={{ height: 3, width: 7 }}
+        >
+          <input
+            value={String(props.customQuality)}
+            focused={isSliderFocused()}
+            onInput={(value) => {
+              const quality = parseInt(value.replace(/[^0-9]/g, ''), 10)
+              if (quality >= 1 && quality <= 100) props.onSelect(quality)
+            }}
+          />
+        </box>
+        <Show when={props.focused && props.focusedIndex > props.presets.length}>
+          <text fg={COLORS.muted} style={{ marginLeft: 1 }}>Save as:</text>
+          <box
+            border
+            borderStyle="rounded"
+            borderColor={isNameFocused() ? COLORS.focused : COLORS.border}
+            style={{ height: 3, width: 18 }}
+          >
+            <input
+              placeholder="preset name"
+              value={props.presetName}
+              focused={isNameFocused()}
+              onInput={props.onPresetNameChange}
+            />
+          </box>
+        </Show>
       </box>
+
       <text fg={COLORS.muted} style={{ marginTop: 1 }}>
-        {props.focused ? 'Left/Right: Navigate | Enter: Select' : ''}
+        {helpText()}
       </text>
     </box>
   )
@@ -9,6 +9,8 @@ interface SizeEstimateProps {
   estimates: FileSizeEstimate[] | null
   loading: boolean
   originalSize: number
+  targetSize: number | null // target size mode: quality is only known after converting
+  minSsim: number | null // auto quality: likewise chosen per format during conversion
 }
 
 export function SizeEstimate(props: SizeEstimateProps) {
@@ -21,6 +23,24 @@ export function SizeEstimate(props: SizeEstimateProps) {
     return '0%'
   }
 
+  // SSIM of 0.98+ is usually indistinguishable from the source
+  const getSsimColor = (ssim: number): string => {
+    if (ssim >= 0.98) return COLORS.success
+    if (ssim >= 0.95) return COLORS.successLight
+    if (ssim >= 0.9) return COLORS.warning
+    return COLORS.error
+  }
+
+  const formatPsnr = (psnr: number): string =>
+    Number.isFinite(psnr) ? `${psnr.toFixed(1)} dB` : 'lossless'
+
+  // Shown instead of estimates when the quality is searched for during conversion
+  const searchNote = (): string | null => {
+    if (props.targetSize !== null) return `Target: at most ${formatFileSize(props.targetSize)} per format`
+    if (props.minSsim !== null) return `Auto: lowest quality per format with SSIM of at least ${props.minSsim}`
+    return null
+  }
+
   const getPercentColor = (percent: number): string => {
     if (percent >= 50) return COLORS.success
     if (percent >= 20) return COLORS.successLight
@@ -31,43 +51,60 @@ export function SizeEstimate(props: SizeEstimateProps) {
   return (
     <box flexDirection="column" gap={0}>
       <Show
-        when={!props.loading}
+        when={!searchNote()}
         fallback={
-          <text fg={COLORS.muted}>Estimating size...</text>
+          <text fg={COLORS.muted}>
+            Original: {formatFileSize(props.originalSize)} | {searchNote()}
+          </text>
         }
       >
         <Show
-          when={props.estimates && props.estimates.length > 0}
+          when={!props.loading}
           fallback={
-            <text fg={COLORS.muted}>
-              Original: {formatFileSize(props.originalSize)}
-            </text>
+            <text fg={COLORS.muted}>Estimating size...</text>
           }
         >
-          <box flexDirection="row" gap={2}>
-            <text fg={COLORS.muted}>
-              Original: {formatFileSize(props.originalSize)}
-            </text>
-            <text fg={COLORS.muted}>|</text>
-            <For each={props.estimates}>
-              {(estimate) => (
-                <box flexDirection="row" gap={1}>
-                  <text fg={COLORS.text}>
-                    {estimate.format.toUpperCase()}:
-                  </text>
-                  <text fg={COLORS.text}>
-                    {formatFileSize(estimate.estimatedSize)}
-                  </text>
-                  <text
-                    fg={getPercentColor(estimate.decreasePercent)}
-                    attributes={TextAttributes.BOLD}
-                  >
-                    ({formatPercent(estimate.decreasePercent)})
-                  </text>
-                </box>
-              )}
-            </For>
-          </box>
+          <Show
+            when={props.estimates && props.estimates.length > 0}
+            fallback={
+              <text fg={COLORS.muted}>
+                Original: {formatFileSize(props.originalSize)}
+              </text>
+            }
+          >
+            <box flexDirection="row" gap={2}>
+              <text fg={COLORS.muted}>
+                Original: {formatFileSize(props.originalSize)}
+              </text>
+              <text fg={COLORS.muted}>|</text>
+              <For each={props.estimates}>
+                {(estimate) => (
+                  <box flexDirection="row" gap={1}>
+                    <text fg={COLORS.text}>
+                      {estimate.format.toUpperCase()}:
+                    </text>
+                    <text fg={COLORS.text}>
+                      {formatFileSize(estimate.estimatedSize)}
+                    </text>
+                    <text
+                      fg={getPercentColor(estimate.decreasePercent)}
+                      attributes={TextAttributes.BOLD}
+                    >
+                      ({formatPercent(estimate.decreasePercent)})
+                    </text>
+                    <Show when={estimate.metrics}>
+                      <text fg={getSsimColor(estimate.metrics!.ssim)}>
+                        SSIM {estimate.metrics!.ssim.toFixed(3)}
+                      </text>
+                      <text fg={COLORS.muted}>
+                        {formatPsnr(estimate.metrics!.psnr)}
+                      </text>
+                    </Show>
+                  </box>
+                )}
+              </For>
+            </box>
+          </Show>
         </Show>
       </Show>
     </box>
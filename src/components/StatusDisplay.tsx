@@ -1,5 +1,6 @@
 // Status display component for showing processing status and messages
 
+import { For, Show } from 'solid-js'
 import { TextAttributes } from '@opentui/core'
 import type { StatusMessage } from '../utils/types'
 import { COLORS } from '../constants'
@@ -39,12 +40,26 @@ export function StatusDisplay(props: StatusDisplayProps) {
     }
   }
 
+  // Limit detail lines so long batch failure lists don't push the layout around
+  const maxDetails = 5
+
+  const visibleDetails = () => props.status.details?.slice(0, maxDetails) ?? []
+  const hiddenDetailCount = () => (props.status.details?.length ?? 0) - visibleDetails().length
+
   return (
-    <box flexDirection="row" gap={1}>
-      <text fg={getStatusColor()} attributes={TextAttributes.BOLD}>
-        {getStatusPrefix()}
-      </text>
-      <text fg={getStatusColor()}>{props.status.message}</text>
+    <box flexDirection="column">
+      <box flexDirection="row" gap={1}>
+        <text fg={getStatusColor()} attributes={TextAttributes.BOLD}>
+          {getStatusPrefix()}
+        </text>
+        <text fg={getStatusColor()}>{props.status.message}</text>
+      </box>
+      <For each={visibleDetails()}>
+        {(detail) => <text fg={COLORS.muted}>  - {detail}</text>}
+      </For>
+      <Show when={hiddenDetailCount() > 0}>
+        <text fg={COLORS.muted}>  ...and {hiddenDetailCount()} more</text>
+      </Show>
     </box>
   )
 }
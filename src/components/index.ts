@@ -1,6 +1,14 @@
+export { ActivityLog, ACTIVITY_WINDOW } from './ActivityLog'
+export { ComparisonView, type ComparisonLayout } from './ComparisonView'
+export { DetailsPanel } from './DetailsPanel'
+export { EncoderSettings } from './EncoderSettings'
 export { FileList } from './FileList'
 export { FormatSelector } from './FormatSelector'
+export { GraphicView } from './GraphicView'
+export { ImagePreview } from './ImagePreview'
+export { PresetSelector } from './PresetSelector'
 export { QualitySelector } from './QualitySelector'
+export { OutputSettings, type OutputField } from './OutputSettings'
 export { ResizeInput } from './ResizeInput'
 export { SizeEstimate } from './SizeEstimate'
 export { StatusDisplay } from './StatusDisplay'
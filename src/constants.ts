@@ -1,16 +1,43 @@
 // Constants for the ImageMagick TUI application
 
-import type { QualityPreset, OutputFormat } from './utils/types'
+import type {
+  QualityPreset,
+  OutputFormat,
+  OverwritePolicy,
+  WebpEncoderOptions,
+  AvifEncoderOptions,
+  JxlEncoderOptions,
+  JpegEncoderOptions,
+  PngEncoderOptions,
+  MetadataPolicy,
+  ColorMode,
+  ColorOptions,
+} from './utils/types'
 
 export const QUALITY_PRESETS: QualityPreset[] = [
   { name: 'Low', value: 60, description: 'Smaller file size, lower quality' },
   { name: 'Medium', value: 80, description: 'Balanced quality and size' },
   { name: 'High', value: 90, description: 'High quality, larger file' },
   { name: 'Lossless', value: 100, description: 'Maximum quality, largest file' },
+  { name: 'Auto', value: 'auto', description: 'Lowest quality that keeps SSIM above the threshold' },
 ]
 
 export const DEFAULT_QUALITY = 80
 
+// Quality slider steps (Shift takes the large step)
+export const QUALITY_STEP = 1
+export const QUALITY_LARGE_STEP = 5
+
+/**
+ * Keep a quality value within 1-100
+ */
+export function clampQuality(quality: number): number {
+  return Math.min(100, Math.max(1, Math.round(quality)))
+}
+
+// SSIM an auto quality encode must reach; around 0.98 differences are hard to spot
+export const DEFAULT_MIN_SSIM = 0.98
+
 export const SUPPORTED_INPUT_FORMATS = [
   '.jpg',
   '.jpeg',
@@ -26,12 +53,72 @@ export const SUPPORTED_INPUT_FORMATS = [
   '.gif',
 ]
 
-export const OUTPUT_FORMATS: { format: OutputFormat; label: string }[] = [
-  { format: 'webp', label: 'WebP' },
-  { format: 'avif', label: 'AVIF' },
-  { format: 'jxl', label: 'JPEG XL' },
+export const OUTPUT_FORMATS: { format: OutputFormat; label: string; mimeType: string }[] = [
+  { format: 'webp', label: 'WebP', mimeType: 'image/webp' },
+  { format: 'avif', label: 'AVIF', mimeType: 'image/avif' },
+  { format: 'jxl', label: 'JPEG XL', mimeType: 'image/jxl' },
+  { format: 'jpg', label: 'JPEG', mimeType: 'image/jpeg' },
+  { format: 'png', label: 'PNG', mimeType: 'image/png' },
+]
+
+export const DEFAULT_WEBP_OPTIONS: Required<WebpEncoderOptions> = {
+  lossless: false,
+  method: 4,
+  alphaQuality: 100,
+}
+
+export const DEFAULT_AVIF_OPTIONS: Required<AvifEncoderOptions> = {
+  speed: 6,
+  chromaSubsampling: '4:2:0',
+}
+
+export const DEFAULT_JXL_OPTIONS: Required<JxlEncoderOptions> = {
+  effort: 7,
+  distance: null,
+}
+
+export const DEFAULT_JPEG_OPTIONS: Required<JpegEncoderOptions> = {
+  progressive: true,
+  chromaSubsampling: '4:2:0',
+}
+
+export const DEFAULT_PNG_OPTIONS: Required<PngEncoderOptions> = {
+  compressionLevel: 9,
+  paletteColors: null,
+}
+
+// Default output file name, matching the historical "<name>.<format>" naming
+export const DEFAULT_FILENAME_TEMPLATE = '{name}.{format}'
+
+// Default output file name for responsive image sets, one file per width
+export const SRCSET_FILENAME_TEMPLATE = '{name}-{width}w.{format}'
+
+export const OVERWRITE_POLICIES: { policy: OverwritePolicy; label: string; description: string }[] = [
+  { policy: 'counter', label: 'Keep both', description: 'Add a counter suffix (photo-1.webp)' },
+  { policy: 'skip', label: 'Skip', description: 'Keep existing outputs' },
+  { policy: 'overwrite', label: 'Overwrite', description: 'Replace existing outputs' },
+  { policy: 'newer', label: 'If newer', description: 'Replace outputs older than their source' },
+]
+
+export const DEFAULT_OVERWRITE_POLICY: OverwritePolicy = 'counter'
+
+export const METADATA_POLICIES: { policy: MetadataPolicy; label: string; description: string }[] = [
+  { policy: 'strip', label: 'Strip all', description: 'Remove all metadata for the smallest files' },
+  { policy: 'icc', label: 'ICC only', description: 'Keep the color profile' },
+  { policy: 'copyright', label: 'Copyright', description: 'Keep EXIF, IPTC and XMP (copyright, author)' },
+  { policy: 'all', label: 'Keep all', description: 'Keep all metadata and profiles' },
+]
+
+export const DEFAULT_METADATA_POLICY: MetadataPolicy = 'strip'
+
+export const COLOR_MODES: { mode: ColorMode; label: string; description: string }[] = [
+  { mode: 'srgb', label: 'sRGB', description: 'Convert to sRGB from the embedded profile' },
+  { mode: 'wide', label: 'sRGB, P3 AVIF', description: 'Like sRGB, but AVIF keeps wide-gamut sources in Display P3' },
+  { mode: 'keep', label: 'Unchanged', description: 'Leave colors as they are' },
 ]
 
+export const DEFAULT_COLOR_OPTIONS: ColorOptions = { mode: 'srgb', embedProfile: false }
+
 // UI Colors
 export const COLORS = {
   primary: '#3B82F6', // Blue
@@ -50,6 +137,19 @@ export const COLORS = {
 // Size estimation debounce delay in milliseconds
 export const SIZE_ESTIMATE_DEBOUNCE_MS = 300
 
+// Preview pane drawing area in terminal cells (matches the file list's height)
+export const PREVIEW_COLUMNS = 36
+export const PREVIEW_ROWS = 10
+
+// Preview thumbnail debounce delay in milliseconds
+export const PREVIEW_DEBOUNCE_MS = 150
+
+// Watch mode: quiet time after a file's last write before it's converted
+export const WATCH_DEBOUNCE_MS = 500
+
+// Watch mode: entries kept in the activity panel
+export const ACTIVITY_LOG_LIMIT = 200
+
 // Format file size for display
 export function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`
@@ -57,6 +157,16 @@ export function formatFileSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 }
 
+// Parse a file size such as "150KB", "1.5 MB" or "2048" (bytes); null if invalid
+export function parseFileSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|k|kb|m|mb)?$/i.exec(value.trim())
+  if (!match) return null
+
+  const units: Record<string, number> = { b: 1, k: 1024, kb: 1024, m: 1024 * 1024, mb: 1024 * 1024 }
+  const bytes = Math.round(Number(match[1]) * units[(match[2] ?? 'b').toLowerCase()]!)
+  return bytes > 0 ? bytes : null
+}
+
 // Format dimensions for display
 export function formatDimensions(width: number, height: number): string {
   return `${width}x${height}`
@@ -6,14 +6,111 @@ declare const MAGICK_TUI_VERSION: string | undefined
 
 import { render, useKeyboard, useRenderer } from '@opentui/solid'
 import { TextAttributes } from '@opentui/core'
-import { createSignal, createEffect, onMount, Show } from 'solid-js'
-
-import type { ImageFile, OutputFormat, Section, StatusMessage } from './utils/types'
-import { scanDirectory, loadDimensionsAsync, checkImageMagick, checkDiskSpace } from './utils/fileScanner'
-import { processImage, validateResize, estimateFileSizeAsync, cancelEstimation, type FileSizeEstimate } from './utils/imageProcessor'
-import { COLORS, DEFAULT_QUALITY, OUTPUT_FORMATS, QUALITY_PRESETS, SIZE_ESTIMATE_DEBOUNCE_MS } from './constants'
-
-import { FileList, FormatSelector, QualitySelector, ResizeInput, SizeEstimate, StatusDisplay } from './components'
+import { createSignal, createEffect, createMemo, onMount, onCleanup, untrack, Show } from 'solid-js'
+import { relative } from 'node:path'
+
+import type {
+  ActivityEntry,
+  BatchItemResult,
+  ColorOptions,
+  ImageDetails,
+  ConversionPreset,
+  ImageInfo,
+  ImageFile,
+  EncoderOptions,
+  MetadataPolicy,
+  OutputFormat,
+  OutputOptions,
+  OverwritePolicy,
+  PreviewMode,
+  ProcessOptions,
+  QualitySetting,
+  ScanOptions,
+  Section,
+  StatusMessage,
+  StatusType,
+} from './utils/types'
+import {
+  scanDirectory,
+  loadDimensionsAsync,
+  getImageDetails,
+  checkImageMagick,
+  checkDiskSpace,
+  generateOutputPath,
+} from './utils/fileScanner'
+import { processBatch, computeOutputDimensions, validateResize, estimateFileSizeAsync, cancelEstimation, type FileSizeEstimate } from './utils/imageProcessor'
+import { getConversionPool, type PoolStats } from './utils/conversionPool'
+import { renderFilenameTemplate, validateFilenameTemplate } from './utils/outputTemplate'
+import { ENCODER_FIELDS, stepEncoderField } from './utils/encoderOptions'
+import {
+  cancelPreview,
+  generateComparisonAsync,
+  generatePreviewAsync,
+  getCellSize,
+  panCrop,
+  type ComparisonImages,
+  type ComparisonZoom,
+  type PreviewImage,
+} from './utils/imagePreview'
+import { clipboardSequence, detectPreviewProtocol, writeToTerminal, type GraphicsCapabilities } from './utils/terminalGraphics'
+import { createPictureMarkup } from './utils/pictureMarkup'
+import { watchFolder, type FolderWatcher } from './utils/folderWatcher'
+import {
+  describePreset,
+  deleteUserPreset,
+  loadConfig,
+  removeQualityPreset,
+  saveQualityPresets,
+  saveUserPreset,
+  upsertConversionPreset,
+  upsertQualityPreset,
+  validatePresetName,
+  type SavedQualityPreset,
+} from './utils/userConfig'
+import { findPreset, mergeEncoderOptions } from './utils/cliArgs'
+import {
+  ACTIVITY_LOG_LIMIT,
+  COLOR_MODES,
+  COLORS,
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_MIN_SSIM,
+  DEFAULT_OVERWRITE_POLICY,
+  DEFAULT_QUALITY,
+  METADATA_POLICIES,
+  OUTPUT_FORMATS,
+  OVERWRITE_POLICIES,
+  SRCSET_FILENAME_TEMPLATE,
+  PREVIEW_COLUMNS,
+  PREVIEW_DEBOUNCE_MS,
+  PREVIEW_ROWS,
+  QUALITY_LARGE_STEP,
+  QUALITY_PRESETS,
+  QUALITY_STEP,
+  SIZE_ESTIMATE_DEBOUNCE_MS,
+  clampQuality,
+  parseFileSize,
+} from './constants'
+
+import {
+  ACTIVITY_WINDOW,
+  ActivityLog,
+  ComparisonView,
+  DetailsPanel,
+  EncoderSettings,
+  FileList,
+  FormatSelector,
+  ImagePreview,
+  OutputSettings,
+  PresetSelector,
+  QualitySelector,
+  ResizeInput,
+  SizeEstimate,
+  StatusDisplay,
+  type ComparisonLayout,
+  type OutputField,
+} from './components'
+import { runCheck, runConvert } from './cli'
+import { parseTuiArgs } from './utils/cliArgs'
 
 // Import version from package.json (fallback for dev mode)
 import pkg from '../package.json'
@@ -36,15 +133,105 @@ A powerful, interactive Terminal User Interface for image compression and conver
 
 Usage:
   magick-tui [options]
+  magick-tui convert <files...> [convert options]
+  magick-tui check [paths...] [check options]
 
 Options:
   -v, --version    Show version number
   -h, --help       Show this help message
 
+TUI options:
+      --preview <mode>    Image preview: auto (default), kitty, sixel, blocks or off
+                          (press v in the file list to compare before/after)
+
+Preset options (TUI and convert):
+  -p, --preset <name>     Start from a named preset in ~/.config/magick-tui/config.json
+                          or .magick-tui.json; other options override its settings
+
+Quality options (TUI and convert):
+      --min-ssim <0.5-1>  SSIM the Auto quality preset must reach (default: ${DEFAULT_MIN_SSIM})
+
+Output options (TUI and convert):
+  -o, --out-dir <dir>     Write outputs to this directory instead of next to the input
+      --mirror            Recreate the input's folders below --out-dir
+  -t, --template <name>   Output filename template (default: ${DEFAULT_FILENAME_TEMPLATE})
+                          Variables: {name} {ext} {format} {width} {height} {quality} {hash} {hash8}
+      --overwrite <policy>  When an output exists: counter (default), skip, overwrite,
+                          or newer (overwrite only if the source is newer)
+      --metadata <policy>  Metadata to keep: strip (default), icc (color profile only),
+                          copyright (EXIF, IPTC and XMP) or all
+      --color <mode>      Color conversion: srgb (default, from the embedded profile),
+                          wide (sRGB, but AVIF keeps wide-gamut sources in Display P3)
+                          or keep (leave colors as they are)
+      --embed-profile     Embed a compact ICC profile of the target color space
+      --cache <file>      Skip sources whose content, settings and outputs are unchanged
+                          since the last run recorded in this file
+      --manifest <file>   Record every source and its outputs (format, size, dimensions,
+                          quality, hash) in a JSON file, updated after each run
+
+Encoder options (TUI and convert):
+      --webp-lossless     Encode WebP losslessly
+      --webp-method <0-6> WebP compression effort (default: 4)
+      --webp-alpha-quality <0-100>  WebP alpha channel quality (default: 100)
+      --avif-speed <0-9>  AVIF encoder speed, lower is smaller (default: 6)
+      --avif-sampling <mode>  AVIF chroma subsampling: 4:2:0 (default), 4:2:2, 4:4:4
+      --jxl-effort <1-9>  JPEG XL effort (default: 7)
+      --jxl-distance <n>  JPEG XL Butteraugli distance, 0 = lossless (default: from quality)
+      --jpeg-baseline     Write baseline instead of progressive JPEGs
+      --jpeg-sampling <mode>  JPEG chroma subsampling: 4:2:0 (default), 4:2:2, 4:4:4
+      --png-level <0-9>   PNG compression level (default: 9)
+      --png-colors <n>    Quantize PNGs to a palette of at most n colors (2-256)
+
+Scan options (TUI, convert and check):
+  -r, --recursive         Scan subdirectories (skips .git, node_modules and .gitignore'd paths)
+      --max-depth <n>     Limit recursion depth (implies --recursive)
+      --include <glob>    Only include files matching the glob (repeatable)
+      --exclude <glob>    Skip files or directories matching the glob (repeatable)
+      --no-gitignore      Don't apply .gitignore rules
+
+Convert options (non-interactive, for scripts and CI):
+  -f, --format <list>     Output formats, comma separated (default: webp)
+                          Supported: ${OUTPUT_FORMATS.map((f) => f.format).join(', ')}
+  -q, --quality <1-100|auto>  Compression quality (default: ${DEFAULT_QUALITY}); auto picks
+                          the lowest quality per image that reaches --min-ssim
+  -s, --target-size <size>  Pick the highest quality whose output fits the size
+                          (e.g. 150KB, 1.5MB); replaces --quality
+  -W, --width <px>        Resize to width (downscale only)
+  -H, --height <px>       Resize to height (downscale only)
+      --picture <file>    Write <picture> markup for the outputs to a file (- for stdout);
+                          in the TUI, press p on Convert to copy it to the clipboard
+      --widths <list>     Responsive image set: one output per width and format,
+                          e.g. 480,768,1200; widths above the image's are skipped
+                          (default template: ${SRCSET_FILENAME_TEMPLATE})
+      --watch             Keep running and convert new or modified images in the
+                          input directories (Ctrl+C to stop); in the TUI, press w
+                          in the file list
+
+  Inputs may be files, directories or glob patterns. Exits non-zero when
+  any conversion fails.
+
+  Example: magick-tui convert *.png --format webp,avif --quality 80 --width 1200
+
+Check options (size budgets for CI):
+      --max-size <size>   Largest allowed file size (e.g. 300KB, 1.5MB)
+      --max-width <px>    Widest allowed image
+      --max-height <px>   Tallest allowed image
+                          (defaults: "budget" in .magick-tui.json or the user config)
+  -f, --format <list>     Formats to estimate suggested savings for (default: webp)
+  -q, --quality <1-100>   Quality for suggested savings (default: ${DEFAULT_QUALITY})
+      --no-suggest        Skip the savings estimates
+      --json <file>       Write a JSON report (- for stdout)
+      --junit <file>      Write a JUnit XML report (- for stdout)
+
+  Paths default to the current directory. Exits non-zero when an image is
+  over budget or can't be read.
+
+  Example: magick-tui check public -r --max-size 300KB --max-width 2560 --junit budget.xml
+
 The interface is intuitive and keyboard-driven:
   - Navigate with Tab or arrow keys
   - Select formats and quality presets
-  - Convert images to WebP and AVIF formats
+  - Convert images to WebP, AVIF, JPEG XL, JPEG and PNG formats
   - Optionally resize images during conversion
 
 For more information, visit: https://github.com/jensderond/magick-tui
@@ -52,7 +239,35 @@ For more information, visit: https://github.com/jensderond/magick-tui
   process.exit(0)
 }
 
-function App() {
+// Headless mode: convert without launching the TUI
+if (args[0] === 'convert') {
+  process.exit(await runConvert(args.slice(1)))
+}
+
+// CI mode: check images against size budgets
+if (args[0] === 'check') {
+  process.exit(await runCheck(args.slice(1)))
+}
+
+const tuiArgs = parseTuiArgs(args)
+if (!tuiArgs.success) {
+  console.error(`Error: ${tuiArgs.error}`)
+  console.error("Run 'magick-tui --help' for usage.")
+  process.exit(2)
+}
+
+interface AppProps {
+  scanOptions: ScanOptions
+  outputOptions: OutputOptions
+  encoderOptions: EncoderOptions
+  metadata: MetadataPolicy
+  color: ColorOptions
+  minSsim: number
+  preview: PreviewMode
+  preset: string | null
+}
+
+function App(props: AppProps) {
   // Get renderer for proper cleanup
   const renderer = useRenderer()
 
@@ -64,40 +279,115 @@ function App() {
   // Image files state
   const [files, setFiles] = createSignal<ImageFile[]>([])
   const [selectedIndex, setSelectedIndex] = createSignal(0)
+  const [markedPaths, setMarkedPaths] = createSignal<Set<string>>(new Set())
   const [loading, setLoading] = createSignal(true)
   const [scanError, setScanError] = createSignal<string | null>(null)
+  const [scanOptions, setScanOptions] = createSignal<ScanOptions>(props.scanOptions)
 
   // Conversion options state
   const [selectedFormats, setSelectedFormats] = createSignal<Set<OutputFormat>>(
     new Set(['webp'])
   )
-  const [quality, setQuality] = createSignal(DEFAULT_QUALITY)
+  const [quality, setQuality] = createSignal<QualitySetting>(DEFAULT_QUALITY)
+  const [targetSize, setTargetSize] = createSignal('')
+  const [savedQualityPresets, setSavedQualityPresets] = createSignal<SavedQualityPreset[]>([])
+  const [qualityPresetName, setQualityPresetName] = createSignal('')
+  const [conversionPresets, setConversionPresets] = createSignal<ConversionPreset[]>([])
+  const [appliedPreset, setAppliedPreset] = createSignal<string | null>(null)
+  const [conversionPresetName, setConversionPresetName] = createSignal('')
+  const [encoderOptions, setEncoderOptions] = createSignal<EncoderOptions>(props.encoderOptions)
   const [resizeWidth, setResizeWidth] = createSignal('')
   const [resizeHeight, setResizeHeight] = createSignal('')
+  const [outputDir, setOutputDir] = createSignal(props.outputOptions.outputDir ?? '')
+  const [filenameTemplate, setFilenameTemplate] = createSignal(props.outputOptions.filenameTemplate ?? '')
+  const [mirrorTree, setMirrorTree] = createSignal(props.outputOptions.mirrorTree ?? false)
+  const [overwritePolicy, setOverwritePolicy] = createSignal<OverwritePolicy>(
+    props.outputOptions.overwrite ?? DEFAULT_OVERWRITE_POLICY
+  )
+  const [metadataPolicy, setMetadataPolicy] = createSignal<MetadataPolicy>(props.metadata)
+  const [colorOptions, setColorOptions] = createSignal<ColorOptions>(props.color)
 
   // UI state
   const [focusedSection, setFocusedSection] = createSignal<Section>('files')
+  const [presetFocusIndex, setPresetFocusIndex] = createSignal(0)
   const [formatFocusIndex, setFormatFocusIndex] = createSignal(0)
   const [qualityFocusIndex, setQualityFocusIndex] = createSignal(1) // Default to Medium
+  const [encoderFocusRow, setEncoderFocusRow] = createSignal(0)
+  const [encoderFocusField, setEncoderFocusField] = createSignal(0)
   const [resizeFocusField, setResizeFocusField] = createSignal<'width' | 'height'>('width')
+  const [outputFocusField, setOutputFocusField] = createSignal<OutputField>('dir')
   const [status, setStatus] = createSignal<StatusMessage>({
     type: 'idle',
     message: 'Ready',
   })
   const [processing, setProcessing] = createSignal(false)
+  // Outputs of the last conversion, for copying <picture> markup
+  const [lastResults, setLastResults] = createSignal<BatchItemResult[]>([])
+  const [poolStats, setPoolStats] = createSignal<PoolStats | null>(null)
+
+  // Watch mode state
+  const [watching, setWatching] = createSignal(false)
+  const [activity, setActivity] = createSignal<ActivityEntry[]>([])
+  const [activityScroll, setActivityScroll] = createSignal(0)
 
   // Size estimation state
   const [sizeEstimates, setSizeEstimates] = createSignal<FileSizeEstimate[] | null>(null)
   const [estimating, setEstimating] = createSignal(false)
 
+  // Preview pane state
+  const [capabilities, setCapabilities] = createSignal<GraphicsCapabilities | null>(renderer.capabilities)
+  const [previewImage, setPreviewImage] = createSignal<PreviewImage | null>(null)
+  const [previewLoading, setPreviewLoading] = createSignal(false)
+  const [previewError, setPreviewError] = createSignal<string | null>(null)
+  const previewProtocol = createMemo(() => detectPreviewProtocol(props.preview, capabilities()))
+
+  // Details panel state, cached per file path and size
+  const [showDetails, setShowDetails] = createSignal(true)
+  const [imageDetails, setImageDetails] = createSignal<ImageDetails | null>(null)
+  const [detailsLoading, setDetailsLoading] = createSignal(false)
+  const [detailsError, setDetailsError] = createSignal<string | null>(null)
+  const detailsCache = new Map<string, ImageDetails>()
+
+  // Before/after comparison screen state
+  const [comparing, setComparing] = createSignal(false)
+  const [comparisonFormat, setComparisonFormat] = createSignal<OutputFormat>('webp')
+  const [comparisonLayout, setComparisonLayout] = createSignal<ComparisonLayout>('side')
+  const [comparisonShowEncoded, setComparisonShowEncoded] = createSignal(true)
+  const [comparisonZoom, setComparisonZoom] = createSignal<ComparisonZoom>('fit')
+  const [comparisonCenter, setComparisonCenter] = createSignal({ x: 0.5, y: 0.5 })
+  const [comparisonImages, setComparisonImages] = createSignal<ComparisonImages | null>(null)
+  const [comparisonLoading, setComparisonLoading] = createSignal(false)
+  const [comparisonError, setComparisonError] = createSignal<string | null>(null)
+
+  // The comparison falls back to half-blocks when the preview pane is off
+  const comparisonProtocol = () => previewProtocol() ?? detectPreviewProtocol('auto', capabilities()) ?? 'blocks'
+
+  // Cells available to each comparison view
+  const comparisonViewSize = () => {
+    const columns = renderer.terminalWidth - 6
+    const rows = Math.max(4, renderer.terminalHeight - 16)
+    return comparisonLayout() === 'side'
+      ? { columns: Math.floor((columns - 2) / 2), rows }
+      : { columns, rows }
+  }
+
+  // The terminal answers the capability query after startup
+  const onCapabilities = (caps: GraphicsCapabilities) => setCapabilities(caps)
+  renderer.on('capabilities', onCapabilities)
+  onCleanup(() => renderer.off('capabilities', onCapabilities))
+
   // Current selected image
   const selectedImage = () => files()[selectedIndex()] || null
 
   // Section navigation order
-  const sections: Section[] = ['files', 'formats', 'quality', 'resize', 'convert']
+  const allSections: Section[] = ['files', 'presets', 'formats', 'quality', 'encoder', 'resize', 'output', 'convert', 'activity']
+
+  // The activity panel is shown once watch mode has been used
+  const showActivity = () => watching() || activity().length > 0
 
   // Navigate to next/previous section
   const navigateSection = (direction: 'next' | 'prev') => {
+    const sections = showActivity() ? allSections : allSections.filter((s) => s !== 'activity')
     const currentIndex = sections.indexOf(focusedSection())
     const newIndex =
       direction === 'next'
@@ -109,6 +399,217 @@ function App() {
     }
   }
 
+  // Output location options for the next conversion
+  const outputOptions = (): OutputOptions => ({
+    outputDir: outputDir().trim() || null,
+    mirrorTree: mirrorTree(),
+    filenameTemplate: filenameTemplate().trim() || undefined,
+    overwrite: overwritePolicy(),
+    manifestPath: props.outputOptions.manifestPath,
+    cachePath: props.outputOptions.cachePath,
+  })
+
+  const templateError = createMemo(() => {
+    const template = filenameTemplate().trim()
+    return template ? validateFilenameTemplate(template, Array.from(selectedFormats())) : null
+  })
+
+  // Example output path for the selected image and first selected format
+  const outputPreview = createMemo(() => {
+    const image = selectedImage()
+    const format = Array.from(selectedFormats())[0]
+    const template = filenameTemplate().trim()
+    if (!image || !format || templateError() || (!template && !outputDir().trim())) return null
+
+    const width = resizeWidth() ? parseInt(resizeWidth(), 10) : null
+    const height = resizeHeight() ? parseInt(resizeHeight(), 10) : null
+    const dimensions = image.width > 0
+      ? computeOutputDimensions({ width: image.width, height: image.height }, width, height)
+      : null
+    const filename = template
+      ? renderFilenameTemplate(template, {
+          name: image.name.substring(0, image.name.lastIndexOf('.')),
+          ext: image.format,
+          format,
+          quality: fixedQuality(),
+          width: dimensions?.width ?? width ?? undefined,
+          height: dimensions?.height ?? height ?? undefined,
+          hash: '<hash>',
+          hash8: '<hash8>',
+        })
+      : undefined
+    const options = outputOptions()
+    const path = generateOutputPath(image.path, format, {
+      outputDir: options.outputDir,
+      mirrorTree: options.mirrorTree,
+      filename,
+      overwrite: options.overwrite,
+    })
+    return relative(process.cwd(), path)
+  })
+
+  // Byte budget in target size mode; null when presets are used or the input is invalid
+  const targetBytes = createMemo(() => (targetSize().trim() ? parseFileSize(targetSize()) : null))
+
+  // Fixed quality to encode with; the Auto preset searches from this per format
+  const fixedQuality = () => {
+    const q = quality()
+    return q === 'auto' ? DEFAULT_QUALITY : q
+  }
+
+  // Built-in quality presets followed by the ones saved from the slider
+  const qualityPresets = createMemo(() => [
+    ...QUALITY_PRESETS,
+    ...savedQualityPresets().map((p) => ({
+      name: p.name,
+      value: p.quality,
+      description: 'Saved custom quality',
+      saved: true,
+    })),
+  ])
+
+  // Save the slider value as a named quality preset in the user config
+  const saveQualityPreset = async () => {
+    const name = qualityPresetName().trim()
+    const error = validatePresetName(name, QUALITY_PRESETS.map((p) => p.name))
+    if (error) {
+      setStatus({ type: 'error', message: error })
+      return
+    }
+
+    const presets = upsertQualityPreset(savedQualityPresets(), { name, quality: fixedQuality() })
+    const result = await saveQualityPresets(presets)
+    if (!result.success) {
+      setStatus({ type: 'error', message: result.error || 'Could not save preset' })
+      return
+    }
+
+    setSavedQualityPresets(presets)
+    setQualityPresetName('')
+    setQualityFocusIndex(qualityPresets().length + 1)
+    setStatus({ type: 'success', message: `Saved quality preset "${name}" (${fixedQuality()})` })
+  }
+
+  // Delete a saved quality preset from the user config
+  const deleteQualityPreset = async (name: string) => {
+    const presets = removeQualityPreset(savedQualityPresets(), name)
+    const result = await saveQualityPresets(presets)
+    if (!result.success) {
+      setStatus({ type: 'error', message: result.error || 'Could not delete preset' })
+      return
+    }
+
+    setSavedQualityPresets(presets)
+    setQualityFocusIndex((prev) => Math.min(prev, presets.length + QUALITY_PRESETS.length - 1))
+    setStatus({ type: 'success', message: `Deleted quality preset "${name}"` })
+  }
+
+  // Replace the formats, quality, resize and encoder settings with a preset's
+  const applyPreset = (preset: ConversionPreset) => {
+    setSelectedFormats(new Set(preset.formats))
+    setQuality(preset.quality)
+    setTargetSize('')
+    setResizeWidth(preset.resizeWidth?.toString() ?? '')
+    setResizeHeight(preset.resizeHeight?.toString() ?? '')
+    setEncoderOptions(mergeEncoderOptions(props.encoderOptions, preset.encoder))
+    setAppliedPreset(preset.name)
+    setStatus({ type: 'success', message: `Applied preset "${preset.name}" (${describePreset(preset)})` })
+  }
+
+  // The applied preset while the settings still match it
+  const activePreset = createMemo(() => {
+    const preset = conversionPresets().find((p) => p.name === appliedPreset())
+    if (!preset) return null
+    const matches =
+      [...preset.formats].sort().join() === [...encoderFormats()].sort().join() &&
+      preset.quality === quality() &&
+      !targetSize().trim() &&
+      (preset.resizeWidth?.toString() ?? '') === resizeWidth() &&
+      (preset.resizeHeight?.toString() ?? '') === resizeHeight() &&
+      JSON.stringify(mergeEncoderOptions(props.encoderOptions, preset.encoder)) === JSON.stringify(encoderOptions())
+    return matches ? preset.name : null
+  })
+
+  // Save the current settings as a named preset in the user config
+  const saveConversionPreset = async () => {
+    const name = conversionPresetName().trim()
+    const projectNames = conversionPresets().filter((p) => p.source === 'project').map((p) => p.name)
+    const error = validatePresetName(name, projectNames)
+    if (error) {
+      setStatus({ type: 'error', message: error })
+      return
+    }
+
+    const formats = encoderFormats()
+    if (formats.length === 0) {
+      setStatus({ type: 'error', message: 'Select at least one output format' })
+      return
+    }
+
+    const preset: ConversionPreset = {
+      name,
+      formats,
+      quality: quality(),
+      resizeWidth: resizeWidth() ? parseInt(resizeWidth(), 10) : null,
+      resizeHeight: resizeHeight() ? parseInt(resizeHeight(), 10) : null,
+      encoder: encoderOptions(),
+      source: 'user',
+    }
+    const result = await saveUserPreset(preset)
+    if (!result.success) {
+      setStatus({ type: 'error', message: result.error || 'Could not save preset' })
+      return
+    }
+
+    const presets = upsertConversionPreset(conversionPresets(), preset)
+    setConversionPresets(presets)
+    setConversionPresetName('')
+    setAppliedPreset(name)
+    setPresetFocusIndex(presets.findIndex((p) => p.name === name))
+    setStatus({ type: 'success', message: `Saved preset "${name}" (${describePreset(preset)})` })
+  }
+
+  // Delete a preset from the user config
+  const deleteConversionPreset = async (name: string) => {
+    const result = await deleteUserPreset(name)
+    if (!result.success) {
+      setStatus({ type: 'error', message: result.error || 'Could not delete preset' })
+      return
+    }
+
+    const presets = conversionPresets().filter((p) => p.name !== name)
+    setConversionPresets(presets)
+    if (appliedPreset() === name) setAppliedPreset(null)
+    setPresetFocusIndex((prev) => Math.min(prev, Math.max(0, presets.length - 1)))
+    setStatus({ type: 'success', message: `Deleted preset "${name}"` })
+  }
+
+  // SSIM threshold when the Auto preset is selected (a max size takes precedence)
+  const minSsim = () => (quality() === 'auto' && !targetSize().trim() ? props.minSsim : null)
+
+  // Selected formats in display order, one encoder settings row each
+  const encoderFormats = createMemo(() =>
+    OUTPUT_FORMATS.map((f) => f.format).filter((format) => selectedFormats().has(format))
+  )
+
+  // Keep the focused encoder row valid when formats are deselected
+  createEffect(() => {
+    const rowCount = encoderFormats().length
+    if (encoderFocusRow() >= rowCount) {
+      setEncoderFocusRow(Math.max(0, rowCount - 1))
+      setEncoderFocusField(0)
+    }
+  })
+
+  // Step the focused encoder setting to its next or previous value
+  const stepEncoderSetting = (direction: 1 | -1) => {
+    const format = encoderFormats()[encoderFocusRow()]
+    const field = format ? ENCODER_FIELDS[format][encoderFocusField()] : undefined
+    if (field) {
+      setEncoderOptions((prev) => stepEncoderField(prev, field, direction))
+    }
+  }
+
   // Toggle format selection
   const toggleFormat = (format: OutputFormat) => {
     const current = selectedFormats()
@@ -126,23 +627,287 @@ function App() {
     setSelectedFormats(newSet)
   }
 
-  // Handle conversion
-  const handleConvert = async () => {
+  // Toggle the mark on the currently selected file
+  const toggleMark = () => {
     const image = selectedImage()
-    if (!image || processing()) return
+    if (!image) return
+
+    const newSet = new Set(markedPaths())
+    if (newSet.has(image.path)) {
+      newSet.delete(image.path)
+    } else {
+      newSet.add(image.path)
+    }
+    setMarkedPaths(newSet)
+  }
+
+  // Mark every file, or clear the marks when everything is already marked
+  const toggleMarkAll = () => {
+    const allPaths = files().map((f) => f.path)
+    const allMarked = allPaths.length > 0 && allPaths.every((p) => markedPaths().has(p))
+    setMarkedPaths(allMarked ? new Set<string>() : new Set(allPaths))
+  }
+
+  const invertMarks = () => {
+    const current = markedPaths()
+    setMarkedPaths(new Set(files().map((f) => f.path).filter((p) => !current.has(p))))
+  }
+
+  // Files the next conversion applies to: marked files, or the selected one
+  const conversionTargets = (): ImageFile[] => {
+    const marked = markedPaths()
+    if (marked.size > 0) {
+      return files().filter((f) => marked.has(f.path))
+    }
+    const image = selectedImage()
+    return image ? [image] : []
+  }
+
+  // Store dimensions loaded in the background (matched by path, the list may have changed)
+  const updateImageInfo = (path: string, info: ImageInfo) => {
+    setFiles((prev) => {
+      const fileIndex = prev.findIndex(f => f.path === path)
+      if (fileIndex === -1) return prev
+      const updated = [...prev]
+      updated[fileIndex] = { ...updated[fileIndex]!, width: info.width, height: info.height, colorSpace: info.colorSpace }
+      return updated
+    })
+  }
+
+  // Scan for images (fast - no dimensions yet), replacing the current list
+  const scanFiles = async () => {
+    try {
+      const startTime = performance.now()
+      const imageFiles = await scanDirectory(process.cwd(), scanOptions())
+      const scanTime = performance.now() - startTime
+      setFiles(imageFiles)
+      setSelectedIndex((prev) => Math.min(prev, Math.max(0, imageFiles.length - 1)))
+      setLoading(false)
+
+      if (imageFiles.length === 0) {
+        setStatus({
+          type: 'warning',
+          message: scanOptions().recursive
+            ? 'No images found in current directory tree'
+            : 'No images found in current directory',
+        })
+      } else {
+        const timeStr = scanTime < 1000 
+          ? `${Math.round(scanTime)} ms` 
+          : `${(scanTime / 1000).toFixed(2)} s`
+        setStatus({
+          type: 'idle',
+          message: `Found ${imageFiles.length} image${imageFiles.length !== 1 ? 's' : ''} in ${timeStr}`,
+        })
+
+        // Load dimensions in background (after UI renders)
+        setTimeout(() => {
+          loadDimensionsAsync(imageFiles, (index, info) => {
+            const file = imageFiles[index]
+            if (file) updateImageInfo(file.path, info)
+          })
+        }, 0)
+      }
+    } catch (error) {
+      setScanError(
+        error instanceof Error ? error.message : 'Failed to scan directory'
+      )
+      setLoading(false)
+    }
+  }
+
+  // Switch between flat and recursive scanning
+  const toggleRecursive = () => {
+    setScanOptions((prev) => ({ ...prev, recursive: !prev.recursive }))
+    setMarkedPaths(new Set<string>())
+    scanFiles()
+
+    // The watcher follows the new scan options
+    if (watching()) {
+      stopWatching()
+      startWatching()
+    }
+  }
 
+  // Merge a rescan into the list, keeping dimensions of unchanged files
+  const mergeScannedFiles = (scannedFiles: ImageFile[]) => {
+    const currentFiles = new Map(files().map((f) => [f.path, f]))
+
+    // New files, and files rewritten since they were listed
+    const changed: ImageFile[] = []
+    const mergedFiles = scannedFiles.map((f) => {
+      const existing = currentFiles.get(f.path)
+      if (existing && existing.size === f.size) return existing
+      changed.push(f)
+      return f
+    })
+    setFiles(mergedFiles)
+    setSelectedIndex((prev) => Math.min(prev, Math.max(0, mergedFiles.length - 1)))
+
+    // Only load dimensions for changed files
+    if (changed.length > 0) {
+      loadDimensionsAsync(changed, (index, info) => {
+        const changedFile = changed[index]
+        if (changedFile) updateImageInfo(changedFile.path, info)
+      })
+    }
+  }
+
+  // Rescan the directory after a conversion, keeping already-loaded dimensions
+  const refreshFiles = async () => {
+    mergeScannedFiles(await scanDirectory(process.cwd(), scanOptions()))
+  }
+
+  // Outputs a conversion wrote or kept
+  const resultPaths = (result: BatchItemResult) => [...(result.outputPaths ?? []), ...(result.skippedPaths ?? [])]
+
+  // Processing options for the current settings, or why they can't be used
+  const currentProcessOptions = (): { options: Omit<ProcessOptions, 'inputPath'> } | { error: string } => {
     // Validate at least one format is selected
     if (selectedFormats().size === 0) {
-      setStatus({ type: 'error', message: 'Please select at least one output format' })
+      return { error: 'Please select at least one output format' }
+    }
+
+    const invalidTemplate = templateError()
+    if (invalidTemplate) {
+      return { error: invalidTemplate }
+    }
+
+    if (targetSize().trim() && targetBytes() === null) {
+      return { error: `Invalid max size "${targetSize().trim()}": expected e.g. 150KB or 1.5MB` }
+    }
+
+    return {
+      options: {
+        outputFormats: Array.from(selectedFormats()),
+        quality: fixedQuality(),
+        targetSize: targetBytes(),
+        minSsim: minSsim(),
+        resizeWidth: resizeWidth() ? parseInt(resizeWidth(), 10) : null,
+        resizeHeight: resizeHeight() ? parseInt(resizeHeight(), 10) : null,
+        encoder: encoderOptions(),
+        metadata: metadataPolicy(),
+        color: colorOptions(),
+        output: outputOptions(),
+      },
+    }
+  }
+
+  // Add a line to the activity panel, dropping the oldest past the limit
+  const logActivity = (type: StatusType, message: string) => {
+    setActivity((prev) => [...prev, { time: new Date(), type, message }].slice(-ACTIVITY_LOG_LIMIT))
+    // A scrolled-back view stays on the same entries
+    setActivityScroll((prev) => (prev > 0 ? Math.min(prev + 1, ACTIVITY_LOG_LIMIT - ACTIVITY_WINDOW) : 0))
+  }
+
+  // Log one watch mode conversion
+  const logConversion = (result: BatchItemResult) => {
+    const name = relative(process.cwd(), result.inputPath)
+    if (result.upToDate) {
+      logActivity('idle', `${name} is up to date`)
+    } else if (result.skipped) {
+      const existingNames = result.skippedPaths?.map((p) => relative(process.cwd(), p)).join(', ')
+      logActivity('warning', `${name}: skipped, ${existingNames} already exists`)
+    } else if (result.success) {
+      const outputNames = result.outputPaths?.map((p) => relative(process.cwd(), p)).join(', ')
+      const duration = ((result.durationMs ?? 0) / 1000).toFixed(1)
+      logActivity(result.error ? 'warning' : 'success', `${name} -> ${outputNames} (${duration}s)`)
+    } else {
+      logActivity('error', `${name}: ${result.error?.split('\n')[0] || 'Conversion failed'}`)
+    }
+  }
+
+  // Watch mode: the directory watcher and a controller to cancel its conversions
+  let watcher: FolderWatcher | null = null
+  let watchController: AbortController | null = null
+
+  // Watch mode and manual conversions run one batch at a time, so cache and
+  // manifest updates don't race
+  let batchQueue: Promise<unknown> = Promise.resolve()
+  const queueBatch = <T,>(run: () => Promise<T>): Promise<T> => {
+    const next = batchQueue.then(run)
+    batchQueue = next.catch(() => {})
+    return next
+  }
+
+  // Convert new or modified images with the current settings; returns the
+  // paths written so the watcher doesn't pick them up as changes
+  const convertChanges = async (changed: ImageFile[], signal: AbortSignal): Promise<string[]> => {
+    const current = currentProcessOptions()
+    if ('error' in current) {
+      logActivity('error', `Not converting ${changed.map((f) => f.relativePath).join(', ')}: ${current.error}`)
+      return []
+    }
+
+    const batch = await queueBatch(() =>
+      processBatch(
+        changed.map((f) => f.path),
+        current.options,
+        (progress) => {
+          if (progress.result && !signal.aborted) logConversion(progress.result)
+        },
+        signal
+      )
+    )
+
+    const recordError = batch.cacheError ?? batch.manifestError
+    if (recordError) logActivity('warning', recordError)
+    if (batch.succeeded > 0) await refreshFiles()
+    return batch.results.flatMap(resultPaths)
+  }
+
+  const startWatching = () => {
+    const controller = new AbortController()
+    watchController = controller
+    watcher = watchFolder(process.cwd(), {
+      scan: scanOptions(),
+      onScan: mergeScannedFiles,
+      onChange: (changed) => convertChanges(changed, controller.signal),
+      onError: (error) => logActivity('error', error),
+    })
+  }
+
+  const stopWatching = () => {
+    watcher?.close()
+    watcher = null
+    watchController?.abort()
+    watchController = null
+  }
+  onCleanup(stopWatching)
+
+  // Turn watch mode on or off
+  const toggleWatch = () => {
+    if (watching()) {
+      stopWatching()
+      setWatching(false)
+      logActivity('idle', 'Stopped watching')
+    } else {
+      startWatching()
+      setWatching(true)
+      setActivityScroll(0)
+      logActivity('idle', `Watching ${scanOptions().recursive ? 'the directory tree' : 'the directory'} for new and modified images`)
+    }
+  }
+
+  // Controller for the running conversion, used to cancel it
+  let conversionController: AbortController | null = null
+
+  // Handle conversion
+  const handleConvert = async () => {
+    const targets = conversionTargets()
+    const image = targets[0]
+    if (!image || processing()) return
+
+    const current = currentProcessOptions()
+    if ('error' in current) {
+      setStatus({ type: 'error', message: current.error })
       return
     }
 
-    // Parse resize values
-    const width = resizeWidth() ? parseInt(resizeWidth(), 10) : null
-    const height = resizeHeight() ? parseInt(resizeHeight(), 10) : null
+    const { resizeWidth: width, resizeHeight: height } = current.options
 
-    // Validate resize (no upscaling)
-    if (width !== null || height !== null) {
+    // Validate resize (no upscaling); batch runs report this per file instead
+    if (targets.length === 1 && (width !== null || height !== null)) {
       const validation = await validateResize(image.path, width, height)
       if (!validation.valid) {
         setStatus({ type: 'error', message: validation.error || 'Invalid resize' })
@@ -150,84 +915,192 @@ function App() {
       }
     }
 
+    const controller = new AbortController()
+    conversionController = controller
+
     setProcessing(true)
     setStatus({ type: 'processing', message: `Converting ${image.name}...` })
 
     const startTime = performance.now()
 
     try {
-      const result = await processImage(
-        {
-          inputPath: image.path,
-          outputFormats: Array.from(selectedFormats()),
-          quality: quality(),
-          resizeWidth: width,
-          resizeHeight: height,
-        },
-        (msg) => setStatus({ type: 'processing', message: msg })
+      const batch = await queueBatch(() =>
+        processBatch(
+          targets.map((f) => f.path),
+          current.options,
+          (progress) => {
+            // Outputs aren't changes for watch mode to convert
+            if (progress.result) watcher?.ignore(resultPaths(progress.result))
+            if (controller.signal.aborted) return
+            const prefix = progress.total > 1 ? `[${progress.completed}/${progress.total}] ` : ''
+            setStatus({ type: 'processing', message: `${prefix}${progress.message}` })
+          },
+          controller.signal
+        )
       )
 
-      if (result.success) {
-        const duration = ((performance.now() - startTime) / 1000).toFixed(1)
-        const outputNames = result.outputPaths?.map((p) => p.split('/').pop()).join(', ')
-        setStatus({
-          type: 'success',
-          message: `Created: ${outputNames} (${duration}s)`,
-        })
+      const duration = ((performance.now() - startTime) / 1000).toFixed(1)
+      const failures = batch.results.filter((r) => !r.success && !r.cancelled)
+      setLastResults(batch.results.filter((r) => r.success))
 
-        // Refresh file list to show new files
-        const currentFiles = files()
-        const currentPaths = new Set(currentFiles.map(f => f.path))
-        const scannedFiles = await scanDirectory(process.cwd())
-        
-        // Find only the newly created files
-        const newlyCreated = scannedFiles.filter(f => !currentPaths.has(f.path))
-        
-        // Merge: keep existing files (with dimensions), add new ones
-        const mergedFiles = scannedFiles.map(f => {
-          const existing = currentFiles.find(ef => ef.path === f.path)
-          return existing || f
+      if (controller.signal.aborted) {
+        setStatus({
+          type: 'warning',
+          message: batch.succeeded > 0
+            ? `Cancelled (${batch.succeeded} of ${targets.length} images converted)`
+            : 'Cancelled',
         })
-        setFiles(mergedFiles)
-        
-        // Only load dimensions for newly created files
-        if (newlyCreated.length > 0) {
-          loadDimensionsAsync(newlyCreated, (index, dimensions) => {
-            const newFile = newlyCreated[index]
-            if (!newFile) return
-            setFiles((prev) => {
-              const fileIndex = prev.findIndex(f => f.path === newFile.path)
-              if (fileIndex === -1) return prev
-              const updated = [...prev]
-              updated[fileIndex] = { ...updated[fileIndex]!, width: dimensions.width, height: dimensions.height }
-              return updated
-            })
+      } else if (targets.length === 1) {
+        const result = batch.results[0]
+        if (result?.upToDate) {
+          setStatus({ type: 'success', message: `${image.name} is up to date` })
+        } else if (result?.skipped) {
+          const existingNames = result.skippedPaths?.map((p) => p.split('/').pop()).join(', ')
+          setStatus({
+            type: 'warning',
+            message: `Skipped: ${existingNames} already exists`,
+          })
+        } else if (result?.success) {
+          const outputNames = result.outputPaths?.map((p) => p.split('/').pop()).join(', ')
+          const qualities = Object.entries(result.qualities ?? {})
+            .map(([format, q]) => `${format.toUpperCase()} q${q}`)
+            .join(', ')
+          setStatus({
+            type: 'success',
+            message: `Created: ${outputNames} (${duration}s${qualities ? `, ${qualities}` : ''})`,
+          })
+        } else {
+          setStatus({
+            type: 'error',
+            message: result?.error || 'Conversion failed',
           })
         }
       } else {
         setStatus({
-          type: 'error',
-          message: result.error || 'Conversion failed',
+          type: failures.length === 0 ? 'success' : batch.succeeded === 0 ? 'error' : 'warning',
+          message: `Converted ${batch.succeeded} of ${targets.length} images, ${batch.upToDate > 0 ? `${batch.upToDate} up to date, ` : ''}${batch.skipped > 0 ? `${batch.skipped} skipped, ` : ''}${failures.length} failed (${duration}s)`,
+          details: failures.map((r) => `${r.inputPath.split('/').pop()}: ${r.error?.split('\n')[0] || 'Conversion failed'}`),
         })
       }
+
+      const recordError = batch.cacheError ?? batch.manifestError
+      if (recordError) {
+        setStatus({ type: 'warning', message: recordError })
+      }
+
+      // Refresh file list to show new files
+      if (batch.succeeded > 0) {
+        await refreshFiles()
+      }
     } catch (error) {
       setStatus({
         type: 'error',
         message: error instanceof Error ? error.message : 'Unknown error',
       })
     } finally {
+      conversionController = null
       setProcessing(false)
     }
   }
 
+  // Copy <picture> markup for the last conversion's outputs to the clipboard (OSC 52)
+  const copyPictureMarkup = async () => {
+    const snippets: string[] = []
+    for (const result of lastResults()) {
+      const markup = await createPictureMarkup(resultPaths(result), { baseDir: process.cwd() })
+      if (markup) snippets.push(markup)
+    }
+
+    if (snippets.length === 0) {
+      setStatus({ type: 'warning', message: 'Convert an image first to copy its <picture> markup' })
+      return
+    }
+
+    writeToTerminal(clipboardSequence(snippets.join('\n\n') + '\n'))
+    setStatus({
+      type: 'success',
+      message: `Copied <picture> markup for ${snippets.length} image${snippets.length !== 1 ? 's' : ''} to the clipboard`,
+    })
+  }
+
+  // Abort the running conversion; the pool kills its workers and removes partial outputs
+  const cancelConversion = () => {
+    if (!conversionController || conversionController.signal.aborted) return
+    conversionController.abort()
+    setStatus({ type: 'processing', message: 'Cancelling...' })
+  }
+
+  // Open the comparison screen for the selected image and first selected format
+  const openComparison = () => {
+    const format = encoderFormats()[0]
+    if (!selectedImage()) return
+    if (!format) {
+      setStatus({ type: 'warning', message: 'Select an output format to compare' })
+      return
+    }
+
+    setComparisonFormat(format)
+    setComparisonZoom('fit')
+    setComparisonCenter({ x: 0.5, y: 0.5 })
+    setComparisonImages(null)
+    setComparing(true)
+  }
+
+  // Keys on the comparison screen
+  const handleComparisonKey = (key: { name: string }) => {
+    if (key.name === 'escape' || key.name === 'q') {
+      setComparing(false)
+    } else if (key.name === 'tab') {
+      setComparisonLayout((prev) => (prev === 'side' ? 'swipe' : 'side'))
+    } else if (key.name === 'space') {
+      setComparisonShowEncoded((prev) => !prev)
+    } else if (key.name === 'z') {
+      setComparisonZoom((prev) => (prev === 'fit' ? 'actual' : 'fit'))
+    } else if (key.name === 'f') {
+      const formats = encoderFormats()
+      const next = formats[(formats.indexOf(comparisonFormat()) + 1) % formats.length]
+      if (next && next !== comparisonFormat()) {
+        setComparisonFormat(next)
+        setComparisonImages(null)
+      }
+    } else {
+      const images = comparisonImages()
+      const steps: Record<string, [number, number]> = {
+        left: [-1, 0], h: [-1, 0],
+        right: [1, 0], l: [1, 0],
+        up: [0, -1], k: [0, -1],
+        down: [0, 1], j: [0, 1],
+      }
+      const step = steps[key.name]
+      if (step && images?.region) {
+        setComparisonCenter((prev) => panCrop(prev, images.region!, images.outputSize, step[0], step[1]))
+      }
+    }
+  }
+
   // Keyboard handler
   useKeyboard(
     (key) => {
       // Global keys
-      if (key.name === 'escape' || (key.ctrl && key.name === 'c')) {
+      if (key.ctrl && key.name === 'c') {
         exitApp()
       }
 
+      // The comparison screen takes all keys while open
+      if (comparing()) {
+        handleComparisonKey(key)
+        return
+      }
+
+      // Esc cancels a running conversion, otherwise exits
+      if (key.name === 'escape') {
+        if (processing()) {
+          cancelConversion()
+        } else {
+          exitApp()
+        }
+      }
+
       // Don't handle keys while processing
       if (processing()) return
 
@@ -251,6 +1124,41 @@ function App() {
           if (current < files().length - 1) {
             setSelectedIndex(current + 1)
           }
+        } else if (key.name === 'space') {
+          toggleMark()
+        } else if (key.name === 'a') {
+          toggleMarkAll()
+        } else if (key.name === 'i') {
+          invertMarks()
+        } else if (key.name === 'r') {
+          toggleRecursive()
+        } else if (key.name === 'w') {
+          toggleWatch()
+        } else if (key.name === 'v') {
+          openComparison()
+        } else if (key.name === 'd') {
+          setShowDetails((prev) => !prev)
+        }
+      }
+
+      if (section === 'presets') {
+        const presets = conversionPresets()
+        // h/l are typed into the preset name input when it has focus
+        const inNameInput = presetFocusIndex() === presets.length
+        if (key.name === 'left' || (key.name === 'h' && !inNameInput)) {
+          setPresetFocusIndex((prev) => Math.max(0, prev - 1))
+        } else if (key.name === 'right' || (key.name === 'l' && !inNameInput)) {
+          setPresetFocusIndex((prev) => Math.min(presets.length, prev + 1))
+        } else if (key.name === 'return') {
+          const preset = presets[presetFocusIndex()]
+          if (inNameInput) {
+            saveConversionPreset()
+          } else if (preset) {
+            applyPreset(preset)
+          }
+        } else if (key.name === 'd' && !inNameInput) {
+          const preset = presets[presetFocusIndex()]
+          if (preset?.source === 'user') deleteConversionPreset(preset.name)
         }
       }
 
@@ -266,13 +1174,65 @@ function App() {
       }
 
       if (section === 'quality') {
-        if (key.name === 'left' || key.name === 'h') {
-          setQualityFocusIndex((prev) => Math.max(0, prev - 1))
+        const presets = qualityPresets()
+        const targetIndex = presets.length
+        const sliderIndex = presets.length + 1
+        const nameIndex = presets.length + 2
+        const focus = qualityFocusIndex()
+
+        if (focus === sliderIndex) {
+          // Left/Right move the slider; digits are typed into its value input
+          if (key.name === 'left' || key.name === 'right') {
+            const step = (key.shift ? QUALITY_LARGE_STEP : QUALITY_STEP) * (key.name === 'left' ? -1 : 1)
+            setQuality(clampQuality(fixedQuality() + step))
+          } else if (key.name === 'up') {
+            setQualityFocusIndex(Math.max(0, presets.findIndex((p) => p.value === quality())))
+          } else if (key.name === 'down') {
+            setQualityFocusIndex(nameIndex)
+          }
+        } else if (focus === nameIndex) {
+          if (key.name === 'up') {
+            setQualityFocusIndex(sliderIndex)
+          } else if (key.name === 'return') {
+            saveQualityPreset()
+          }
+        } else {
+          // h/l are typed into the max size input when it has focus
+          const inTargetInput = focus === targetIndex
+          if (key.name === 'left' || (key.name === 'h' && !inTargetInput)) {
+            setQualityFocusIndex((prev) => Math.max(0, prev - 1))
+          } else if (key.name === 'right' || (key.name === 'l' && !inTargetInput)) {
+            setQualityFocusIndex((prev) => Math.min(targetIndex, prev + 1))
+          } else if (key.name === 'down') {
+            setQualityFocusIndex(sliderIndex)
+          } else if (key.name === 'return' && !inTargetInput) {
+            const preset = presets[focus]
+            if (preset) setQuality(preset.value)
+          } else if (key.name === 'd' && !inTargetInput) {
+            const preset = presets[focus]
+            if (preset?.saved) deleteQualityPreset(preset.name)
+          }
+        }
+      }
+
+      if (section === 'encoder') {
+        const rows = encoderFormats()
+        if (key.name === 'up' || key.name === 'k') {
+          setEncoderFocusRow((prev) => Math.max(0, prev - 1))
+          setEncoderFocusField(0)
+        } else if (key.name === 'down' || key.name === 'j') {
+          setEncoderFocusRow((prev) => Math.min(rows.length - 1, prev + 1))
+          setEncoderFocusField(0)
+        } else if (key.name === 'left' || key.name === 'h') {
+          setEncoderFocusField((prev) => Math.max(0, prev - 1))
         } else if (key.name === 'right' || key.name === 'l') {
-          setQualityFocusIndex((prev) => Math.min(QUALITY_PRESETS.length - 1, prev + 1))
-        } else if (key.name === 'return') {
-          const preset = QUALITY_PRESETS[qualityFocusIndex()]
-          if (preset) setQuality(preset.value)
+          const format = rows[encoderFocusRow()]
+          const fieldCount = format ? ENCODER_FIELDS[format].length : 0
+          setEncoderFocusField((prev) => Math.min(fieldCount - 1, prev + 1))
+        } else if (key.name === 'space' || key.sequence === '+') {
+          stepEncoderSetting(1)
+        } else if (key.sequence === '-') {
+          stepEncoderSetting(-1)
         }
       }
 
@@ -283,17 +1243,88 @@ function App() {
         }
       }
 
+      if (section === 'output') {
+        const fields: OutputField[] = ['dir', 'template', 'mirror', 'overwrite', 'metadata', 'color', 'embed']
+        const current = fields.indexOf(outputFocusField())
+        if (key.name === 'left') {
+          setOutputFocusField(fields[(current - 1 + fields.length) % fields.length]!)
+        } else if (key.name === 'right') {
+          setOutputFocusField(fields[(current + 1) % fields.length]!)
+        } else if (key.name === 'space' && outputFocusField() === 'mirror') {
+          setMirrorTree((prev) => !prev)
+        } else if (key.name === 'space' && outputFocusField() === 'overwrite') {
+          const policies = OVERWRITE_POLICIES.map((p) => p.policy)
+          setOverwritePolicy((prev) => policies[(policies.indexOf(prev) + 1) % policies.length]!)
+        } else if (key.name === 'space' && outputFocusField() === 'metadata') {
+          const policies = METADATA_POLICIES.map((p) => p.policy)
+          setMetadataPolicy((prev) => policies[(policies.indexOf(prev) + 1) % policies.length]!)
+        } else if (key.name === 'space' && outputFocusField() === 'color') {
+          const modes = COLOR_MODES.map((m) => m.mode)
+          setColorOptions((prev) => ({ ...prev, mode: modes[(modes.indexOf(prev.mode) + 1) % modes.length]! }))
+        } else if (key.name === 'space' && outputFocusField() === 'embed' && colorOptions().mode !== 'keep') {
+          setColorOptions((prev) => ({ ...prev, embedProfile: !prev.embedProfile }))
+        }
+      }
+
       if (section === 'convert') {
         if (key.name === 'return') {
           handleConvert()
+        } else if (key.name === 'v') {
+          openComparison()
+        } else if (key.name === 'p') {
+          copyPictureMarkup()
+        }
+      }
+
+      if (section === 'activity') {
+        const maxScroll = Math.max(0, activity().length - ACTIVITY_WINDOW)
+        if (key.name === 'up' || key.name === 'k') {
+          setActivityScroll((prev) => Math.min(maxScroll, prev + 1))
+        } else if (key.name === 'down' || key.name === 'j') {
+          setActivityScroll((prev) => Math.max(0, prev - 1))
+        } else if (key.name === 'c') {
+          setActivity([])
+          setActivityScroll(0)
+          if (!watching()) setFocusedSection('files')
         }
       }
     },
     {}
   )
 
+  // Observe the conversion queue for progress
+  const unsubscribePool = getConversionPool().subscribe(setPoolStats)
+  onCleanup(unsubscribePool)
+
+  // Describe queue progress while converting
+  const processingLabel = () => {
+    const stats = poolStats()
+    if (!stats || stats.total === 0) return 'Processing...'
+    const done = stats.completed + stats.failed
+    return `Processing... ${done}/${stats.total} encodes (${stats.running}/${stats.size} workers busy)`
+  }
+
   // Initialize app
   onMount(async () => {
+    // Load saved presets from the user and project config
+    const { config, errors } = await loadConfig()
+    setSavedQualityPresets(config.qualityPresets)
+    setConversionPresets(config.presets)
+    if (errors.length > 0) {
+      setStatus({ type: 'warning', message: 'Could not read config', details: errors })
+    }
+
+    // Start with the preset given by --preset
+    if (props.preset) {
+      const found = findPreset(config.presets, props.preset)
+      if ('error' in found) {
+        setStatus({ type: 'error', message: found.error })
+      } else {
+        applyPreset(found.preset)
+        setPresetFocusIndex(config.presets.indexOf(found.preset))
+      }
+    }
+
     // Check for ImageMagick
     const hasMagick = await checkImageMagick()
     if (!hasMagick) {
@@ -310,55 +1341,157 @@ function App() {
       return
     }
 
-    // Scan for images (fast - no dimensions yet)
-    try {
-      const startTime = performance.now()
-      const imageFiles = await scanDirectory(process.cwd())
-      const scanTime = performance.now() - startTime
-      setFiles(imageFiles)
-      setLoading(false)
+    await scanFiles()
+  })
 
-      if (imageFiles.length === 0) {
-        setStatus({
-          type: 'warning',
-          message: 'No images found in current directory',
-        })
-      } else {
-        const timeStr = scanTime < 1000 
-          ? `${Math.round(scanTime)} ms` 
-          : `${(scanTime / 1000).toFixed(2)} s`
-        setStatus({
-          type: 'idle',
-          message: `Found ${imageFiles.length} image${imageFiles.length !== 1 ? 's' : ''} in ${timeStr}`,
-        })
+  // Update quality focus index when quality changes, unless the slider is in use
+  createEffect(() => {
+    const q = quality()
+    const presets = qualityPresets()
+    const idx = presets.findIndex((p) => p.value === q)
+    if (idx >= 0 && untrack(qualityFocusIndex) <= presets.length) setQualityFocusIndex(idx)
+  })
 
-        // Load dimensions in background (after UI renders)
-        setTimeout(() => {
-          loadDimensionsAsync(imageFiles, (index, dimensions) => {
-            setFiles((prev) => {
-              const updated = [...prev]
-              const file = updated[index]
-              if (file) {
-                updated[index] = { ...file, width: dimensions.width, height: dimensions.height }
-              }
-              return updated
-            })
-          })
-        }, 0)
-      }
-    } catch (error) {
-      setScanError(
-        error instanceof Error ? error.message : 'Failed to scan directory'
-      )
-      setLoading(false)
+  // Track current preview request ID for cancellation
+  let currentPreviewId: number | null = null
+
+  // Generate a preview thumbnail when the selected image changes
+  createEffect(() => {
+    const image = selectedImage()
+    const protocol = previewProtocol()
+
+    if (currentPreviewId !== null) {
+      cancelPreview(currentPreviewId)
+      currentPreviewId = null
+    }
+
+    setPreviewImage(null)
+    setPreviewError(null)
+    if (!image || !protocol) {
+      setPreviewLoading(false)
+      return
     }
+
+    setPreviewLoading(true)
+    const timeoutId = setTimeout(() => {
+      const cellSize = getCellSize(renderer.resolution, renderer.terminalWidth, renderer.terminalHeight)
+      const { promise, id } = generatePreviewAsync(image.path, protocol, PREVIEW_COLUMNS, PREVIEW_ROWS, cellSize)
+      currentPreviewId = id
+
+      promise.then((result) => {
+        if (currentPreviewId !== id) return
+        currentPreviewId = null
+        setPreviewLoading(false)
+        if (result.success && result.image) {
+          setPreviewImage(result.image)
+        } else {
+          setPreviewError(result.error ?? 'No preview available')
+        }
+      })
+    }, PREVIEW_DEBOUNCE_MS)
+
+    onCleanup(() => clearTimeout(timeoutId))
   })
 
-  // Update quality focus index when quality changes
+  // Read the selected image's details once it stays selected
   createEffect(() => {
-    const q = quality()
-    const idx = QUALITY_PRESETS.findIndex((p) => p.value === q)
-    if (idx >= 0) setQualityFocusIndex(idx)
+    const image = selectedImage()
+
+    setDetailsError(null)
+    if (!image || !showDetails()) {
+      setImageDetails(null)
+      setDetailsLoading(false)
+      return
+    }
+
+    const key = `${image.path}:${image.size}`
+    const cached = detailsCache.get(key)
+    if (cached) {
+      setImageDetails(cached)
+      setDetailsLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setImageDetails(null)
+    setDetailsLoading(true)
+    const timeoutId = setTimeout(async () => {
+      const details = await getImageDetails(image.path)
+      if (cancelled) return
+      setDetailsLoading(false)
+      if (details) {
+        detailsCache.set(key, details)
+        setImageDetails(details)
+      } else {
+        setDetailsError('Could not read image details')
+      }
+    }, PREVIEW_DEBOUNCE_MS)
+
+    onCleanup(() => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    })
+  })
+
+  // Track current comparison request ID for cancellation
+  let currentComparisonId: number | null = null
+
+  // Render the comparison whenever its image, settings, layout or crop change
+  createEffect(() => {
+    const image = selectedImage()
+    if (!comparing() || !image) return
+
+    const protocol = comparisonProtocol()
+    const { columns, rows } = comparisonViewSize()
+    const settings = {
+      format: comparisonFormat(),
+      quality: fixedQuality(),
+      targetSize: targetBytes(),
+      minSsim: minSsim(),
+      resizeWidth: resizeWidth() ? parseInt(resizeWidth(), 10) : null,
+      resizeHeight: resizeHeight() ? parseInt(resizeHeight(), 10) : null,
+      encoder: encoderOptions(),
+      metadata: metadataPolicy(),
+      color: colorOptions(),
+    }
+    const zoom = comparisonZoom()
+    const center = comparisonCenter()
+
+    setComparisonLoading(true)
+    setComparisonError(null)
+    const timeoutId = setTimeout(() => {
+      const cellSize = getCellSize(renderer.resolution, renderer.terminalWidth, renderer.terminalHeight)
+      const { promise, id } = generateComparisonAsync(
+        image.path,
+        settings,
+        protocol,
+        columns,
+        rows,
+        cellSize,
+        zoom,
+        center
+      )
+      currentComparisonId = id
+
+      promise.then((result) => {
+        if (currentComparisonId !== id) return
+        currentComparisonId = null
+        setComparisonLoading(false)
+        if (result.success && result.images) {
+          setComparisonImages(result.images)
+        } else {
+          setComparisonError(result.error ?? 'Could not render comparison')
+        }
+      })
+    }, PREVIEW_DEBOUNCE_MS)
+
+    onCleanup(() => {
+      clearTimeout(timeoutId)
+      if (currentComparisonId !== null) {
+        cancelPreview(currentComparisonId)
+        currentComparisonId = null
+      }
+    })
   })
 
   // Track current estimation request ID for cancellation
@@ -368,7 +1501,11 @@ function App() {
   createEffect(() => {
     const image = selectedImage()
     const formats = Array.from(selectedFormats())
-    const q = quality()
+    const q = fixedQuality()
+    const searched = targetBytes() !== null || minSsim() !== null
+    const encoder = encoderOptions()
+    const metadata = metadataPolicy()
+    const color = colorOptions()
     const width = resizeWidth() ? parseInt(resizeWidth(), 10) : null
     const height = resizeHeight() ? parseInt(resizeHeight(), 10) : null
 
@@ -378,8 +1515,8 @@ function App() {
       currentEstimationId = null
     }
 
-    // Clear estimates if no image selected, no formats, or while processing
-    if (!image || formats.length === 0 || processing()) {
+    // Clear estimates if no image selected, no formats, when quality is searched for, or while processing
+    if (!image || formats.length === 0 || searched || processing()) {
       if (!processing()) {
         setSizeEstimates(null)
         setEstimating(false)
@@ -397,7 +1534,11 @@ function App() {
         formats,
         q,
         width,
-        height
+        height,
+        encoder,
+        metadata,
+        color,
+        true
       )
       currentEstimationId = id
 
@@ -435,95 +1576,192 @@ function App() {
 
       {/* Main content */}
       <box flexDirection="column" gap={1} flexGrow={1}>
-        {/* File list */}
-        <FileList
-          files={files()}
-          selectedIndex={selectedIndex()}
-          onSelect={setSelectedIndex}
-          focused={focusedSection() === 'files'}
-          loading={loading()}
-          error={scanError()}
-        />
-
-        {/* Options row */}
-        <box flexDirection="row" gap={1}>
-          {/* Format selector */}
-          <box flexGrow={1}>
-            <FormatSelector
-              selectedFormats={selectedFormats()}
-              onToggle={toggleFormat}
-              focused={focusedSection() === 'formats'}
-              focusedIndex={formatFocusIndex()}
-              onFocusedIndexChange={setFormatFocusIndex}
+        <Show
+          when={!comparing()}
+          fallback={
+            <ComparisonView
+              images={comparisonImages()}
+              loading={comparisonLoading()}
+              error={comparisonError()}
+              format={comparisonFormat()}
+              quality={fixedQuality()}
+              searchesQuality={targetBytes() !== null || minSsim() !== null}
+              originalSize={selectedImage()?.size || 0}
+              layout={comparisonLayout()}
+              showEncoded={comparisonShowEncoded()}
+              zoom={comparisonZoom()}
+              columns={comparisonViewSize().columns}
+              rows={comparisonViewSize().rows}
             />
+          }
+        >
+          <box flexDirection="column" gap={1}>
+          {/* File list and preview */}
+          <box flexDirection="row" gap={1}>
+            <box flexGrow={1}>
+              <FileList
+                files={files()}
+                selectedIndex={selectedIndex()}
+                markedPaths={markedPaths()}
+                recursive={scanOptions().recursive ?? false}
+                watching={watching()}
+                onSelect={setSelectedIndex}
+                focused={focusedSection() === 'files'}
+                loading={loading()}
+                error={scanError()}
+              />
+            </box>
+            <Show when={showDetails()}>
+              <DetailsPanel details={imageDetails()} loading={detailsLoading()} error={detailsError()} />
+            </Show>
+            <Show when={previewProtocol()}>
+              <ImagePreview
+                image={previewImage()}
+                loading={previewLoading()}
+                error={previewError()}
+              />
+            </Show>
           </box>
 
-          {/* Quality selector */}
-          <box flexGrow={2}>
-            <QualitySelector
-              selectedQuality={quality()}
-              onSelect={setQuality}
-              focused={focusedSection() === 'quality'}
-              focusedIndex={qualityFocusIndex()}
-              onFocusedIndexChange={setQualityFocusIndex}
-            />
+          {/* Named conversion presets */}
+          <PresetSelector
+            presets={conversionPresets()}
+            appliedName={activePreset()}
+            presetName={conversionPresetName()}
+            onPresetNameChange={setConversionPresetName}
+            focused={focusedSection() === 'presets'}
+            focusedIndex={presetFocusIndex()}
+          />
+
+          {/* Options row */}
+          <box flexDirection="row" gap={1}>
+            {/* Format selector */}
+            <box flexGrow={1}>
+              <FormatSelector
+                selectedFormats={selectedFormats()}
+                onToggle={toggleFormat}
+                focused={focusedSection() === 'formats'}
+                focusedIndex={formatFocusIndex()}
+                onFocusedIndexChange={setFormatFocusIndex}
+              />
+            </box>
+
+            {/* Quality selector */}
+            <box flexGrow={2}>
+              <QualitySelector
+                presets={qualityPresets()}
+                selectedQuality={quality()}
+                onSelect={setQuality}
+                customQuality={fixedQuality()}
+                minSsim={props.minSsim}
+                targetSize={targetSize()}
+                onTargetSizeChange={setTargetSize}
+                presetName={qualityPresetName()}
+                onPresetNameChange={setQualityPresetName}
+                focused={focusedSection() === 'quality'}
+                focusedIndex={qualityFocusIndex()}
+                onFocusedIndexChange={setQualityFocusIndex}
+              />
+            </box>
           </box>
-        </box>
 
-        {/* Resize input */}
-        <ResizeInput
-          width={resizeWidth()}
-          height={resizeHeight()}
-          onWidthChange={setResizeWidth}
-          onHeightChange={setResizeHeight}
-          originalWidth={selectedImage()?.width || 0}
-          originalHeight={selectedImage()?.height || 0}
-          focused={focusedSection() === 'resize'}
-          focusedField={resizeFocusField()}
-          onFocusedFieldChange={setResizeFocusField}
-        />
-
-        {/* Size estimate */}
-        <Show when={selectedImage()}>
-          <SizeEstimate
-            estimates={sizeEstimates()}
-            loading={estimating()}
-            originalSize={selectedImage()?.size || 0}
+          {/* Per-format encoder settings */}
+          <EncoderSettings
+            formats={encoderFormats()}
+            encoder={encoderOptions()}
+            focused={focusedSection() === 'encoder'}
+            focusedRow={encoderFocusRow()}
+            focusedField={encoderFocusField()}
           />
-        </Show>
 
-        {/* Convert button */}
-        <box
-          border
-          borderStyle="rounded"
-          borderColor={focusedSection() === 'convert' ? COLORS.focused : COLORS.border}
-          padding={1}
-          justifyContent="center"
-          style={{
-            backgroundColor:
-              focusedSection() === 'convert' && !processing()
-                ? COLORS.primary
-                : 'transparent',
-          }}
-        >
-          <Show
-            when={!processing()}
-            fallback={
-              <text fg={COLORS.warning} attributes={TextAttributes.BOLD}>
-                Processing...
-              </text>
-            }
+          {/* Resize input */}
+          <ResizeInput
+            width={resizeWidth()}
+            height={resizeHeight()}
+            onWidthChange={setResizeWidth}
+            onHeightChange={setResizeHeight}
+            originalWidth={selectedImage()?.width || 0}
+            originalHeight={selectedImage()?.height || 0}
+            focused={focusedSection() === 'resize'}
+            focusedField={resizeFocusField()}
+            onFocusedFieldChange={setResizeFocusField}
+          />
+
+          {/* Output directory and filename template */}
+          <OutputSettings
+            outputDir={outputDir()}
+            template={filenameTemplate()}
+            mirrorTree={mirrorTree()}
+            overwrite={overwritePolicy()}
+            metadata={metadataPolicy()}
+            color={colorOptions()}
+            onOutputDirChange={setOutputDir}
+            onTemplateChange={setFilenameTemplate}
+            focused={focusedSection() === 'output'}
+            focusedField={outputFocusField()}
+            preview={outputPreview()}
+            error={templateError()}
+          />
+
+          {/* Size estimate */}
+          <Show when={selectedImage()}>
+            <SizeEstimate
+              estimates={sizeEstimates()}
+              loading={estimating()}
+              originalSize={selectedImage()?.size || 0}
+              targetSize={targetBytes()}
+              minSsim={minSsim()}
+            />
+          </Show>
+
+          {/* Convert button */}
+          <box
+            border
+            borderStyle="rounded"
+            borderColor={focusedSection() === 'convert' ? COLORS.focused : COLORS.border}
+            padding={1}
+            justifyContent="center"
+            style={{
+              backgroundColor:
+                focusedSection() === 'convert' && !processing()
+                  ? COLORS.primary
+                  : 'transparent',
+            }}
           >
-            <text
-              fg={focusedSection() === 'convert' ? COLORS.text : COLORS.muted}
-              attributes={focusedSection() === 'convert' ? TextAttributes.BOLD : 0}
+            <Show
+              when={!processing()}
+              fallback={
+                <text fg={COLORS.warning} attributes={TextAttributes.BOLD}>
+                  {processingLabel()}
+                </text>
+              }
             >
-              {focusedSection() === 'convert'
-                ? '[ Press Enter to Convert ]'
-                : '[ Convert Image ]'}
-            </text>
+              <text
+                fg={focusedSection() === 'convert' ? COLORS.text : COLORS.muted}
+                attributes={focusedSection() === 'convert' ? TextAttributes.BOLD : 0}
+              >
+                {focusedSection() === 'convert'
+                  ? lastResults().length > 0
+                    ? '[ Press Enter to Convert | p: Copy <picture> ]'
+                    : '[ Press Enter to Convert ]'
+                  : markedPaths().size > 1
+                    ? `[ Convert ${markedPaths().size} Images ]`
+                    : '[ Convert Image ]'}
+              </text>
+            </Show>
+          </box>
+
+          {/* Watch mode activity */}
+          <Show when={showActivity()}>
+            <ActivityLog
+              entries={activity()}
+              watching={watching()}
+              scrollOffset={activityScroll()}
+              focused={focusedSection() === 'activity'}
+            />
           </Show>
-        </box>
+          </box>
+        </Show>
 
         {/* Status display */}
         <box style={{ marginTop: 1 }}>
@@ -534,16 +1772,33 @@ function App() {
       {/* Footer */}
       <box justifyContent="center" style={{ marginTop: 1 }}>
         <text fg={COLORS.muted}>
-          Tab: Navigate | Esc: Exit
+          {processing()
+            ? 'Esc: Cancel conversion'
+            : comparing()
+              ? 'Esc: Back'
+              : 'Tab: Navigate | v: Compare | Esc: Exit'}
         </text>
       </box>
     </box>
   )
 }
 
-render(() => <App />, {
+render(() => (
+  <App
+    scanOptions={tuiArgs.command.scan}
+    outputOptions={tuiArgs.command.output}
+    encoderOptions={tuiArgs.command.encoder}
+    metadata={tuiArgs.command.metadata}
+    color={tuiArgs.command.color}
+    minSsim={tuiArgs.command.minSsim}
+    preview={tuiArgs.command.preview}
+    preset={tuiArgs.command.preset}
+  />
+), {
   exitOnCtrlC: true,
   onDestroy: () => {
+    // Stop in-flight conversions so no orphaned `magick` processes keep writing
+    getConversionPool().shutdown()
     process.exit(0)
   },
 })
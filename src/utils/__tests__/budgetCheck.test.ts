@@ -0,0 +1,108 @@
+/**
+ * Tests for budgetCheck module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  describeSuggestion,
+  describeViolation,
+  findViolations,
+  fitWithinBudget,
+  formatJUnitReport,
+  formatJsonReport,
+  type BudgetCheckResult,
+} from '../budgetCheck'
+import type { ImageBudget } from '../types'
+
+const BUDGET: ImageBudget = { maxSize: 300 * 1024, maxWidth: 2000, maxHeight: null }
+
+const RESULTS: BudgetCheckResult[] = [
+  {
+    path: '/site/img/hero & co.jpg',
+    size: 600 * 1024,
+    width: 4000,
+    height: 3000,
+    violations: [
+      { limit: 'size', actual: 600 * 1024, max: 300 * 1024 },
+      { limit: 'width', actual: 4000, max: 2000 },
+    ],
+    suggestion: {
+      format: 'avif',
+      quality: 80,
+      resizeWidth: 2000,
+      estimatedSize: 150 * 1024,
+      savedBytes: 450 * 1024,
+      withinBudget: true,
+    },
+  },
+  { path: '/site/img/icon.png', size: 2048, width: 64, height: 64, violations: [], suggestion: null },
+  {
+    path: '/site/img/broken.jpg',
+    size: 10,
+    width: null,
+    height: null,
+    violations: [],
+    suggestion: null,
+    error: 'Could not read image dimensions',
+  },
+]
+
+describe('budgetCheck', () => {
+  describe('findViolations', () => {
+    test('lists each exceeded limit', () => {
+      expect(findViolations({ size: 400 * 1024, width: 2500, height: 5000 }, BUDGET)).toEqual([
+        { limit: 'size', actual: 400 * 1024, max: 300 * 1024 },
+        { limit: 'width', actual: 2500, max: 2000 },
+      ])
+    })
+
+    test('passes images at the limit and skips unknown dimensions', () => {
+      expect(findViolations({ size: 300 * 1024, width: 2000, height: 100 }, BUDGET)).toEqual([])
+      expect(findViolations({ size: 1, width: null, height: null }, BUDGET)).toEqual([])
+    })
+  })
+
+  describe('fitWithinBudget', () => {
+    test('returns the width that fits both limits', () => {
+      expect(fitWithinBudget({ width: 4000, height: 3000 }, { maxSize: null, maxWidth: 2000, maxHeight: 1200 })).toBe(1600)
+      expect(fitWithinBudget({ width: 1000, height: 800 }, BUDGET)).toBeNull()
+    })
+  })
+
+  describe('descriptions', () => {
+    test('describes violations and suggestions', () => {
+      expect(describeViolation({ limit: 'size', actual: 600 * 1024, max: 300 * 1024 })).toBe(
+        '600.0 KB, over the 300.0 KB budget'
+      )
+      expect(describeViolation({ limit: 'height', actual: 3000, max: 2000 })).toBe('3000px high, over the 2000px budget')
+      expect(describeSuggestion(RESULTS[0]!.suggestion!, RESULTS[0]!.size)).toBe(
+        'AVIF q80 at 2000px wide: ~150.0 KB, saves 450.0 KB (75%)'
+      )
+    })
+  })
+
+  describe('formatJsonReport', () => {
+    test('summarizes results with relative paths', () => {
+      const report = JSON.parse(formatJsonReport(RESULTS, BUDGET, '/site'))
+      expect(report.summary).toEqual({ checked: 3, passed: 1, failed: 2 })
+      expect(report.budget).toEqual(BUDGET)
+      expect(report.images.map((i: { path: string }) => i.path)).toEqual([
+        'img/hero & co.jpg',
+        'img/icon.png',
+        'img/broken.jpg',
+      ])
+    })
+  })
+
+  describe('formatJUnitReport', () => {
+    test('reports violations as failures and unreadable images as errors', () => {
+      const xml = formatJUnitReport(RESULTS, BUDGET, '/site')
+      expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n')
+      expect(xml).toContain('<testsuites name="magick-tui check" tests="3" failures="1" errors="1">')
+      expect(xml).toContain('<testcase classname="magick-tui.budget" name="img/hero &amp; co.jpg">')
+      expect(xml).toContain('Suggestion: AVIF q80 at 2000px wide')
+      expect(xml).toContain('<testcase classname="magick-tui.budget" name="img/icon.png"/>')
+      expect(xml).toContain('<error message="Could not read image dimensions"/>')
+    })
+  })
+})
@@ -0,0 +1,535 @@
+/**
+ * Tests for cliArgs module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  findPreset,
+  mergeEncoderOptions,
+  parseCheckArgs,
+  parseConvertArgs,
+  parseEncoderConfig,
+  parseFormats,
+  parsePositiveInt,
+  parseTuiArgs,
+  parseWidths,
+} from '../cliArgs'
+import { DEFAULT_MIN_SSIM, DEFAULT_QUALITY } from '../../constants'
+import type { ConversionPreset } from '../types'
+
+const HERO: ConversionPreset = {
+  name: 'blog-hero',
+  formats: ['webp', 'avif'],
+  quality: 80,
+  resizeWidth: 1600,
+  resizeHeight: null,
+  encoder: { avif: { speed: 4 } },
+  source: 'user',
+}
+
+describe('cliArgs', () => {
+  describe('parseFormats', () => {
+    test('parses a comma-separated list', () => {
+      expect(parseFormats('webp,avif')).toEqual({ formats: ['webp', 'avif'] })
+    })
+
+    test('accepts jpeg as an alias for jpg', () => {
+      expect(parseFormats('jpeg,png')).toEqual({ formats: ['jpg', 'png'] })
+    })
+
+    test('is case-insensitive and drops duplicates', () => {
+      expect(parseFormats('WEBP, webp ,Jxl')).toEqual({ formats: ['webp', 'jxl'] })
+    })
+
+    test('rejects unknown formats', () => {
+      const result = parseFormats('webp,bmp')
+      expect('error' in result && result.error).toContain('bmp')
+    })
+
+    test('rejects an empty list', () => {
+      expect('error' in parseFormats(',')).toBe(true)
+    })
+  })
+
+  describe('parseWidths', () => {
+    test('sorts and deduplicates widths', () => {
+      expect(parseWidths('1200, 480,768,480')).toEqual({ widths: [480, 768, 1200] })
+    })
+
+    test('rejects invalid or missing widths', () => {
+      expect('error' in parseWidths('480,wide')).toBe(true)
+      expect('error' in parseWidths('0')).toBe(true)
+      expect('error' in parseWidths(' , ')).toBe(true)
+    })
+  })
+
+  describe('parsePositiveInt', () => {
+    test('returns null when absent', () => {
+      expect(parsePositiveInt(undefined, 'width')).toEqual({ value: null })
+    })
+
+    test('parses positive integers', () => {
+      expect(parsePositiveInt('1200', 'width')).toEqual({ value: 1200 })
+    })
+
+    test('rejects zero, negatives and non-numbers', () => {
+      expect('error' in parsePositiveInt('0', 'width')).toBe(true)
+      expect('error' in parsePositiveInt('-5', 'width')).toBe(true)
+      expect('error' in parsePositiveInt('12.5', 'width')).toBe(true)
+      expect('error' in parsePositiveInt('abc', 'width')).toBe(true)
+    })
+  })
+
+  describe('parseEncoderConfig', () => {
+    test('accepts the EncoderOptions shape', () => {
+      expect(parseEncoderConfig({ webp: { lossless: true, method: 6 }, jpg: { progressive: false } })).toEqual({
+        encoder: { webp: { lossless: true, method: 6 }, jpg: { progressive: false } },
+      })
+      expect(parseEncoderConfig(undefined)).toEqual({ encoder: {} })
+    })
+
+    test('rejects unknown formats, settings and out-of-range values', () => {
+      expect('error' in parseEncoderConfig({ gif: {} })).toBe(true)
+      expect('error' in parseEncoderConfig({ webp: { effort: 3 } })).toBe(true)
+      expect('error' in parseEncoderConfig({ webp: { method: 9 } })).toBe(true)
+      expect('error' in parseEncoderConfig({ webp: { lossless: 'yes' } })).toBe(true)
+    })
+  })
+
+  describe('mergeEncoderOptions', () => {
+    test('merges per format with the overrides winning', () => {
+      expect(
+        mergeEncoderOptions({ avif: { speed: 4, chromaSubsampling: '4:4:4' } }, { avif: { speed: 2 }, webp: { method: 6 } })
+      ).toEqual({ avif: { speed: 2, chromaSubsampling: '4:4:4' }, webp: { method: 6 } })
+    })
+  })
+
+  describe('findPreset', () => {
+    test('matches names case-insensitively', () => {
+      expect(findPreset([HERO], 'Blog-Hero')).toEqual({ preset: HERO })
+    })
+
+    test('lists the available presets when the name is unknown', () => {
+      const result = findPreset([HERO], 'thumb')
+      expect('error' in result && result.error).toContain('blog-hero')
+    })
+  })
+
+  describe('parseConvertArgs', () => {
+    test('uses defaults when only inputs are given', () => {
+      const result = parseConvertArgs(['a.png', 'b.jpg'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.inputs).toEqual(['a.png', 'b.jpg'])
+      expect(result.command.options).toEqual({
+        outputFormats: ['webp'],
+        quality: DEFAULT_QUALITY,
+        targetSize: null,
+        minSsim: null,
+        resizeWidth: null,
+        resizeHeight: null,
+        widths: null,
+        encoder: {},
+        metadata: 'strip',
+        color: { mode: 'srgb', embedProfile: false },
+        output: {},
+      })
+    })
+
+    test('parses formats, quality and resize', () => {
+      const result = parseConvertArgs([
+        'photo.png',
+        '--format',
+        'webp,avif',
+        '--quality',
+        '70',
+        '--width',
+        '1200',
+        '-H',
+        '800',
+      ])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options).toEqual({
+        outputFormats: ['webp', 'avif'],
+        quality: 70,
+        targetSize: null,
+        minSsim: null,
+        resizeWidth: 1200,
+        resizeHeight: 800,
+        widths: null,
+        encoder: {},
+        metadata: 'strip',
+        color: { mode: 'srgb', embedProfile: false },
+        output: {},
+      })
+    })
+
+    test('accepts short flags', () => {
+      const result = parseConvertArgs(['-f', 'jxl', '-q', '90', '-W', '640', 'x.png'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options.outputFormats).toEqual(['jxl'])
+      expect(result.command.options.quality).toBe(90)
+      expect(result.command.options.resizeWidth).toBe(640)
+    })
+
+    test('parses a target size', () => {
+      const parse = (size: string) => {
+        const result = parseConvertArgs(['a.png', '--target-size', size])
+        return result.success ? result.command.options.targetSize : undefined
+      }
+
+      expect(parse('150KB')).toBe(150 * 1024)
+      expect(parse('1.5mb')).toBe(Math.round(1.5 * 1024 * 1024))
+      expect(parse('2048')).toBe(2048)
+      expect(parse('150 k')).toBe(150 * 1024)
+    })
+
+    test('rejects invalid target sizes', () => {
+      expect(parseConvertArgs(['a.png', '-s', 'small']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-s', '0KB']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-s', '10GB']).success).toBe(false)
+    })
+
+    test('parses auto quality with an optional SSIM threshold', () => {
+      const parse = (...args: string[]) => {
+        const result = parseConvertArgs(['a.png', ...args])
+        return result.success ? result.command.options : undefined
+      }
+
+      expect(parse('-q', 'auto')).toMatchObject({ quality: DEFAULT_QUALITY, minSsim: DEFAULT_MIN_SSIM })
+      expect(parse('--quality', 'AUTO', '--min-ssim', '0.95')?.minSsim).toBe(0.95)
+      expect(parse('-q', '70')?.minSsim).toBeNull()
+    })
+
+    test('rejects invalid auto quality combinations', () => {
+      expect(parseConvertArgs(['a.png', '--min-ssim', '0.95']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-q', 'auto', '--min-ssim', '1.5']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-q', 'auto', '-s', '100KB']).success).toBe(false)
+    })
+
+    test('requires at least one input', () => {
+      const result = parseConvertArgs(['--format', 'webp'])
+      expect(result.success).toBe(false)
+    })
+
+    test('rejects out-of-range quality', () => {
+      expect(parseConvertArgs(['a.png', '-q', '0']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-q', '101']).success).toBe(false)
+    })
+
+    test('rejects unknown options', () => {
+      const result = parseConvertArgs(['a.png', '--bogus'])
+      expect(result.success).toBe(false)
+    })
+
+    test('parses JPEG and PNG encoder flags', () => {
+      const result = parseConvertArgs([
+        'a.png',
+        '-f',
+        'jpg,png',
+        '--jpeg-baseline',
+        '--jpeg-sampling',
+        '4:4:4',
+        '--png-level',
+        '6',
+        '--png-colors',
+        '64',
+      ])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options.encoder).toEqual({
+        jpg: { progressive: false, chromaSubsampling: '4:4:4' },
+        png: { compressionLevel: 6, paletteColors: 64 },
+      })
+    })
+
+    test('parses WebP, AVIF and JPEG XL encoder flags', () => {
+      const result = parseConvertArgs([
+        'a.png',
+        '--webp-lossless',
+        '--webp-method',
+        '6',
+        '--avif-speed',
+        '2',
+        '--avif-sampling',
+        '4:4:4',
+        '--jxl-distance',
+        '1.5',
+      ])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options.encoder).toEqual({
+        webp: { lossless: true, method: 6 },
+        avif: { speed: 2, chromaSubsampling: '4:4:4' },
+        jxl: { distance: 1.5 },
+      })
+    })
+
+    test('rejects invalid encoder flags', () => {
+      expect(parseConvertArgs(['a.png', '--webp-method', '7']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--jxl-effort', '0']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--jpeg-sampling', '4:1:1']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--png-level', '10']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--png-colors', '1']).success).toBe(false)
+    })
+
+    test('parses scan flags for directory inputs', () => {
+      const result = parseConvertArgs(['images', '-r', '--exclude', 'drafts/**', '--exclude', '*.gif'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.scan.recursive).toBe(true)
+      expect(result.command.scan.exclude).toEqual(['drafts/**', '*.gif'])
+    })
+
+    test('parses output flags', () => {
+      const result = parseConvertArgs(['a.png', '-o', 'dist', '--mirror', '-t', '{format}/{name}.{hash8}.{format}'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options.output).toEqual({
+        outputDir: 'dist',
+        mirrorTree: true,
+        filenameTemplate: '{format}/{name}.{hash8}.{format}',
+      })
+    })
+
+    test('parses the overwrite policy', () => {
+      const result = parseConvertArgs(['a.png', '--overwrite', 'newer'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options.output).toEqual({ overwrite: 'newer' })
+      expect(parseConvertArgs(['a.png', '--overwrite', 'always']).success).toBe(false)
+    })
+
+    test('parses the metadata policy', () => {
+      const result = parseConvertArgs(['a.png', '--metadata', 'copyright'])
+      expect(result.success && result.command.options.metadata).toBe('copyright')
+      expect(parseConvertArgs(['a.png', '--metadata', 'exif']).success).toBe(false)
+    })
+
+    test('parses color management flags', () => {
+      const result = parseConvertArgs(['a.png', '--color', 'wide', '--embed-profile'])
+      expect(result.success && result.command.options.color).toEqual({ mode: 'wide', embedProfile: true })
+      expect(parseConvertArgs(['a.png', '--color', 'p3']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--color', 'keep', '--embed-profile']).success).toBe(false)
+    })
+
+    test('parses responsive image widths', () => {
+      const result = parseConvertArgs(['a.png', '--widths', '1200,480', '-t', '{name}_{width}.{format}'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options).toMatchObject({ widths: [480, 1200], resizeWidth: null, resizeHeight: null })
+    })
+
+    test('rejects --widths with a fixed size or a template without {width}', () => {
+      expect(parseConvertArgs(['a.png', '--widths', '480', '-W', '800']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--widths', '480', '-t', '{name}.{format}']).success).toBe(false)
+    })
+
+    test('takes a manifest path as an output option', () => {
+      const result = parseConvertArgs(['a.png', '--manifest', 'dist/manifest.json'])
+      expect(result.success && result.command.options.output).toEqual({ manifestPath: 'dist/manifest.json' })
+    })
+
+    test('takes a file for <picture> markup', () => {
+      const result = parseConvertArgs(['a.png', '--picture', 'snippets.html'])
+      expect(result.success && result.command.picture).toBe('snippets.html')
+    })
+
+    test('parses --watch, which cannot write <picture> markup', () => {
+      const result = parseConvertArgs(['photos', '--watch'])
+      expect(result.success && result.command.watch).toBe(true)
+      expect(parseConvertArgs(['photos', '--watch', '--picture', '-']).success).toBe(false)
+    })
+
+    test('--widths replaces the preset size', () => {
+      const result = parseConvertArgs(['a.png', '-p', 'blog-hero', '--widths', '640'], [HERO])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options).toMatchObject({ widths: [640], resizeWidth: null })
+    })
+
+    test('takes defaults from --preset', () => {
+      const result = parseConvertArgs(['a.png', '--preset', 'blog-hero'], [HERO])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options).toMatchObject({
+        outputFormats: ['webp', 'avif'],
+        quality: 80,
+        resizeWidth: 1600,
+        resizeHeight: null,
+        encoder: { avif: { speed: 4 } },
+      })
+    })
+
+    test('lets explicit flags override the preset', () => {
+      const result = parseConvertArgs(['a.png', '-p', 'blog-hero', '-f', 'jxl', '-q', '60', '-W', '800', '--avif-speed', '2'], [HERO])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options).toMatchObject({
+        outputFormats: ['jxl'],
+        quality: 60,
+        resizeWidth: 800,
+        encoder: { avif: { speed: 2 } },
+      })
+    })
+
+    test('a target size replaces a preset with auto quality', () => {
+      const auto = { ...HERO, name: 'auto', quality: 'auto' as const }
+      const result = parseConvertArgs(['a.png', '-p', 'auto', '-s', '100KB'], [auto])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.options).toMatchObject({ quality: DEFAULT_QUALITY, minSsim: null, targetSize: 100 * 1024 })
+    })
+
+    test('rejects unknown presets', () => {
+      expect(parseConvertArgs(['a.png', '--preset', 'nope'], [HERO]).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--preset', 'nope']).success).toBe(false)
+    })
+
+    test('rejects invalid templates and --mirror without --out-dir', () => {
+      expect(parseConvertArgs(['a.png', '-t', '{name}.{colour}']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-f', 'webp,avif', '-t', '{name}.webp']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '-f', 'avif', '-t', '{name}.webp']).success).toBe(false)
+      expect(parseConvertArgs(['a.png', '--mirror']).success).toBe(false)
+    })
+  })
+
+  describe('parseTuiArgs', () => {
+    test('accepts encoder flags', () => {
+      const result = parseTuiArgs(['--avif-speed', '4'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.encoder).toEqual({ avif: { speed: 4 } })
+    })
+
+    test('parses the metadata policy', () => {
+      const parse = (args: string[]) => {
+        const result = parseTuiArgs(args)
+        return result.success ? result.command.metadata : undefined
+      }
+
+      expect(parse([])).toBe('strip')
+      expect(parse(['--metadata', 'icc'])).toBe('icc')
+      expect(parseTuiArgs(['--metadata', 'none']).success).toBe(false)
+    })
+
+    test('parses the color mode', () => {
+      const result = parseTuiArgs(['--color', 'wide', '--embed-profile'])
+      expect(result.success && result.command.color).toEqual({ mode: 'wide', embedProfile: true })
+      expect(parseTuiArgs(['--color', 'cmyk']).success).toBe(false)
+    })
+
+    test('accepts an SSIM threshold for the Auto preset', () => {
+      const parse = (args: string[]) => {
+        const result = parseTuiArgs(args)
+        return result.success ? result.command.minSsim : undefined
+      }
+
+      expect(parse([])).toBe(DEFAULT_MIN_SSIM)
+      expect(parse(['--min-ssim', '0.99'])).toBe(0.99)
+      expect(parseTuiArgs(['--min-ssim', '0.2']).success).toBe(false)
+    })
+
+    test('parses the preview mode', () => {
+      const parse = (args: string[]) => {
+        const result = parseTuiArgs(args)
+        return result.success ? result.command.preview : undefined
+      }
+
+      expect(parse([])).toBe('auto')
+      expect(parse(['--preview', 'blocks'])).toBe('blocks')
+      expect(parseTuiArgs(['--preview', 'iterm']).success).toBe(false)
+    })
+
+    test('keeps the preset name for the app to resolve', () => {
+      const parse = (args: string[]) => {
+        const result = parseTuiArgs(args)
+        return result.success ? result.command.preset : undefined
+      }
+
+      expect(parse([])).toBeNull()
+      expect(parse(['-p', 'thumbnail'])).toBe('thumbnail')
+    })
+
+    test('defaults to a flat scan that respects .gitignore', () => {
+      const result = parseTuiArgs([])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.scan).toEqual({
+        recursive: false,
+        maxDepth: undefined,
+        include: undefined,
+        exclude: undefined,
+        respectGitignore: true,
+      })
+    })
+
+    test('--max-depth implies recursive', () => {
+      const result = parseTuiArgs(['--max-depth', '2', '--include', '**/*.jpg', '--no-gitignore'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command.scan).toEqual({
+        recursive: true,
+        maxDepth: 2,
+        include: ['**/*.jpg'],
+        exclude: undefined,
+        respectGitignore: false,
+      })
+    })
+
+    test('rejects invalid depth and unknown flags', () => {
+      expect(parseTuiArgs(['--max-depth', '0']).success).toBe(false)
+      expect(parseTuiArgs(['--bogus']).success).toBe(false)
+    })
+  })
+
+  describe('parseCheckArgs', () => {
+    test('parses budgets and defaults to the current directory', () => {
+      const result = parseCheckArgs(['--max-size', '300KB', '--max-width', '2560', '--junit', 'budget.xml'])
+      expect(result.success).toBe(true)
+      if (!result.success) return
+
+      expect(result.command).toMatchObject({
+        inputs: ['.'],
+        budget: { maxSize: 300 * 1024, maxWidth: 2560, maxHeight: null },
+        formats: ['webp'],
+        quality: DEFAULT_QUALITY,
+        suggest: true,
+        json: null,
+        junit: 'budget.xml',
+      })
+    })
+
+    test('flags override the config budget', () => {
+      const result = parseCheckArgs(['img', '--max-width', '1200'], { maxSize: 1024, maxWidth: 2000, maxHeight: 900 })
+      expect(result.success && result.command.budget).toEqual({ maxSize: 1024, maxWidth: 1200, maxHeight: 900 })
+    })
+
+    test('requires a budget', () => {
+      expect(parseCheckArgs(['img']).success).toBe(false)
+      expect(parseCheckArgs(['--max-size', 'huge']).success).toBe(false)
+    })
+
+    test('allows only one report on stdout', () => {
+      expect(parseCheckArgs(['--max-size', '1MB', '--json', '-', '--junit', '-']).success).toBe(false)
+    })
+  })
+})
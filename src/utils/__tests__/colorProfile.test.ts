@@ -0,0 +1,82 @@
+/**
+ * Tests for colorProfile module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  colorSpaceLabel,
+  colorTarget,
+  embedsProfile,
+  getIccProfile,
+  isWideGamut,
+  readIccDescription,
+} from '../colorProfile'
+import type { ColorOptions } from '../types'
+
+const SRGB: ColorOptions = { mode: 'srgb', embedProfile: false }
+const WIDE: ColorOptions = { mode: 'wide', embedProfile: false }
+
+describe('colorProfile', () => {
+  describe('getIccProfile', () => {
+    test('builds a compact ICC profile', () => {
+      const profile = getIccProfile('srgb')
+      const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength)
+
+      expect(profile.length).toBeLessThan(1024)
+      expect(view.getUint32(0)).toBe(profile.length)
+      expect(new TextDecoder().decode(profile.subarray(36, 40))).toBe('acsp')
+    })
+
+    test('describes the color space', () => {
+      expect(readIccDescription(getIccProfile('srgb'))).toBe('sRGB')
+      expect(readIccDescription(getIccProfile('display-p3'))).toBe('Display P3')
+      expect(readIccDescription(new Uint8Array(16))).toBeNull()
+    })
+  })
+
+  describe('isWideGamut', () => {
+    test('compares the primaries with sRGB', () => {
+      expect(isWideGamut(getIccProfile('display-p3'))).toBe(true)
+      expect(isWideGamut(getIccProfile('srgb'))).toBe(false)
+    })
+  })
+
+  describe('colorSpaceLabel', () => {
+    test('names common profiles', () => {
+      expect(colorSpaceLabel('sRGB IEC61966-2.1', 'sRGB')).toBe('sRGB')
+      expect(colorSpaceLabel('Display P3', 'sRGB')).toBe('Display P3')
+      expect(colorSpaceLabel('Adobe RGB (1998)', 'sRGB')).toBe('Adobe RGB')
+      expect(colorSpaceLabel('ProPhoto RGB', 'sRGB')).toBe('ProPhoto RGB')
+    })
+
+    test('falls back to the colorspace without a profile', () => {
+      expect(colorSpaceLabel(null, 'CMYK')).toBe('CMYK')
+      expect(colorSpaceLabel(null, 'Gray')).toBe('Gray')
+      expect(colorSpaceLabel(null, 'sRGB')).toBe('sRGB')
+    })
+  })
+
+  describe('colorTarget', () => {
+    test('leaves colors untouched in keep mode', () => {
+      expect(colorTarget(undefined, 'webp', null)).toBeNull()
+      expect(colorTarget({ mode: 'keep', embedProfile: false }, 'webp', null)).toBeNull()
+    })
+
+    test('keeps wide-gamut sources in Display P3 for AVIF only', () => {
+      const p3 = getIccProfile('display-p3')
+      expect(colorTarget(WIDE, 'avif', p3)).toBe('display-p3')
+      expect(colorTarget(WIDE, 'avif', getIccProfile('srgb'))).toBe('srgb')
+      expect(colorTarget(WIDE, 'webp', p3)).toBe('srgb')
+      expect(colorTarget(SRGB, 'avif', p3)).toBe('srgb')
+    })
+  })
+
+  describe('embedsProfile', () => {
+    test('always embeds Display P3', () => {
+      expect(embedsProfile(WIDE, 'display-p3')).toBe(true)
+      expect(embedsProfile(SRGB, 'srgb')).toBe(false)
+      expect(embedsProfile({ ...SRGB, embedProfile: true }, 'srgb')).toBe(true)
+      expect(embedsProfile({ mode: 'keep', embedProfile: true }, null)).toBe(false)
+    })
+  })
+})
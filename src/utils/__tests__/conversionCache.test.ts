@@ -0,0 +1,126 @@
+/**
+ * Tests for conversionCache module
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { join } from 'node:path'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { ConversionCache, encodeSettings, parseCache, settingsKey, stableStringify } from '../conversionCache'
+import type { ProcessOptions } from '../types'
+
+const OPTIONS: Omit<ProcessOptions, 'inputPath'> = {
+  outputFormats: ['webp'],
+  quality: 80,
+  resizeWidth: null,
+  resizeHeight: null,
+}
+
+describe('conversionCache', () => {
+  describe('stableStringify', () => {
+    test('sorts object keys and drops undefined values', () => {
+      expect(stableStringify({ b: 1, a: { d: [2, 1], c: undefined } })).toBe('{"a":{"d":[2,1]},"b":1}')
+    })
+  })
+
+  describe('encodeSettings', () => {
+    test('changes with every setting that affects an output', () => {
+      const base = stableStringify(encodeSettings(OPTIONS))
+      expect(stableStringify(encodeSettings({ ...OPTIONS, targetSize: 150_000 }))).not.toBe(base)
+      expect(stableStringify(encodeSettings({ ...OPTIONS, encoder: { webp: { method: 6 } } }))).not.toBe(base)
+      expect(stableStringify(encodeSettings({ ...OPTIONS, metadata: 'icc' }))).not.toBe(base)
+      expect(stableStringify(encodeSettings({ ...OPTIONS, color: { mode: 'srgb', embedProfile: false } }))).not.toBe(base)
+    })
+
+    test('leaves out the formats and output location', () => {
+      const other = { ...OPTIONS, outputFormats: ['avif' as const], output: { outputDir: 'dist' } }
+      expect(encodeSettings(other)).toEqual(encodeSettings(OPTIONS))
+    })
+  })
+
+  describe('settingsKey', () => {
+    test('changes with settings that affect outputs', () => {
+      expect(settingsKey({ ...OPTIONS, quality: 70 })).not.toBe(settingsKey(OPTIONS))
+      expect(settingsKey({ ...OPTIONS, encoder: { webp: { method: 6 } } })).not.toBe(settingsKey(OPTIONS))
+      expect(settingsKey({ ...OPTIONS, metadata: 'icc' })).not.toBe(settingsKey(OPTIONS))
+      expect(settingsKey({ ...OPTIONS, color: { mode: 'srgb', embedProfile: false } })).not.toBe(settingsKey(OPTIONS))
+    })
+
+    test('ignores the overwrite policy and record files', () => {
+      expect(
+        settingsKey({ ...OPTIONS, output: { overwrite: 'skip', manifestPath: 'm.json', cachePath: 'c.json' } })
+      ).toBe(settingsKey(OPTIONS))
+    })
+  })
+
+  describe('parseCache', () => {
+    test('rejects other versions and shapes', () => {
+      expect(parseCache({ version: 1, entries: {} })).toEqual({ version: 1, entries: {} })
+      expect(parseCache({ version: 2, entries: {} })).toBeNull()
+      expect(parseCache({ version: 1, entries: [] })).toBeNull()
+    })
+  })
+
+  describe('ConversionCache', () => {
+    let root: string
+    let source: string
+    let output: string
+    let cachePath: string
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'magick-tui-cache-'))
+      source = join(root, 'photo.jpg')
+      output = join(root, 'photo.webp')
+      cachePath = join(root, '.cache', 'magick-tui.json')
+      writeFileSync(source, 'source')
+      writeFileSync(output, 'encoded')
+    })
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true })
+    })
+
+    // Convert once and save, as processBatch does
+    const prime = async () => {
+      const cache = await ConversionCache.load(cachePath)
+      expect(await cache.check(source, OPTIONS)).toBeNull()
+      await cache.record(source, { success: true, outputPaths: [output], outputQualities: { [output]: 80 } })
+      expect((await cache.save()).success).toBe(true)
+    }
+
+    test('reports unchanged sources as up to date', async () => {
+      await prime()
+      const cache = await ConversionCache.load(cachePath)
+      expect(await cache.check(source, OPTIONS)).toEqual({
+        success: true,
+        outputPaths: [output],
+        outputQualities: { [output]: 80 },
+        upToDate: true,
+      })
+
+      const saved = JSON.parse(readFileSync(cachePath, 'utf8'))
+      expect(saved.entries['../photo.jpg'].outputs[0].path).toBe('../photo.webp')
+    })
+
+    test('misses when the source, settings or outputs change', async () => {
+      await prime()
+      const cache = await ConversionCache.load(cachePath)
+      expect(await cache.check(source, { ...OPTIONS, quality: 60 })).toBeNull()
+
+      writeFileSync(output, 'edited')
+      expect(await cache.check(source, OPTIONS)).toBeNull()
+
+      writeFileSync(output, 'encoded')
+      writeFileSync(source, 'new source')
+      expect(await cache.check(source, OPTIONS)).toBeNull()
+    })
+
+    test('does not record partial results', async () => {
+      const cache = await ConversionCache.load(cachePath)
+      await cache.check(source, OPTIONS)
+      await cache.record(source, { success: true, outputPaths: [output], error: 'Some conversions failed' })
+      await cache.save()
+      expect(JSON.parse(readFileSync(cachePath, 'utf8')).entries).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Tests for conversionPool module
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test'
+import { join } from 'node:path'
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import {
+  ConversionPool,
+  getDefaultPoolSize,
+  type ConversionJobInput,
+  type PoolStats,
+} from '../conversionPool'
+
+// A job that fails fast without touching ImageMagick output
+function missingInputJob(name: string): ConversionJobInput {
+  return {
+    inputPath: `/nonexistent/${name}.png`,
+    outputPath: `/nonexistent/${name}.webp`,
+    format: 'webp',
+    quality: 80,
+    resizeWidth: null,
+    resizeHeight: null,
+    useFFI: false,
+  }
+}
+
+describe('conversionPool', () => {
+  let pool: ConversionPool | null = null
+  const originalWorkersEnv = Bun.env.MAGICK_WORKERS
+
+  afterEach(() => {
+    pool?.shutdown()
+    pool = null
+    Bun.env.MAGICK_WORKERS = originalWorkersEnv
+  })
+
+  describe('getDefaultPoolSize', () => {
+    test('uses at least one worker', () => {
+      delete Bun.env.MAGICK_WORKERS
+      expect(getDefaultPoolSize()).toBeGreaterThanOrEqual(1)
+    })
+
+    test('respects MAGICK_WORKERS override', () => {
+      Bun.env.MAGICK_WORKERS = '3'
+      expect(getDefaultPoolSize()).toBe(3)
+    })
+  })
+
+  describe('ConversionPool', () => {
+    test('resolves failed jobs with an error instead of rejecting', async () => {
+      pool = new ConversionPool(1)
+      const result = await pool.submit(missingInputJob('a'))
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBeDefined()
+    })
+
+    test('never runs more jobs than the pool size', async () => {
+      pool = new ConversionPool(2)
+      const snapshots: PoolStats[] = []
+      pool.subscribe((stats) => snapshots.push(stats))
+
+      await Promise.all(['a', 'b', 'c', 'd'].map((name) => pool!.submit(missingInputJob(name))))
+
+      expect(snapshots.every((s) => s.running <= 2)).toBe(true)
+      expect(snapshots.some((s) => s.queued > 0)).toBe(true)
+
+      const last = snapshots[snapshots.length - 1]
+      expect(last?.total).toBe(4)
+      expect(last?.failed).toBe(4)
+      expect(last?.running).toBe(0)
+      expect(pool.isIdle()).toBe(true)
+    })
+
+    test('resets counters when new work arrives on an idle pool', async () => {
+      pool = new ConversionPool(1)
+      await pool.submit(missingInputJob('a'))
+      await pool.submit(missingInputJob('b'))
+
+      expect(pool.getStats().total).toBe(1)
+      expect(pool.getStats().failed).toBe(1)
+    })
+
+    test('cancels queued jobs when their signal aborts', async () => {
+      pool = new ConversionPool(1)
+      const controller = new AbortController()
+
+      const first = pool.submit(missingInputJob('a'))
+      const second = pool.submit(missingInputJob('b'), controller.signal)
+      controller.abort()
+
+      const [firstResult, secondResult] = await Promise.all([first, second])
+      expect(firstResult.cancelled).toBeUndefined()
+      expect(secondResult.success).toBe(false)
+      expect(secondResult.cancelled).toBe(true)
+      expect(pool.getStats().cancelled).toBe(1)
+    })
+
+    test('returns a cancelled result for an already aborted signal', async () => {
+      pool = new ConversionPool(1)
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await pool.submit(missingInputJob('a'), controller.signal)
+      expect(result.cancelled).toBe(true)
+      expect(pool.isIdle()).toBe(true)
+    })
+
+    test('leaves an existing output alone when a job fails or is cancelled', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'magick-tui-pool-'))
+      try {
+        const outputPath = join(dir, 'photo.webp')
+        writeFileSync(outputPath, 'previous output')
+        pool = new ConversionPool(1)
+
+        const failed = await pool.submit({ ...missingInputJob('photo'), outputPath })
+        expect(failed.success).toBe(false)
+
+        const controller = new AbortController()
+        const unsubscribe = pool.subscribe((stats) => {
+          if (stats.running > 0) controller.abort()
+        })
+        const cancelled = await pool.submit({ ...missingInputJob('photo'), outputPath }, controller.signal)
+        unsubscribe()
+        expect(cancelled.success).toBe(false)
+
+        // Give the killed worker time to exit and its cleanup to run
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        expect(readFileSync(outputPath, 'utf8')).toBe('previous output')
+        expect(readdirSync(dir)).toEqual(['photo.webp'])
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test('unsubscribe stops notifications', async () => {
+      pool = new ConversionPool(1)
+      let calls = 0
+      const unsubscribe = pool.subscribe(() => calls++)
+      unsubscribe()
+
+      await pool.submit(missingInputJob('a'))
+      // Only the initial snapshot on subscribe
+      expect(calls).toBe(1)
+    })
+  })
+})
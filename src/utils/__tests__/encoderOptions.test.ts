@@ -0,0 +1,39 @@
+/**
+ * Tests for encoderOptions module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { ENCODER_FIELDS, describeEncoderField, stepEncoderField } from '../encoderOptions'
+import { OUTPUT_FORMATS } from '../../constants'
+
+describe('encoderOptions', () => {
+  test('every output format has settings', () => {
+    for (const { format } of OUTPUT_FORMATS) {
+      expect(ENCODER_FIELDS[format].length).toBeGreaterThan(0)
+    }
+  })
+
+  test('fields read the defaults when unset', () => {
+    const [lossless, method] = ENCODER_FIELDS.webp
+    expect(lossless!.get({})).toBe(false)
+    expect(method!.get({})).toBe(4)
+  })
+
+  test('stepping changes only the field it belongs to', () => {
+    const method = ENCODER_FIELDS.webp.find((f) => f.key === 'method')!
+    const encoder = stepEncoderField({ avif: { speed: 2 } }, method, 1)
+    expect(encoder).toEqual({ avif: { speed: 2 }, webp: { method: 5 } })
+  })
+
+  test('stepping wraps around in both directions', () => {
+    const method = ENCODER_FIELDS.webp.find((f) => f.key === 'method')!
+    expect(method.get(stepEncoderField({ webp: { method: 6 } }, method, 1))).toBe(0)
+    expect(method.get(stepEncoderField({ webp: { method: 0 } }, method, -1))).toBe(6)
+  })
+
+  test('describes values for display', () => {
+    const palette = ENCODER_FIELDS.png.find((f) => f.key === 'paletteColors')!
+    expect(describeEncoderField({}, palette)).toBe('off')
+    expect(describeEncoderField({ png: { paletteColors: 64 } }, palette)).toBe('64 colors')
+  })
+})
@@ -4,11 +4,15 @@
 
 import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
 import { join } from 'node:path'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, utimesSync } from 'node:fs'
+import { tmpdir } from 'node:os'
 import {
   isImageFile,
   getImageDimensions,
+  getImageDetails,
   scanDirectory,
   generateOutputPath,
+  shouldKeepExistingOutput,
   checkImageMagick,
 } from '../fileScanner'
 import { resetMagickFFI } from '../magickFFI'
@@ -102,6 +106,37 @@ describe('fileScanner', () => {
     })
   })
 
+  describe('getImageDetails', () => {
+    afterAll(() => {
+      Bun.env.MAGICK_USE_FFI = originalFFIEnv
+    })
+
+    for (const mode of ['true', 'false']) {
+      test(`reads PNG details (FFI ${mode})`, async () => {
+        Bun.env.MAGICK_USE_FFI = mode
+        expect(await getImageDetails(TEST_PNG)).toMatchObject({
+          colorSpace: 'sRGB',
+          bitDepth: 8,
+          hasAlpha: true,
+          profileName: null,
+          orientation: 1,
+          frames: 1,
+          compression: 'Zip',
+        })
+      })
+
+      test(`reads the EXIF orientation of a JPEG (FFI ${mode})`, async () => {
+        Bun.env.MAGICK_USE_FFI = mode
+        expect(await getImageDetails(PORTRAIT_JPG)).toMatchObject({
+          hasAlpha: false,
+          camera: null,
+          orientation: 2,
+          compression: 'JPEG',
+        })
+      })
+    }
+  })
+
   describe('scanDirectory', () => {
     test('scans fixtures directory and finds image files', async () => {
       const files = await scanDirectory(FIXTURES_DIR)
@@ -133,6 +168,71 @@ describe('fileScanner', () => {
     })
   })
 
+  describe('scanDirectory (recursive)', () => {
+    let root = ''
+
+    beforeAll(() => {
+      // images/blog/2024/a.jpg, images/b.png, top.png, drafts/c.png, ignored/d.png
+      root = mkdtempSync(join(tmpdir(), 'magick-tui-scan-'))
+      for (const dir of ['images/blog/2024', 'drafts', 'ignored', 'node_modules/pkg']) {
+        mkdirSync(join(root, dir), { recursive: true })
+      }
+      for (const file of [
+        'top.png',
+        'images/b.png',
+        'images/blog/2024/a.jpg',
+        'drafts/c.png',
+        'ignored/d.png',
+        'node_modules/pkg/e.png',
+        'images/notes.txt',
+      ]) {
+        writeFileSync(join(root, file), 'x')
+      }
+      writeFileSync(join(root, '.gitignore'), 'ignored/\n')
+    })
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true })
+    })
+
+    test('flat scan only lists the top level', async () => {
+      const files = await scanDirectory(root)
+      expect(files.map((f) => f.relativePath)).toEqual(['top.png'])
+    })
+
+    test('recursive scan returns relative paths sorted', async () => {
+      const files = await scanDirectory(root, { recursive: true })
+      expect(files.map((f) => f.relativePath)).toEqual([
+        'drafts/c.png',
+        'images/b.png',
+        'images/blog/2024/a.jpg',
+        'top.png',
+      ])
+      const nested = files.find((f) => f.name === 'a.jpg')
+      expect(nested?.path).toBe(join(root, 'images/blog/2024/a.jpg'))
+    })
+
+    test('respects max depth', async () => {
+      const files = await scanDirectory(root, { recursive: true, maxDepth: 1 })
+      expect(files.map((f) => f.relativePath)).toEqual(['drafts/c.png', 'images/b.png', 'top.png'])
+    })
+
+    test('can ignore .gitignore rules', async () => {
+      const files = await scanDirectory(root, { recursive: true, respectGitignore: false })
+      expect(files.map((f) => f.relativePath)).toContain('ignored/d.png')
+      // node_modules is always skipped
+      expect(files.some((f) => f.relativePath.startsWith('node_modules'))).toBe(false)
+    })
+
+    test('applies include and exclude globs', async () => {
+      const included = await scanDirectory(root, { recursive: true, include: ['images/**'] })
+      expect(included.map((f) => f.relativePath)).toEqual(['images/b.png', 'images/blog/2024/a.jpg'])
+
+      const excluded = await scanDirectory(root, { recursive: true, exclude: ['drafts', '**/*.jpg'] })
+      expect(excluded.map((f) => f.relativePath)).toEqual(['images/b.png', 'top.png'])
+    })
+  })
+
   describe('generateOutputPath', () => {
     test('generates webp output path', () => {
       const output = generateOutputPath(TEST_PNG, 'webp')
@@ -150,6 +250,91 @@ describe('fileScanner', () => {
       const output = generateOutputPath(input, 'webp')
       expect(output).toContain('test.image.webp')
     })
+
+    test('never targets the input file itself', () => {
+      const output = generateOutputPath('/src/photo.jpg', 'jpg', { overwrite: 'overwrite' })
+      expect(output).toBe('/src/photo-1.jpg')
+    })
+
+    test('writes to the output directory', () => {
+      const output = generateOutputPath('/src/images/photo.png', 'webp', { outputDir: '/out' })
+      expect(output).toBe('/out/photo.webp')
+    })
+
+    test('mirrors the input tree below the output directory', () => {
+      const output = generateOutputPath('/src/images/blog/photo.png', 'webp', {
+        outputDir: '/out',
+        mirrorTree: true,
+        baseDir: '/src',
+      })
+      expect(output).toBe('/out/images/blog/photo.webp')
+    })
+
+    test('puts inputs outside the mirrored tree directly in the output directory', () => {
+      const output = generateOutputPath('/elsewhere/photo.png', 'webp', {
+        outputDir: '/out',
+        mirrorTree: true,
+        baseDir: '/src',
+      })
+      expect(output).toBe('/out/photo.webp')
+    })
+
+    test('uses a rendered filename and adds the counter before the extension', () => {
+      const reserved = new Set(['/out/photo-1200w.webp'])
+      const output = generateOutputPath('/src/photo.png', 'webp', {
+        outputDir: '/out',
+        filename: 'photo-1200w.webp',
+        reserved,
+      })
+      expect(output).toBe('/out/photo-1200w-1.webp')
+    })
+  })
+
+  describe('overwrite policies', () => {
+    let root: string
+    let input: string
+    let existing: string
+
+    beforeAll(() => {
+      root = mkdtempSync(join(tmpdir(), 'magick-tui-overwrite-'))
+      input = join(root, 'photo.png')
+      existing = join(root, 'photo.webp')
+      writeFileSync(input, '')
+      writeFileSync(existing, '')
+    })
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true })
+    })
+
+    test('counter policy avoids existing files', () => {
+      expect(generateOutputPath(input, 'webp')).toBe(join(root, 'photo-1.webp'))
+    })
+
+    test('other policies target the existing file', () => {
+      expect(generateOutputPath(input, 'webp', { overwrite: 'skip' })).toBe(existing)
+      expect(generateOutputPath(input, 'webp', { overwrite: 'overwrite' })).toBe(existing)
+    })
+
+    test('reserved paths still get a counter', () => {
+      const output = generateOutputPath(input, 'webp', { overwrite: 'overwrite', reserved: new Set([existing]) })
+      expect(output).toBe(join(root, 'photo-1.webp'))
+    })
+
+    test('skip keeps existing outputs only', async () => {
+      expect(await shouldKeepExistingOutput(input, existing, 'skip')).toBe(true)
+      expect(await shouldKeepExistingOutput(input, join(root, 'missing.webp'), 'skip')).toBe(false)
+      expect(await shouldKeepExistingOutput(input, existing, 'overwrite')).toBe(false)
+    })
+
+    test('newer keeps outputs that are up to date', async () => {
+      utimesSync(input, new Date(1000), new Date(1000))
+      utimesSync(existing, new Date(2000), new Date(2000))
+      expect(await shouldKeepExistingOutput(input, existing, 'newer')).toBe(true)
+
+      utimesSync(input, new Date(3000), new Date(3000))
+      expect(await shouldKeepExistingOutput(input, existing, 'newer')).toBe(false)
+    })
   })
 
   describe('checkImageMagick', () => {
@@ -0,0 +1,89 @@
+/**
+ * Tests for folderWatcher module
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { join } from 'node:path'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { watchFolder, type FolderWatcher } from '../folderWatcher'
+import type { ImageFile } from '../types'
+
+const DEBOUNCE_MS = 50
+
+// Long enough for the debounce and the rescan to finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, DEBOUNCE_MS * 6))
+
+describe('folderWatcher', () => {
+  let root: string
+  let watcher: FolderWatcher | null
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'magick-tui-watch-'))
+    mkdirSync(join(root, 'nested'))
+    watcher = null
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test('reports new images once their writes settle', async () => {
+    const batches: string[][] = []
+    watcher = watchFolder(root, {
+      debounceMs: DEBOUNCE_MS,
+      onChange: async (files) => {
+        batches.push(files.map((f) => f.relativePath))
+      },
+    })
+
+    writeFileSync(join(root, 'photo.png'), 'a')
+    writeFileSync(join(root, 'photo.png'), 'ab')
+    writeFileSync(join(root, 'notes.txt'), 'not an image')
+    await settle()
+
+    expect(batches).toEqual([['photo.png']])
+  })
+
+  test('applies the scan options', async () => {
+    const changed: string[] = []
+    let scanned: ImageFile[] = []
+    watcher = watchFolder(root, {
+      scan: { recursive: true, exclude: ['**/skip-*'] },
+      debounceMs: DEBOUNCE_MS,
+      onScan: (files) => {
+        scanned = files
+      },
+      onChange: async (files) => {
+        changed.push(...files.map((f) => f.relativePath))
+      },
+    })
+
+    writeFileSync(join(root, 'nested', 'deep.jpg'), 'a')
+    writeFileSync(join(root, 'nested', 'skip-me.jpg'), 'b')
+    await settle()
+
+    expect(changed).toEqual(['nested/deep.jpg'])
+    expect(scanned.map((f) => f.relativePath)).toEqual(['nested/deep.jpg'])
+  })
+
+  test('ignores the outputs it wrote', async () => {
+    const changed: string[] = []
+    watcher = watchFolder(root, {
+      debounceMs: DEBOUNCE_MS,
+      onChange: async (files) => {
+        changed.push(...files.map((f) => f.relativePath))
+        const output = join(root, 'photo.webp')
+        writeFileSync(output, 'converted')
+        return [output]
+      },
+    })
+
+    writeFileSync(join(root, 'photo.png'), 'a')
+    await settle()
+    await settle()
+
+    expect(changed).toEqual(['photo.png'])
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Tests for imagePreview module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { cropRegion, fitPreviewSize, getCellSize, panCrop, previewCells, previewPixelBox } from '../imagePreview'
+
+const CELL = { width: 10, height: 20 }
+
+describe('imagePreview', () => {
+  describe('getCellSize', () => {
+    test('divides the terminal resolution by its size in cells', () => {
+      expect(getCellSize({ width: 1600, height: 1000 }, 160, 50)).toEqual(CELL)
+    })
+
+    test('falls back to a default when the resolution is unknown', () => {
+      expect(getCellSize(null, 160, 50)).toEqual({ width: 8, height: 16 })
+      expect(getCellSize({ width: 0, height: 0 }, 160, 50)).toEqual({ width: 8, height: 16 })
+    })
+  })
+
+  describe('previewPixelBox', () => {
+    test('uses two pixels per row for half-blocks', () => {
+      expect(previewPixelBox('blocks', 36, 10, CELL)).toEqual({ width: 36, height: 20 })
+    })
+
+    test('uses the cell size for graphics protocols', () => {
+      expect(previewPixelBox('kitty', 36, 10, CELL)).toEqual({ width: 360, height: 200 })
+    })
+  })
+
+  describe('fitPreviewSize', () => {
+    test('scales down keeping the aspect ratio', () => {
+      expect(fitPreviewSize({ width: 4000, height: 3000 }, { width: 360, height: 200 })).toEqual({
+        width: 267,
+        height: 200,
+      })
+      expect(fitPreviewSize({ width: 1000, height: 250 }, { width: 360, height: 200 })).toEqual({
+        width: 360,
+        height: 90,
+      })
+    })
+
+    test('never enlarges small images', () => {
+      expect(fitPreviewSize({ width: 16, height: 16 }, { width: 360, height: 200 })).toEqual({ width: 16, height: 16 })
+    })
+  })
+
+  describe('previewCells', () => {
+    test('counts the cells a thumbnail covers', () => {
+      expect(previewCells('blocks', { width: 36, height: 19 }, CELL)).toEqual({ columns: 36, rows: 10 })
+      expect(previewCells('sixel', { width: 267, height: 200 }, CELL)).toEqual({ columns: 27, rows: 10 })
+    })
+  })
+
+  describe('cropRegion', () => {
+    const image = { width: 1000, height: 500 }
+
+    test('centers the box on the given point', () => {
+      expect(cropRegion(image, { width: 200, height: 100 }, { x: 0.5, y: 0.5 })).toEqual({
+        x: 400,
+        y: 200,
+        width: 200,
+        height: 100,
+      })
+    })
+
+    test('keeps the region inside the image', () => {
+      expect(cropRegion(image, { width: 200, height: 100 }, { x: 0, y: 1 })).toMatchObject({ x: 0, y: 400 })
+      expect(cropRegion(image, { width: 2000, height: 100 }, { x: 0.9, y: 0.5 })).toMatchObject({ x: 0, width: 1000 })
+    })
+  })
+
+  describe('panCrop', () => {
+    const region = { x: 400, y: 200, width: 200, height: 100 }
+
+    test('moves by half a view per step', () => {
+      const center = panCrop({ x: 0.5, y: 0.5 }, region, { width: 1000, height: 500 }, 1, -1)
+      expect(center.x).toBeCloseTo(0.6)
+      expect(center.y).toBeCloseTo(0.4)
+    })
+
+    test('stops at the image edges', () => {
+      const center = panCrop({ x: 0.15, y: 0.5 }, region, { width: 1000, height: 100 }, -1, 1)
+      expect(center.x).toBeCloseTo(0.1)
+      expect(center.y).toBe(0.5)
+    })
+  })
+})
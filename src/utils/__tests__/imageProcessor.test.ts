@@ -4,10 +4,18 @@
 
 import { describe, test, expect, beforeAll, afterEach, afterAll } from 'bun:test'
 import { join } from 'node:path'
-import { existsSync, unlinkSync, readdirSync } from 'node:fs'
-import { processImage, validateResize, describeProcessing } from '../imageProcessor'
+import { existsSync, unlinkSync, readdirSync, mkdtempSync, copyFileSync, writeFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import {
+  processImage,
+  processBatch,
+  validateResize,
+  describeProcessing,
+  computeOutputDimensions,
+  selectSrcsetWidths,
+} from '../imageProcessor'
 import { resetMagickFFI } from '../magickFFI'
-import type { ProcessOptions } from '../types'
+import type { BatchProgress, ProcessOptions } from '../types'
 
 // Test fixtures directory
 const FIXTURES_DIR = join(import.meta.dir, '../__fixtures__')
@@ -94,6 +102,32 @@ describe('imageProcessor', () => {
     })
   })
 
+  describe('computeOutputDimensions', () => {
+    const source = { width: 600, height: 400 }
+
+    test('keeps the source size without resize', () => {
+      expect(computeOutputDimensions(source, null, null)).toEqual(source)
+    })
+
+    test('derives the missing side from the aspect ratio', () => {
+      expect(computeOutputDimensions(source, 300, null)).toEqual({ width: 300, height: 200 })
+      expect(computeOutputDimensions(source, null, 100)).toEqual({ width: 150, height: 100 })
+    })
+
+    test('never upscales', () => {
+      expect(computeOutputDimensions(source, 1200, null)).toEqual(source)
+    })
+  })
+
+  describe('selectSrcsetWidths', () => {
+    test('skips widths that would upscale', () => {
+      expect(selectSrcsetWidths({ width: 1000, height: 500 }, [480, 1000, 1200])).toEqual({
+        widths: [480, 1000],
+        skipped: [1200],
+      })
+    })
+  })
+
   describe('processImage with FFI', () => {
     test('converts PNG to WebP with FFI enabled', async () => {
       Bun.env.MAGICK_USE_FFI = 'true'
@@ -262,6 +296,84 @@ describe('imageProcessor', () => {
     })
   })
 
+  describe('processBatch', () => {
+    test('converts every file and counts successes', async () => {
+      const result = await processBatch([TEST_PNG, PORTRAIT_JPG], {
+        outputFormats: ['webp'],
+        quality: 80,
+        resizeWidth: null,
+        resizeHeight: null,
+      })
+
+      expect(result.results.length).toBe(2)
+      expect(result.succeeded).toBe(2)
+      expect(result.failed).toBe(0)
+      expect(result.results[0]?.inputPath).toBe(TEST_PNG)
+      expect(result.results[1]?.inputPath).toBe(PORTRAIT_JPG)
+    })
+
+    test('reports failures without stopping the batch', async () => {
+      const progress: BatchProgress[] = []
+
+      const result = await processBatch(
+        ['/nonexistent/a.png', '/nonexistent/b.png'],
+        { outputFormats: ['webp'], quality: 80, resizeWidth: null, resizeHeight: null },
+        (p) => progress.push(p)
+      )
+
+      expect(result.succeeded).toBe(0)
+      expect(result.failed).toBe(2)
+      expect(result.results.every((r) => r.error !== undefined)).toBe(true)
+
+      // Every file reports a finished result with an increasing counter
+      const finished = progress.filter((p) => p.result)
+      expect(finished.map((p) => p.completed)).toEqual([1, 2])
+      expect(finished.every((p) => p.total === 2)).toBe(true)
+    })
+
+    test('reports every file as cancelled when aborted up front', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await processBatch(
+        [TEST_PNG, PORTRAIT_JPG],
+        { outputFormats: ['webp'], quality: 80, resizeWidth: null, resizeHeight: null },
+        undefined,
+        controller.signal
+      )
+
+      expect(result.cancelled).toBe(2)
+      expect(result.succeeded).toBe(0)
+      expect(result.failed).toBe(0)
+      expect(result.results.every((r) => r.cancelled)).toBe(true)
+    })
+
+    test('skips files whose outputs exist under the skip policy', async () => {
+      const root = mkdtempSync(join(tmpdir(), 'magick-tui-skip-'))
+      try {
+        const input = join(root, 'test.png')
+        copyFileSync(TEST_PNG, input)
+        writeFileSync(join(root, 'test.webp'), 'existing')
+
+        const result = await processBatch([input], {
+          outputFormats: ['webp'],
+          quality: 80,
+          resizeWidth: null,
+          resizeHeight: null,
+          output: { overwrite: 'skip' },
+        })
+
+        expect(result.skipped).toBe(1)
+        expect(result.succeeded).toBe(0)
+        expect(result.results[0]?.skippedPaths).toEqual([join(root, 'test.webp')])
+        expect(await Bun.file(join(root, 'test.webp')).text()).toBe('existing')
+        expect(existsSync(join(root, 'test-1.webp'))).toBe(false)
+      } finally {
+        rmSync(root, { recursive: true, force: true })
+      }
+    })
+  })
+
   describe('describeProcessing', () => {
     test('describes basic options', () => {
       const options: ProcessOptions = {
@@ -311,6 +423,19 @@ describe('imageProcessor', () => {
       expect(description).toContain('auto')
     })
 
+    test('describes responsive image widths', () => {
+      const options: ProcessOptions = {
+        inputPath: '/test/image.png',
+        outputFormats: ['webp'],
+        quality: 85,
+        resizeWidth: null,
+        resizeHeight: null,
+        widths: [480, 960],
+      }
+
+      expect(describeProcessing(options)).toContain('Widths: 480px, 960px')
+    })
+
     test('describes options with height only', () => {
       const options: ProcessOptions = {
         inputPath: '/test/image.png',
@@ -0,0 +1,253 @@
+/**
+ * Tests for magickShared module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  buildCompareArgs,
+  buildMagickArgs,
+  buildThumbnailArgs,
+  cameraName,
+  getEncoderDefines,
+  parseDistortion,
+  parseImageDetails,
+} from '../magickShared'
+import type { MetadataPolicy } from '../types'
+
+describe('magickShared', () => {
+  describe('buildMagickArgs', () => {
+    test('builds WebP arguments with quality, resize and encoder defines', () => {
+      expect(buildMagickArgs('in.png', 'out.webp', 'webp', 80, 1200, null, { webp: { method: 6 } })).toEqual([
+        'in.png',
+        '-auto-orient',
+        '-strip',
+        '-quality',
+        '80',
+        '-resize',
+        '1200x>',
+        '-define',
+        'webp:lossless=false',
+        '-define',
+        'webp:method=6',
+        '-define',
+        'webp:alpha-quality=100',
+        'out.webp',
+      ])
+    })
+
+    test('builds progressive JPEG arguments with alpha removal', () => {
+      const args = buildMagickArgs('in.png', 'out.jpg', 'jpg', 85, null, null)
+      expect(args).toContain('-quality')
+      expect(args.join(' ')).toContain('-alpha remove')
+      expect(args.join(' ')).toContain('-interlace Plane')
+      expect(args.join(' ')).toContain('-define jpeg:sampling-factor=4:2:0')
+    })
+
+    test('builds baseline JPEG arguments', () => {
+      const args = buildMagickArgs('in.png', 'out.jpg', 'jpg', 85, null, null, {
+        jpg: { progressive: false, chromaSubsampling: '4:4:4' },
+      })
+      expect(args.join(' ')).toContain('-interlace None')
+      expect(args.join(' ')).toContain('-define jpeg:sampling-factor=4:4:4')
+    })
+
+    test('uses compression level instead of quality for PNG', () => {
+      const args = buildMagickArgs('in.jpg', 'out.png', 'png', 80, null, null, {
+        png: { compressionLevel: 6 },
+      })
+      expect(args).not.toContain('-quality')
+      expect(args.join(' ')).toContain('-define png:compression-level=6')
+      expect(args).not.toContain('-colors')
+    })
+
+    test('quantizes PNG to a palette when requested', () => {
+      const args = buildMagickArgs('in.jpg', 'out.png', 'png', 80, null, null, {
+        png: { paletteColors: 64 },
+      })
+      expect(args.join(' ')).toContain('-colors 64')
+    })
+
+    test('applies the metadata policy after orienting', () => {
+      const args = (metadata?: MetadataPolicy) =>
+        buildMagickArgs('in.jpg', 'out.webp', 'webp', 80, null, null, undefined, metadata).slice(1, 4)
+
+      expect(args()).toEqual(['-auto-orient', '-strip', '-quality'])
+      expect(args('icc')).toEqual(['-auto-orient', '+profile', '!icc,!icm,*'])
+      expect(args('copyright')).toEqual(['-auto-orient', '+profile', '!exif,!iptc,!8bim,!xmp,*'])
+      expect(args('all')).toEqual(['-auto-orient', '-quality', '80'])
+    })
+
+    test('converts to the target profile and embeds it after stripping', () => {
+      const args = (embed: boolean, metadata?: MetadataPolicy) =>
+        buildMagickArgs('in.jpg', 'out.webp', 'webp', 80, null, null, undefined, metadata, {
+          profilePath: 'srgb.icc',
+          embed,
+        }).slice(1, -1)
+
+      expect(args(false).slice(0, 4)).toEqual(['-auto-orient', '-profile', 'srgb.icc', '-strip'])
+      expect(args(true).slice(0, 6)).toEqual(['-auto-orient', '-profile', 'srgb.icc', '-strip', '-profile', 'srgb.icc'])
+      expect(args(true, 'icc').filter((arg) => arg === '-profile')).toHaveLength(1)
+    })
+  })
+
+  describe('getEncoderDefines', () => {
+    test('maps AVIF options to HEIC coder defines', () => {
+      expect(getEncoderDefines('avif', { avif: { speed: 2, chromaSubsampling: '4:4:4' } })).toEqual({
+        'heic:speed': '2',
+        'heic:chroma': '444',
+      })
+    })
+
+    test('maps WebP options', () => {
+      expect(getEncoderDefines('webp', { webp: { lossless: true, method: 6 } })).toEqual({
+        'webp:lossless': 'true',
+        'webp:method': '6',
+        'webp:alpha-quality': '100',
+      })
+    })
+
+    test('only sets the JPEG XL distance when given', () => {
+      expect(getEncoderDefines('jxl')).toEqual({ 'jxl:effort': '7' })
+      expect(getEncoderDefines('jxl', { jxl: { effort: 9, distance: 1.5 } })).toEqual({
+        'jxl:effort': '9',
+        'jxl:distance': '1.5',
+      })
+    })
+
+    test('fills in defaults', () => {
+      expect(getEncoderDefines('png')).toEqual({ 'png:compression-level': '9' })
+    })
+  })
+
+  describe('buildCompareArgs', () => {
+    test('compares the encoded file with the oriented source', () => {
+      expect(buildCompareArgs('/tmp/out.webp', 'in.png', null, null, 'SSIM')).toEqual([
+        '/tmp/out.webp',
+        '(',
+        'in.png',
+        '-auto-orient',
+        ')',
+        '-metric',
+        'SSIM',
+        '-compare',
+        '-format',
+        '%[distortion]',
+        'info:',
+      ])
+    })
+
+    test('resizes the source to match the output', () => {
+      const args = buildCompareArgs('/tmp/out.avif', 'in.png', 800, null, 'PSNR')
+      expect(args.slice(2, 6)).toEqual(['in.png', '-auto-orient', '-resize', '800x>'])
+      expect(args).toContain('PSNR')
+    })
+
+    test('converts the source to the output profile', () => {
+      const color = { profilePath: '/tmp/srgb.icc', embed: false }
+      const args = buildCompareArgs('/tmp/out.webp', 'in.png', 800, null, 'SSIM', color)
+      expect(args.slice(2, 8)).toEqual(['in.png', '-auto-orient', '-profile', '/tmp/srgb.icc', '-resize', '800x>'])
+    })
+  })
+
+  describe('parseDistortion', () => {
+    test('parses numeric output', () => {
+      expect(parseDistortion('0.9731\n')).toBe(0.9731)
+      expect(parseDistortion('41.25')).toBe(41.25)
+    })
+
+    test('treats inf as identical images', () => {
+      expect(parseDistortion('inf')).toBe(Infinity)
+    })
+
+    test('returns null for unparseable output', () => {
+      expect(parseDistortion('')).toBeNull()
+      expect(parseDistortion('error')).toBeNull()
+    })
+  })
+
+  describe('cameraName', () => {
+    test('joins make and model without repeating the make', () => {
+      expect(cameraName('Canon', 'Canon EOS R5')).toBe('Canon EOS R5')
+      expect(cameraName('SONY', 'ILCE-7M4')).toBe('SONY ILCE-7M4')
+      expect(cameraName(null, 'iPhone 15 Pro')).toBe('iPhone 15 Pro')
+      expect(cameraName(null, null)).toBeNull()
+    })
+  })
+
+  describe('parseImageDetails', () => {
+    test('parses the first frame', () => {
+      const frame = ['sRGB', '8', 'Blend', 'Display P3', 'Apple', 'iPhone 15 Pro', 'iPhone 15 Pro back camera', '2024:05:01 14:22:10', '6', 'JPEG', '2']
+      expect(parseImageDetails([...frame, ...frame].join('\n') + '\n')).toEqual({
+        colorSpace: 'Display P3',
+        bitDepth: 8,
+        hasAlpha: true,
+        profileName: 'Display P3',
+        camera: 'Apple iPhone 15 Pro',
+        lens: 'iPhone 15 Pro back camera',
+        dateTaken: '2024:05:01 14:22:10',
+        orientation: 6,
+        frames: 2,
+        compression: 'JPEG',
+      })
+    })
+
+    test('treats empty properties as unset', () => {
+      const details = parseImageDetails(['Gray', '16', 'Undefined', '', '', '', '', '', '', 'Zip', '1', ''].join('\n'))
+      expect(details).toMatchObject({
+        colorSpace: 'Gray',
+        bitDepth: 16,
+        hasAlpha: false,
+        profileName: null,
+        camera: null,
+        orientation: 1,
+        compression: 'Zip',
+      })
+    })
+
+    test('returns null for unparseable output', () => {
+      expect(parseImageDetails('')).toBeNull()
+    })
+  })
+
+  describe('buildThumbnailArgs', () => {
+    test('scales to the exact size and writes to stdout', () => {
+      expect(buildThumbnailArgs('in.jpg', 267, 200, 'PNG')).toEqual([
+        'in.jpg',
+        '-auto-orient',
+        '-thumbnail',
+        '267x200!',
+        'PNG:-',
+      ])
+    })
+
+    test('flattens alpha and uses 8-bit samples for raw RGB', () => {
+      expect(buildThumbnailArgs('in.png', 36, 20, 'RGB')).toEqual([
+        'in.png',
+        '-auto-orient',
+        '-thumbnail',
+        '36x20!',
+        '-alpha',
+        'remove',
+        '-alpha',
+        'off',
+        '-depth',
+        '8',
+        'RGB:-',
+      ])
+    })
+
+    test('resizes like a conversion, then crops at 1:1', () => {
+      const crop = { x: 40, y: 10, width: 200, height: 100 }
+      expect(buildThumbnailArgs('in.jpg', 200, 100, 'PNG', { resizeWidth: 800, crop })).toEqual([
+        'in.jpg',
+        '-auto-orient',
+        '-resize',
+        '800x>',
+        '-crop',
+        '200x100+40+10',
+        '+repage',
+        'PNG:-',
+      ])
+    })
+  })
+})
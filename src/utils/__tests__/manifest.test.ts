@@ -0,0 +1,83 @@
+/**
+ * Tests for manifest module
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { join } from 'node:path'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { MANIFEST_VERSION, parseManifest, updateManifest } from '../manifest'
+
+const sha256 = (text: string) => new Bun.CryptoHasher('sha256').update(text).digest('hex')
+
+describe('manifest', () => {
+  describe('parseManifest', () => {
+    test('accepts the current version', () => {
+      const manifest = { version: MANIFEST_VERSION, generatedAt: '2025-01-01T00:00:00.000Z', sources: {} }
+      expect(parseManifest(manifest)).toEqual(manifest)
+    })
+
+    test('rejects other shapes', () => {
+      expect(parseManifest([])).toBeNull()
+      expect(parseManifest({ version: 99, sources: {} })).toBeNull()
+      expect(parseManifest({ version: MANIFEST_VERSION, sources: [] })).toBeNull()
+    })
+  })
+
+  describe('updateManifest', () => {
+    let root: string
+
+    beforeAll(() => {
+      root = mkdtempSync(join(tmpdir(), 'magick-tui-manifest-'))
+      mkdirSync(join(root, 'dist'))
+      writeFileSync(join(root, 'a.jpg'), 'source a')
+      writeFileSync(join(root, 'b.jpg'), 'source b')
+      writeFileSync(join(root, 'dist', 'a.webp'), 'webp a')
+      writeFileSync(join(root, 'dist', 'a.png'), 'png a')
+      writeFileSync(join(root, 'dist', 'b.webp'), 'webp b')
+    })
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true })
+    })
+
+    test('records sources and outputs relative to the manifest', async () => {
+      const manifestPath = join(root, 'manifest.json')
+      const result = await updateManifest(manifestPath, [
+        {
+          success: true,
+          inputPath: join(root, 'a.jpg'),
+          outputPaths: [join(root, 'dist', 'a.webp'), join(root, 'dist', 'a.png')],
+          outputQualities: { [join(root, 'dist', 'a.webp')]: 72, [join(root, 'dist', 'a.png')]: 80 },
+        },
+        { success: false, inputPath: join(root, 'b.jpg'), error: 'failed' },
+      ])
+      expect(result.success).toBe(true)
+
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'))
+      expect(Object.keys(manifest.sources)).toEqual(['a.jpg'])
+      expect(manifest.sources['a.jpg']).toMatchObject({ size: 8, hash: sha256('source a') })
+      expect(manifest.sources['a.jpg'].outputs).toMatchObject([
+        { path: 'dist/a.webp', format: 'webp', size: 6, quality: 72, hash: sha256('webp a') },
+        { path: 'dist/a.png', format: 'png', quality: null },
+      ])
+    })
+
+    test('keeps other sources and earlier qualities on later runs', async () => {
+      const manifestPath = join(root, 'merged.json')
+      const webp = join(root, 'dist', 'a.webp')
+      await updateManifest(manifestPath, [
+        { success: true, inputPath: join(root, 'a.jpg'), outputPaths: [webp], outputQualities: { [webp]: 64 } },
+      ])
+      await updateManifest(manifestPath, [
+        { success: true, inputPath: join(root, 'b.jpg'), outputPaths: [join(root, 'dist', 'b.webp')] },
+        { success: true, inputPath: join(root, 'a.jpg'), outputPaths: [], skippedPaths: [webp], skipped: true },
+      ])
+
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'))
+      expect(Object.keys(manifest.sources)).toEqual(['a.jpg', 'b.jpg'])
+      expect(manifest.sources['a.jpg'].outputs[0].quality).toBe(64)
+      expect(manifest.sources['b.jpg'].outputs[0].quality).toBeNull()
+    })
+  })
+})
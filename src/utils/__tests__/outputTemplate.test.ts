@@ -0,0 +1,77 @@
+/**
+ * Tests for outputTemplate module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  getTemplateVariables,
+  renderFilenameTemplate,
+  templateUses,
+  validateFilenameTemplate,
+} from '../outputTemplate'
+
+describe('outputTemplate', () => {
+  describe('getTemplateVariables', () => {
+    test('lists placeholders in order', () => {
+      expect(getTemplateVariables('{name}-{width}w.{format}')).toEqual(['name', 'width', 'format'])
+    })
+
+    test('returns an empty list for plain names', () => {
+      expect(getTemplateVariables('static.webp')).toEqual([])
+    })
+  })
+
+  describe('templateUses', () => {
+    test('detects any of the given variables', () => {
+      expect(templateUses('{name}.{hash8}.{format}', 'hash', 'hash8')).toBe(true)
+      expect(templateUses('{name}.{format}', 'width', 'height')).toBe(false)
+    })
+  })
+
+  describe('validateFilenameTemplate', () => {
+    test('accepts known variables and subdirectories', () => {
+      expect(validateFilenameTemplate('{name}-{width}w.{format}')).toBeNull()
+      expect(validateFilenameTemplate('{format}/{name}.{hash8}.{format}')).toBeNull()
+    })
+
+    test('rejects unknown variables', () => {
+      expect(validateFilenameTemplate('{name}.{colour}')).toContain('{colour}')
+    })
+
+    test('rejects empty, absolute and escaping templates', () => {
+      expect(validateFilenameTemplate('  ')).not.toBeNull()
+      expect(validateFilenameTemplate('/tmp/{name}.{format}')).not.toBeNull()
+      expect(validateFilenameTemplate('../{name}.{format}')).not.toBeNull()
+      expect(validateFilenameTemplate('{format}/')).not.toBeNull()
+    })
+
+    test('requires {format} for more than one output format', () => {
+      expect(validateFilenameTemplate('{name}-small', ['webp', 'avif'])).toContain('{format}')
+      expect(validateFilenameTemplate('{name}-small.{format}', ['webp', 'avif'])).toBeNull()
+      expect(validateFilenameTemplate('{name}-small', ['webp'])).toBeNull()
+    })
+
+    test('rejects a literal extension that does not match the format', () => {
+      expect(validateFilenameTemplate('{name}.webp', ['avif'])).toContain('.webp')
+      expect(validateFilenameTemplate('{format}/{name}.webp', ['webp', 'avif'])).toContain('AVIF')
+      expect(validateFilenameTemplate('{name}.WEBP', ['webp'])).toBeNull()
+      expect(validateFilenameTemplate('{name}.jpeg', ['jpg'])).toBeNull()
+      expect(validateFilenameTemplate('{name}.{hash8}', ['webp'])).toBeNull()
+    })
+  })
+
+  describe('renderFilenameTemplate', () => {
+    test('fills in values', () => {
+      const name = renderFilenameTemplate('{name}-{width}w.{format}', {
+        name: 'hero',
+        width: 1200,
+        format: 'webp',
+      })
+      expect(name).toBe('hero-1200w.webp')
+    })
+
+    test('leaves missing values empty', () => {
+      expect(renderFilenameTemplate('{name}{hash8}.{format}', { name: 'a', format: 'avif' })).toBe('a.avif')
+    })
+  })
+})
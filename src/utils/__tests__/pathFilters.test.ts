@@ -0,0 +1,68 @@
+/**
+ * Tests for pathFilters module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { parseGitignore, isIgnored, matchesAnyGlob } from '../pathFilters'
+
+describe('pathFilters', () => {
+  describe('parseGitignore', () => {
+    test('skips comments and blank lines', () => {
+      const rules = parseGitignore('# comment\n\n*.webp\n', '')
+      expect(rules.length).toBe(1)
+    })
+
+    test('parses negation, directory-only and anchored patterns', () => {
+      const [negated, dirOnly, anchored] = parseGitignore('!keep.png\nbuild/\n/assets/raw', '')
+      expect(negated?.negate).toBe(true)
+      expect(dirOnly?.dirOnly).toBe(true)
+      expect(dirOnly?.anchored).toBe(false)
+      expect(anchored?.anchored).toBe(true)
+    })
+  })
+
+  describe('isIgnored', () => {
+    test('unanchored patterns match at any depth', () => {
+      const rules = parseGitignore('*.webp', '')
+      expect(isIgnored(rules, 'a.webp', false)).toBe(true)
+      expect(isIgnored(rules, 'images/blog/a.webp', false)).toBe(true)
+      expect(isIgnored(rules, 'images/blog/a.png', false)).toBe(false)
+    })
+
+    test('anchored patterns match from the .gitignore directory', () => {
+      const rules = parseGitignore('/raw', '')
+      expect(isIgnored(rules, 'raw', true)).toBe(true)
+      expect(isIgnored(rules, 'images/raw', true)).toBe(false)
+    })
+
+    test('directory-only patterns ignore directories but not files', () => {
+      const rules = parseGitignore('cache/', '')
+      expect(isIgnored(rules, 'cache', true)).toBe(true)
+      expect(isIgnored(rules, 'cache', false)).toBe(false)
+    })
+
+    test('later negations re-include paths', () => {
+      const rules = parseGitignore('*.png\n!hero.png', '')
+      expect(isIgnored(rules, 'thumb.png', false)).toBe(true)
+      expect(isIgnored(rules, 'hero.png', false)).toBe(false)
+    })
+
+    test('nested .gitignore rules only apply below their directory', () => {
+      const rules = parseGitignore('*.jpg', 'images/blog')
+      expect(isIgnored(rules, 'images/blog/2024/a.jpg', false)).toBe(true)
+      expect(isIgnored(rules, 'images/a.jpg', false)).toBe(false)
+    })
+  })
+
+  describe('matchesAnyGlob', () => {
+    test('matches relative paths against any pattern', () => {
+      expect(matchesAnyGlob(['**/*.jpg', 'hero.png'], 'blog/2024/a.jpg')).toBe(true)
+      expect(matchesAnyGlob(['**/*.jpg', 'hero.png'], 'hero.png')).toBe(true)
+      expect(matchesAnyGlob(['**/*.jpg'], 'a.png')).toBe(false)
+    })
+
+    test('returns false for no patterns', () => {
+      expect(matchesAnyGlob([], 'a.png')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Tests for pictureMarkup module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { buildPictureMarkup, formatFromPath, type PictureOutput } from '../pictureMarkup'
+
+const output = (path: string, width: number, height: number): PictureOutput => ({
+  path,
+  format: formatFromPath(path)!,
+  width,
+  height,
+})
+
+describe('pictureMarkup', () => {
+  describe('formatFromPath', () => {
+    test('reads the output format from the extension', () => {
+      expect(formatFromPath('/out/hero-480w.AVIF')).toBe('avif')
+      expect(formatFromPath('/out/hero.gif')).toBeNull()
+    })
+  })
+
+  describe('buildPictureMarkup', () => {
+    test('lists modern formats as sources with a JPEG fallback', () => {
+      const markup = buildPictureMarkup(
+        [output('/site/img/hero.webp', 1200, 800), output('/site/img/hero.jpg', 1200, 800), output('/site/img/hero.avif', 1200, 800)],
+        { baseDir: '/site' }
+      )
+      expect(markup).toBe(
+        [
+          '<picture>',
+          '  <source type="image/avif" srcset="img/hero.avif">',
+          '  <source type="image/webp" srcset="img/hero.webp">',
+          '  <img src="img/hero.jpg" width="1200" height="800" alt="">',
+          '</picture>',
+        ].join('\n')
+      )
+    })
+
+    test('uses width descriptors for responsive image sets', () => {
+      const markup = buildPictureMarkup(
+        [
+          output('/out/a-960w.webp', 960, 640),
+          output('/out/a-480w.webp', 480, 320),
+          output('/out/a-480w.avif', 480, 320),
+          output('/out/a-960w.avif', 960, 640),
+        ],
+        { baseDir: '/out', alt: 'A "quoted" cat', sizes: '(max-width: 600px) 100vw, 50vw' }
+      )
+      expect(markup).toBe(
+        [
+          '<picture>',
+          '  <source type="image/avif" srcset="a-480w.avif 480w, a-960w.avif 960w" sizes="(max-width: 600px) 100vw, 50vw">',
+          '  <img src="a-960w.webp" srcset="a-480w.webp 480w, a-960w.webp 960w" sizes="(max-width: 600px) 100vw, 50vw" width="960" height="640" alt="A &quot;quoted&quot; cat">',
+          '</picture>',
+        ].join('\n')
+      )
+    })
+
+    test('encodes paths as URLs', () => {
+      const markup = buildPictureMarkup([output('/out/my photo.png', 10, 10)], { baseDir: '/out' })
+      expect(markup).toContain('src="my%20photo.png"')
+    })
+
+    test('returns null without outputs', () => {
+      expect(buildPictureMarkup([], { baseDir: '/' })).toBeNull()
+    })
+  })
+})
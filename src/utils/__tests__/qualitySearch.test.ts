@@ -0,0 +1,66 @@
+/**
+ * Tests for qualitySearch module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { searchQualityForSize, searchQualityForSsim } from '../qualitySearch'
+
+// Fake encoder whose output grows by 1 KB per quality step
+const linearSize = async (quality: number) => quality * 1024
+
+describe('qualitySearch', () => {
+  test('finds the highest quality that fits', async () => {
+    const result = await searchQualityForSize(linearSize, 72 * 1024 + 500)
+    expect(result).toEqual({ quality: 72, size: 72 * 1024, fits: true })
+  })
+
+  test('returns the maximum quality when everything fits', async () => {
+    const result = await searchQualityForSize(linearSize, 1024 * 1024)
+    expect(result).toEqual({ quality: 100, size: 100 * 1024, fits: true })
+  })
+
+  test('reports the smallest output when nothing fits', async () => {
+    const result = await searchQualityForSize(linearSize, 100)
+    expect(result).toEqual({ quality: 1, size: 1024, fits: false })
+  })
+
+  test('needs only a logarithmic number of estimates', async () => {
+    const tried: number[] = []
+    await searchQualityForSize(async (quality) => {
+      tried.push(quality)
+      return quality * 1024
+    }, 40 * 1024)
+    expect(tried.length).toBeLessThanOrEqual(7)
+  })
+
+  test('returns null when an estimate fails', async () => {
+    expect(await searchQualityForSize(async () => undefined, 1024)).toBeNull()
+  })
+
+  describe('searchQualityForSsim', () => {
+    // Fake metric that approaches 1 as quality grows
+    const ssimAt = async (quality: number) => (900 + quality) / 1000
+
+    test('finds the lowest quality that reaches the threshold', async () => {
+      const result = await searchQualityForSsim(ssimAt, 0.97)
+      expect(result?.quality).toBe(70)
+      expect(result?.reached).toBe(true)
+      expect(result?.ssim).toBeGreaterThanOrEqual(0.97)
+    })
+
+    test('returns the minimum quality when everything passes', async () => {
+      const result = await searchQualityForSsim(ssimAt, 0.5)
+      expect(result).toEqual({ quality: 1, ssim: 0.901, reached: true })
+    })
+
+    test('reports the maximum quality when the threshold is out of reach', async () => {
+      const blurry = async (quality: number) => (800 + quality) / 1000
+      const result = await searchQualityForSsim(blurry, 0.95)
+      expect(result).toEqual({ quality: 100, ssim: 0.9, reached: false })
+    })
+
+    test('returns null when a measurement fails', async () => {
+      expect(await searchQualityForSsim(async () => undefined, 0.98)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Tests for terminalGraphics module
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  atPosition,
+  clipboardSequence,
+  detectPreviewProtocol,
+  halfBlockRows,
+  kittyDeleteSequence,
+  kittyImageSequence,
+  thumbnailFormatFor,
+} from '../terminalGraphics'
+
+describe('terminalGraphics', () => {
+  describe('detectPreviewProtocol', () => {
+    test('prefers Kitty, then Sixel, then half-blocks', () => {
+      expect(detectPreviewProtocol('auto', { kitty_graphics: true, sixel: true })).toBe('kitty')
+      expect(detectPreviewProtocol('auto', { kitty_graphics: false, sixel: true })).toBe('sixel')
+      expect(detectPreviewProtocol('auto', {})).toBe('blocks')
+      expect(detectPreviewProtocol('auto', null)).toBe('blocks')
+    })
+
+    test('honors an explicit mode', () => {
+      expect(detectPreviewProtocol('sixel', { kitty_graphics: true })).toBe('sixel')
+      expect(detectPreviewProtocol('off', { kitty_graphics: true })).toBeNull()
+    })
+  })
+
+  test('maps protocols to thumbnail formats', () => {
+    expect(thumbnailFormatFor('kitty')).toBe('PNG')
+    expect(thumbnailFormatFor('sixel')).toBe('SIXEL')
+    expect(thumbnailFormatFor('blocks')).toBe('RGB')
+  })
+
+  describe('kittyImageSequence', () => {
+    test('sends small images in a single chunk', () => {
+      const sequence = kittyImageSequence(new Uint8Array([1, 2, 3]), 1)
+      expect(sequence).toBe('\x1b_Ga=T,f=100,i=1,q=2,C=1,m=0;AQID\x1b\\')
+    })
+
+    test('splits large payloads into 4096 byte chunks', () => {
+      // 6000 bytes encode to 8000 base64 characters: two chunks
+      const sequence = kittyImageSequence(new Uint8Array(6000), 7)
+      const chunks = sequence.split('\x1b\\').filter(Boolean)
+
+      expect(chunks).toHaveLength(2)
+      expect(chunks[0]).toStartWith('\x1b_Ga=T,f=100,i=7,q=2,C=1,m=1;')
+      expect(chunks[0]!.split(';')[1]).toHaveLength(4096)
+      expect(chunks[1]).toStartWith('\x1b_Gm=0;')
+    })
+
+    test('deletes by image id', () => {
+      expect(kittyDeleteSequence(3)).toBe('\x1b_Ga=d,d=I,i=3,q=2\x1b\\')
+    })
+  })
+
+  test('positions sequences with 1-based coordinates and restores the cursor', () => {
+    expect(atPosition(4, 2, 'X')).toBe('\x1b7\x1b[3;5HX\x1b8')
+  })
+
+  describe('clipboardSequence', () => {
+    test('wraps base64 text in OSC 52', () => {
+      expect(clipboardSequence('<picture>')).toBe('\x1b]52;c;PHBpY3R1cmU+\x07')
+    })
+  })
+
+  describe('halfBlockRows', () => {
+    test('pairs rows of pixels into cells', () => {
+      // 2x2 image: red, green / blue, white
+      const pixels = new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255])
+      expect(halfBlockRows(pixels, 2, 2)).toEqual([
+        [
+          { top: [255, 0, 0], bottom: [0, 0, 255] },
+          { top: [0, 255, 0], bottom: [255, 255, 255] },
+        ],
+      ])
+    })
+
+    test('leaves the bottom half empty on odd heights', () => {
+      const pixels = new Uint8Array([10, 20, 30, 40, 50, 60, 70, 80, 90])
+      const rows = halfBlockRows(pixels, 1, 3)
+      expect(rows).toHaveLength(2)
+      expect(rows[1]).toEqual([{ top: [70, 80, 90], bottom: null }])
+    })
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * Tests for userConfig module
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { join } from 'node:path'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import {
+  deleteUserPreset,
+  describePreset,
+  loadConfig,
+  loadUserConfig,
+  parseUserConfig,
+  presetToJson,
+  removeQualityPreset,
+  saveQualityPresets,
+  saveUserPreset,
+  upsertQualityPreset,
+  validatePresetName,
+} from '../userConfig'
+
+describe('userConfig', () => {
+  describe('parseUserConfig', () => {
+    test('reads quality presets', () => {
+      expect(parseUserConfig({ qualityPresets: [{ name: ' Photos ', quality: 72 }] })).toEqual({
+        config: { qualityPresets: [{ name: 'Photos', quality: 72 }], presets: [], budget: null },
+      })
+    })
+
+    test('treats a missing key as no presets', () => {
+      expect(parseUserConfig({})).toEqual({ config: { qualityPresets: [], presets: [], budget: null } })
+    })
+
+    test('rejects malformed configs', () => {
+      expect('error' in parseUserConfig([])).toBe(true)
+      expect('error' in parseUserConfig({ qualityPresets: {} })).toBe(true)
+      expect('error' in parseUserConfig({ qualityPresets: [{ quality: 70 }] })).toBe(true)
+      expect('error' in parseUserConfig({ qualityPresets: [{ name: 'x', quality: 101 }] })).toBe(true)
+      expect('error' in parseUserConfig({ qualityPresets: [{ name: 'x', quality: 7.5 }] })).toBe(true)
+    })
+  })
+
+  describe('parseUserConfig presets', () => {
+    test('reads conversion presets with defaults', () => {
+      const result = parseUserConfig({
+        presets: [
+          { name: 'thumbnail', formats: ['webp'], quality: 70, width: 400, encoder: { webp: { method: 6 } } },
+          { name: 'archive', formats: 'jxl,png' },
+        ],
+      }, 'project')
+      expect(result).toEqual({
+        config: {
+          qualityPresets: [],
+          presets: [
+            {
+              name: 'thumbnail',
+              formats: ['webp'],
+              quality: 70,
+              resizeWidth: 400,
+              resizeHeight: null,
+              encoder: { webp: { method: 6 } },
+              source: 'project',
+            },
+            {
+              name: 'archive',
+              formats: ['jxl', 'png'],
+              quality: 80,
+              resizeWidth: null,
+              resizeHeight: null,
+              encoder: {},
+              source: 'project',
+            },
+          ],
+          budget: null,
+        },
+      })
+    })
+
+    test('names the preset in errors', () => {
+      const result = parseUserConfig({ presets: [{ name: 'hero', formats: ['webp'], quality: 'best' }] })
+      expect('error' in result && result.error).toContain('hero')
+      expect('error' in parseUserConfig({ presets: [{ name: 'hero', formats: ['bmp'] }] })).toBe(true)
+      expect('error' in parseUserConfig({ presets: [{ name: 'hero', formats: ['webp'], width: -1 }] })).toBe(true)
+      expect('error' in parseUserConfig({ presets: [{ formats: ['webp'] }] })).toBe(true)
+    })
+  })
+
+  describe('parseUserConfig budget', () => {
+    test('reads size and dimension limits', () => {
+      const result = parseUserConfig({ budget: { maxSize: '300KB', maxWidth: 2560 } })
+      expect('config' in result && result.config.budget).toEqual({ maxSize: 300 * 1024, maxWidth: 2560, maxHeight: null })
+    })
+
+    test('rejects invalid limits', () => {
+      expect('error' in parseUserConfig({ budget: [] })).toBe(true)
+      expect('error' in parseUserConfig({ budget: { maxSize: 'big' } })).toBe(true)
+      expect('error' in parseUserConfig({ budget: { maxHeight: 0 } })).toBe(true)
+    })
+  })
+
+  describe('describePreset and presetToJson', () => {
+    const preset = {
+      name: 'hero',
+      formats: ['webp' as const, 'avif' as const],
+      quality: 80,
+      resizeWidth: 1600,
+      resizeHeight: null,
+      encoder: {},
+      source: 'user' as const,
+    }
+
+    test('summarizes formats, quality and size', () => {
+      expect(describePreset(preset)).toBe('webp+avif q80 1600w')
+      expect(describePreset({ ...preset, quality: 'auto', resizeHeight: 900 })).toBe('webp+avif auto 1600x900')
+    })
+
+    test('writes only the set fields', () => {
+      expect(presetToJson(preset)).toEqual({ name: 'hero', formats: ['webp', 'avif'], quality: 80, width: 1600 })
+    })
+  })
+
+  describe('validatePresetName', () => {
+    test('accepts new names', () => {
+      expect(validatePresetName('Thumbnails', ['Low', 'Medium'])).toBeNull()
+    })
+
+    test('rejects empty, long and built-in names', () => {
+      expect(validatePresetName('  ', [])).not.toBeNull()
+      expect(validatePresetName('x'.repeat(21), [])).not.toBeNull()
+      expect(validatePresetName('medium', ['Low', 'Medium'])).not.toBeNull()
+    })
+  })
+
+  describe('upsertQualityPreset and removeQualityPreset', () => {
+    test('appends new presets and replaces ones with the same name', () => {
+      const presets = upsertQualityPreset([{ name: 'Photos', quality: 72 }], { name: 'Icons', quality: 50 })
+      expect(presets).toEqual([
+        { name: 'Photos', quality: 72 },
+        { name: 'Icons', quality: 50 },
+      ])
+      expect(upsertQualityPreset(presets, { name: 'photos', quality: 75 })).toEqual([
+        { name: 'photos', quality: 75 },
+        { name: 'Icons', quality: 50 },
+      ])
+    })
+
+    test('removes by name', () => {
+      expect(removeQualityPreset([{ name: 'Photos', quality: 72 }], 'Photos')).toEqual([])
+    })
+  })
+
+  describe('loadUserConfig and saveQualityPresets', () => {
+    let root: string
+
+    beforeAll(() => {
+      root = mkdtempSync(join(tmpdir(), 'magick-tui-config-'))
+    })
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true })
+    })
+
+    test('a missing file loads as an empty config', async () => {
+      const result = await loadUserConfig(join(root, 'missing.json'))
+      expect(result).toEqual({ success: true, config: { qualityPresets: [], presets: [], budget: null } })
+    })
+
+    test('saves presets and keeps other keys', async () => {
+      const path = join(root, 'nested', 'config.json')
+      expect((await saveQualityPresets([{ name: 'Photos', quality: 72 }], path)).success).toBe(true)
+
+      const existing = JSON.parse(readFileSync(path, 'utf8'))
+      writeFileSync(path, JSON.stringify({ ...existing, theme: 'dark' }))
+      await saveQualityPresets([{ name: 'Icons', quality: 50 }], path)
+
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({
+        theme: 'dark',
+        qualityPresets: [{ name: 'Icons', quality: 50 }],
+      })
+      expect((await loadUserConfig(path)).config.qualityPresets).toEqual([{ name: 'Icons', quality: 50 }])
+    })
+
+    test('project presets replace user presets of the same name', async () => {
+      const project = join(root, 'project')
+      const nested = join(project, 'images', 'blog')
+      mkdirSync(nested, { recursive: true })
+      const userPath = join(root, 'user.json')
+      writeFileSync(userPath, JSON.stringify({
+        presets: [
+          { name: 'hero', formats: ['webp'], quality: 90 },
+          { name: 'thumb', formats: ['webp'], quality: 60 },
+        ],
+      }))
+      writeFileSync(join(project, '.magick-tui.json'), JSON.stringify({
+        presets: [{ name: 'Hero', formats: ['avif'], quality: 70 }],
+      }))
+
+      const result = await loadConfig(nested, userPath)
+      expect(result.errors).toEqual([])
+      expect(result.projectPath).toBe(join(project, '.magick-tui.json'))
+      expect(result.config.presets.map((p) => [p.name, p.source])).toEqual([
+        ['Hero', 'project'],
+        ['thumb', 'user'],
+      ])
+    })
+
+    test('saves and deletes user presets without dropping overridden ones', async () => {
+      const path = join(root, 'save-presets.json')
+      // "hero" is overridden by a project preset, so it isn't in the loaded list
+      writeFileSync(path, JSON.stringify({ theme: 'dark', presets: [{ name: 'hero', formats: ['webp'], quality: 90 }] }))
+      const base = { formats: ['webp' as const], quality: 80, resizeWidth: null, resizeHeight: null, encoder: {} }
+
+      expect((await saveUserPreset({ ...base, name: 'mine', source: 'user' }, path)).success).toBe(true)
+      await saveUserPreset({ ...base, name: 'Mine', quality: 70, source: 'user' }, path)
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({
+        theme: 'dark',
+        presets: [
+          { name: 'hero', formats: ['webp'], quality: 90 },
+          { name: 'Mine', formats: ['webp'], quality: 70 },
+        ],
+      })
+
+      await deleteUserPreset('Mine', path)
+      expect(JSON.parse(readFileSync(path, 'utf8')).presets).toEqual([{ name: 'hero', formats: ['webp'], quality: 90 }])
+    })
+
+    test('does not overwrite a user config it cannot read', async () => {
+      const path = join(root, 'unreadable-presets.json')
+      writeFileSync(path, '{ not json')
+      const preset = { name: 'mine', formats: ['webp' as const], quality: 80, resizeWidth: null, resizeHeight: null, encoder: {} }
+
+      expect((await saveUserPreset({ ...preset, source: 'user' }, path)).success).toBe(false)
+      expect(readFileSync(path, 'utf8')).toBe('{ not json')
+    })
+
+    test('reports invalid JSON', async () => {
+      const path = join(root, 'broken.json')
+      writeFileSync(path, '{ not json')
+      const result = await loadUserConfig(path)
+      expect(result.success).toBe(false)
+      expect(result.config.qualityPresets).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,267 @@
+// Size budgets for CI: compare images against byte and pixel limits, suggest
+// a smaller encode for each violation and write JSON or JUnit XML reports
+
+import { relative, sep } from 'node:path'
+import { stat } from 'node:fs/promises'
+import type { ImageBudget, ImageDimensions, OutputFormat } from './types'
+import { getImageDimensions } from './fileScanner'
+import { estimateFileSizeAsync } from './imageProcessor'
+import { formatFileSize } from '../constants'
+
+export type BudgetLimit = 'size' | 'width' | 'height'
+
+export interface BudgetViolation {
+  limit: BudgetLimit
+  actual: number // bytes or pixels
+  max: number
+}
+
+/**
+ * Cheapest estimated encode that fixes a violation
+ */
+export interface BudgetSuggestion {
+  format: OutputFormat
+  quality: number
+  resizeWidth: number | null // downscale to fit the dimension limits, null when they already fit
+  estimatedSize: number
+  savedBytes: number
+  withinBudget: boolean // the estimate fits the size limit (true without one)
+}
+
+export interface BudgetCheckResult {
+  path: string
+  size: number
+  width: number | null // null when the image can't be read
+  height: number | null
+  violations: BudgetViolation[]
+  suggestion: BudgetSuggestion | null
+  error?: string
+}
+
+export interface BudgetCheckOptions {
+  formats: OutputFormat[] // formats to estimate suggestions for
+  quality: number
+  suggest?: boolean // estimate savings for images over budget (default true)
+}
+
+/**
+ * Whether a budget has any limit set
+ */
+export function hasLimits(budget: ImageBudget): boolean {
+  return budget.maxSize !== null || budget.maxWidth !== null || budget.maxHeight !== null
+}
+
+/**
+ * Limits an image exceeds; dimension limits are skipped when they're unknown
+ */
+export function findViolations(
+  image: { size: number; width: number | null; height: number | null },
+  budget: ImageBudget
+): BudgetViolation[] {
+  const checks: [BudgetLimit, number | null, number | null][] = [
+    ['size', image.size, budget.maxSize],
+    ['width', image.width, budget.maxWidth],
+    ['height', image.height, budget.maxHeight],
+  ]
+  return checks
+    .filter(([, actual, max]) => actual !== null && max !== null && actual > max)
+    .map(([limit, actual, max]) => ({ limit, actual: actual!, max: max! }))
+}
+
+/**
+ * Width to downscale to so both dimension limits are met; null when they already are
+ */
+export function fitWithinBudget(dimensions: ImageDimensions, budget: ImageBudget): number | null {
+  const scale = Math.min(
+    1,
+    budget.maxWidth !== null ? budget.maxWidth / dimensions.width : 1,
+    budget.maxHeight !== null ? budget.maxHeight / dimensions.height : 1
+  )
+  return scale < 1 ? Math.max(1, Math.floor(dimensions.width * scale)) : null
+}
+
+/**
+ * Estimate the candidate formats (resized to fit the dimension limits) and
+ * pick the smallest; null when no estimate is smaller than the original
+ */
+async function suggestFix(
+  path: string,
+  size: number,
+  dimensions: ImageDimensions | null,
+  budget: ImageBudget,
+  options: BudgetCheckOptions
+): Promise<BudgetSuggestion | null> {
+  const resizeWidth = dimensions ? fitWithinBudget(dimensions, budget) : null
+  const { promise } = estimateFileSizeAsync(path, size, options.formats, options.quality, resizeWidth, null)
+  const result = await promise
+  if (!result.success || !result.estimates?.length) return null
+
+  const best = result.estimates.reduce((a, b) => (b.estimatedSize < a.estimatedSize ? b : a))
+  if (best.estimatedSize >= size) return null
+
+  return {
+    format: best.format,
+    quality: options.quality,
+    resizeWidth,
+    estimatedSize: best.estimatedSize,
+    savedBytes: size - best.estimatedSize,
+    withinBudget: budget.maxSize === null || best.estimatedSize <= budget.maxSize,
+  }
+}
+
+/**
+ * Check one image against the budget
+ */
+export async function checkImage(
+  path: string,
+  budget: ImageBudget,
+  options: BudgetCheckOptions
+): Promise<BudgetCheckResult> {
+  let size: number
+  try {
+    size = (await stat(path)).size
+  } catch {
+    return { path, size: 0, width: null, height: null, violations: [], suggestion: null, error: 'File not found' }
+  }
+
+  const dimensions = await getImageDimensions(path)
+  const result: BudgetCheckResult = {
+    path,
+    size,
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+    violations: [],
+    suggestion: null,
+  }
+
+  if (!dimensions && (budget.maxWidth !== null || budget.maxHeight !== null)) {
+    return { ...result, error: 'Could not read image dimensions' }
+  }
+
+  result.violations = findViolations(result, budget)
+  if (result.violations.length > 0 && options.suggest !== false) {
+    result.suggestion = await suggestFix(path, size, dimensions, budget, options)
+  }
+  return result
+}
+
+/**
+ * Check images one at a time, reporting each result as it completes
+ */
+export async function checkImages(
+  paths: string[],
+  budget: ImageBudget,
+  options: BudgetCheckOptions,
+  onResult?: (result: BudgetCheckResult) => void
+): Promise<BudgetCheckResult[]> {
+  const results: BudgetCheckResult[] = []
+  for (const path of paths) {
+    const result = await checkImage(path, budget, options)
+    results.push(result)
+    onResult?.(result)
+  }
+  return results
+}
+
+/**
+ * Whether an image fails the check (over budget or unreadable)
+ */
+export function isFailure(result: BudgetCheckResult): boolean {
+  return result.violations.length > 0 || result.error !== undefined
+}
+
+/**
+ * Short summary of the limits, e.g. "size 300.0 KB, width 2560px"
+ */
+export function describeBudget(budget: ImageBudget): string {
+  const limits: string[] = []
+  if (budget.maxSize !== null) limits.push(`size ${formatFileSize(budget.maxSize)}`)
+  if (budget.maxWidth !== null) limits.push(`width ${budget.maxWidth}px`)
+  if (budget.maxHeight !== null) limits.push(`height ${budget.maxHeight}px`)
+  return limits.join(', ')
+}
+
+/**
+ * e.g. "412.3 KB, over the 300.0 KB budget" or "4000px wide, over the 2560px budget"
+ */
+export function describeViolation(violation: BudgetViolation): string {
+  if (violation.limit === 'size') {
+    return `${formatFileSize(violation.actual)}, over the ${formatFileSize(violation.max)} budget`
+  }
+  const label = violation.limit === 'width' ? 'wide' : 'high'
+  return `${violation.actual}px ${label}, over the ${violation.max}px budget`
+}
+
+/**
+ * e.g. "AVIF q80 at 2560px wide: ~142.0 KB, saves 270.3 KB (66%)"
+ */
+export function describeSuggestion(suggestion: BudgetSuggestion, originalSize: number): string {
+  const resize = suggestion.resizeWidth !== null ? ` at ${suggestion.resizeWidth}px wide` : ''
+  const percent = Math.round((suggestion.savedBytes / originalSize) * 100)
+  const fits = suggestion.withinBudget ? '' : ', still over budget'
+  return `${suggestion.format.toUpperCase()} q${suggestion.quality}${resize}: ~${formatFileSize(suggestion.estimatedSize)}, saves ${formatFileSize(suggestion.savedBytes)} (${percent}%)${fits}`
+}
+
+function reportPath(path: string, baseDir: string): string {
+  return relative(baseDir, path).split(sep).join('/')
+}
+
+/**
+ * JSON report; paths are relative to `baseDir`
+ */
+export function formatJsonReport(results: BudgetCheckResult[], budget: ImageBudget, baseDir: string): string {
+  const failed = results.filter(isFailure).length
+  const report = {
+    budget,
+    summary: { checked: results.length, passed: results.length - failed, failed },
+    images: results.map((r) => ({ ...r, path: reportPath(r.path, baseDir) })),
+  }
+  return JSON.stringify(report, null, 2) + '\n'
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * JUnit XML report with one test case per image: over-budget images are
+ * failures, unreadable ones errors. Paths are relative to `baseDir`
+ */
+export function formatJUnitReport(results: BudgetCheckResult[], budget: ImageBudget, baseDir: string): string {
+  const failures = results.filter((r) => r.violations.length > 0).length
+  const errors = results.filter((r) => r.error !== undefined).length
+  const counts = `tests="${results.length}" failures="${failures}" errors="${errors}"`
+
+  const testCases = results.map((result) => {
+    const open = `    <testcase classname="magick-tui.budget" name="${escapeXml(reportPath(result.path, baseDir))}"`
+    if (result.error !== undefined) {
+      return `${open}>\n      <error message="${escapeXml(result.error)}"/>\n    </testcase>`
+    }
+    if (result.violations.length === 0) {
+      return `${open}/>`
+    }
+
+    const message = result.violations.map(describeViolation).join('; ')
+    const details = result.violations.map(describeViolation)
+    if (result.suggestion) details.push(`Suggestion: ${describeSuggestion(result.suggestion, result.size)}`)
+    return [
+      `${open}>`,
+      `      <failure type="budget" message="${escapeXml(message)}">${escapeXml(details.join('\n'))}</failure>`,
+      '    </testcase>',
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="magick-tui check" ${counts}>`,
+    `  <testsuite name="Image budgets (${escapeXml(describeBudget(budget))})" ${counts}>`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,804 @@
+// Command-line argument parsing for the TUI and the headless CLI commands
+
+import { parseArgs } from 'node:util'
+import type {
+  ChromaSubsampling,
+  ColorOptions,
+  ConversionPreset,
+  EncoderOptions,
+  ImageBudget,
+  MetadataPolicy,
+  OutputFormat,
+  OutputOptions,
+  PreviewMode,
+  ProcessOptions,
+  ScanOptions,
+} from './types'
+import {
+  COLOR_MODES,
+  DEFAULT_COLOR_OPTIONS,
+  DEFAULT_METADATA_POLICY,
+  DEFAULT_MIN_SSIM,
+  DEFAULT_QUALITY,
+  METADATA_POLICIES,
+  OUTPUT_FORMATS,
+  OVERWRITE_POLICIES,
+  parseFileSize,
+} from '../constants'
+import { templateUses, validateFilenameTemplate } from './outputTemplate'
+
+/**
+ * Parsed `convert` command: input patterns plus the options shared by every file
+ */
+export interface ConvertCommand {
+  inputs: string[]
+  options: Omit<ProcessOptions, 'inputPath'>
+  scan: ScanOptions
+  picture: string | null // file to write <picture> markup for the outputs to, '-' for stdout
+  watch: boolean // keep running and convert new or modified images in the input directories
+}
+
+/**
+ * Options for the interactive TUI
+ */
+export interface TuiCommand {
+  scan: ScanOptions
+  output: OutputOptions
+  encoder: EncoderOptions
+  metadata: MetadataPolicy
+  color: ColorOptions
+  minSsim: number // threshold used by the Auto quality preset
+  preview: PreviewMode
+  preset: string | null // conversion preset to start with, resolved once the config is loaded
+}
+
+/**
+ * Parsed `check` command: images to compare against the size budget
+ */
+export interface CheckCommand {
+  inputs: string[]
+  scan: ScanOptions
+  budget: ImageBudget // flags on top of the config's budget
+  formats: OutputFormat[] // formats to estimate suggested savings for
+  quality: number
+  suggest: boolean
+  json: string | null // report files, '-' for stdout
+  junit: string | null
+}
+
+const PREVIEW_MODES: readonly PreviewMode[] = ['auto', 'kitty', 'sixel', 'blocks', 'off']
+
+// Directory scanning flags shared by the TUI and the convert command
+const SCAN_ARG_OPTIONS = {
+  recursive: { type: 'boolean', short: 'r' },
+  'max-depth': { type: 'string' },
+  include: { type: 'string', multiple: true },
+  exclude: { type: 'string', multiple: true },
+  'no-gitignore': { type: 'boolean' },
+} as const
+
+// Output location flags shared by the TUI and the convert command
+const OUTPUT_ARG_OPTIONS = {
+  'out-dir': { type: 'string', short: 'o' },
+  template: { type: 'string', short: 't' },
+  mirror: { type: 'boolean' },
+  overwrite: { type: 'string' },
+  manifest: { type: 'string' },
+  cache: { type: 'string' },
+} as const
+
+// Format-specific encoder flags shared by the TUI and the convert command
+const ENCODER_ARG_OPTIONS = {
+  'webp-lossless': { type: 'boolean' },
+  'webp-method': { type: 'string' },
+  'webp-alpha-quality': { type: 'string' },
+  'avif-speed': { type: 'string' },
+  'avif-sampling': { type: 'string' },
+  'jxl-effort': { type: 'string' },
+  'jxl-distance': { type: 'string' },
+  'jpeg-baseline': { type: 'boolean' },
+  'jpeg-sampling': { type: 'string' },
+  'png-level': { type: 'string' },
+  'png-colors': { type: 'string' },
+} as const
+
+const CHROMA_SUBSAMPLING: ChromaSubsampling[] = ['4:2:0', '4:2:2', '4:4:4']
+
+export type ParseResult<T> =
+  | { success: true; command: T }
+  | { success: false; error: string }
+
+/**
+ * Parse a comma-separated list of output formats (e.g. "webp,avif")
+ * Returns an error message for unknown formats
+ */
+export function parseFormats(value: string): { formats: OutputFormat[] } | { error: string } {
+  const known = OUTPUT_FORMATS.map((f) => f.format)
+  const formats: OutputFormat[] = []
+
+  for (const raw of value.split(',')) {
+    let name = raw.trim().toLowerCase()
+    if (!name) continue
+    if (name === 'jpeg') name = 'jpg'
+
+    const format = known.find((f) => f === name)
+    if (!format) {
+      return { error: `Unknown format "${raw.trim()}". Supported: ${known.join(', ')}` }
+    }
+    if (!formats.includes(format)) {
+      formats.push(format)
+    }
+  }
+
+  if (formats.length === 0) {
+    return { error: 'At least one output format is required' }
+  }
+
+  return { formats }
+}
+
+/**
+ * Parse a positive integer option value, or null when the option is absent
+ */
+export function parsePositiveInt(
+  value: string | undefined,
+  name: string
+): { value: number | null } | { error: string } {
+  if (value === undefined) return { value: null }
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    return { error: `Invalid ${name} "${value}": expected a positive integer` }
+  }
+
+  return { value: parsed }
+}
+
+/**
+ * Parse a comma-separated list of responsive image widths, e.g. "480,768,1200"
+ * Returned sorted from small to large without duplicates
+ */
+export function parseWidths(value: string): { widths: number[] } | { error: string } {
+  const widths = new Set<number>()
+  for (const raw of value.split(',')) {
+    if (!raw.trim()) continue
+    const width = parsePositiveInt(raw.trim(), 'width')
+    if ('error' in width) return width
+    widths.add(width.value!)
+  }
+
+  if (widths.size === 0) {
+    return { error: 'At least one width is required' }
+  }
+
+  return { widths: [...widths].sort((a, b) => a - b) }
+}
+
+/**
+ * Turn parsed scan flags into ScanOptions
+ */
+function toScanOptions(values: {
+  recursive?: boolean
+  'max-depth'?: string
+  include?: string[]
+  exclude?: string[]
+  'no-gitignore'?: boolean
+}): { scan: ScanOptions } | { error: string } {
+  const maxDepth = parsePositiveInt(values['max-depth'], 'max-depth')
+  if ('error' in maxDepth) {
+    return { error: maxDepth.error }
+  }
+
+  return {
+    scan: {
+      // --max-depth implies a recursive scan
+      recursive: values.recursive === true || maxDepth.value !== null,
+      maxDepth: maxDepth.value ?? undefined,
+      include: values.include,
+      exclude: values.exclude,
+      respectGitignore: !values['no-gitignore'],
+    },
+  }
+}
+
+/**
+ * Turn parsed output flags into OutputOptions
+ * The template is checked against the output `formats` when they're known
+ */
+function toOutputOptions(
+  values: {
+    'out-dir'?: string
+    template?: string
+    mirror?: boolean
+    overwrite?: string
+    manifest?: string
+    cache?: string
+  },
+  formats: OutputFormat[] = []
+): { output: OutputOptions } | { error: string } {
+  if (values.template !== undefined) {
+    const templateError = validateFilenameTemplate(values.template, formats)
+    if (templateError) {
+      return { error: templateError }
+    }
+  }
+
+  if (values.mirror && !values['out-dir']) {
+    return { error: '--mirror requires --out-dir' }
+  }
+
+  const policies = OVERWRITE_POLICIES.map((p) => p.policy)
+  const overwrite = policies.find((p) => p === values.overwrite)
+  if (values.overwrite !== undefined && !overwrite) {
+    return { error: `Unknown overwrite policy "${values.overwrite}". Supported: ${policies.join(', ')}` }
+  }
+
+  const output: OutputOptions = {}
+  if (values['out-dir']) output.outputDir = values['out-dir']
+  if (values.mirror) output.mirrorTree = true
+  if (values.template !== undefined) output.filenameTemplate = values.template
+  if (overwrite) output.overwrite = overwrite
+  if (values.manifest) output.manifestPath = values.manifest
+  if (values.cache) output.cachePath = values.cache
+
+  return { output }
+}
+
+/**
+ * Parse a metadata policy flag; absent means the default (strip everything)
+ */
+function parseMetadataPolicy(value: string | undefined): { metadata: MetadataPolicy } | { error: string } {
+  if (value === undefined) return { metadata: DEFAULT_METADATA_POLICY }
+
+  const policies = METADATA_POLICIES.map((p) => p.policy)
+  const metadata = policies.find((p) => p === value)
+  if (!metadata) {
+    return { error: `Unknown metadata policy "${value}". Supported: ${policies.join(', ')}` }
+  }
+  return { metadata }
+}
+
+/**
+ * Turn the color flags into ColorOptions
+ */
+function toColorOptions(values: { color?: string; 'embed-profile'?: boolean }): { color: ColorOptions } | { error: string } {
+  const modes = COLOR_MODES.map((m) => m.mode)
+  const mode = values.color === undefined ? DEFAULT_COLOR_OPTIONS.mode : modes.find((m) => m === values.color)
+  if (!mode) {
+    return { error: `Unknown color mode "${values.color}". Supported: ${modes.join(', ')}` }
+  }
+
+  const embedProfile = values['embed-profile'] ?? DEFAULT_COLOR_OPTIONS.embedProfile
+  if (embedProfile && mode === 'keep') {
+    return { error: '--embed-profile requires --color srgb or wide' }
+  }
+  return { color: { mode, embedProfile } }
+}
+
+/**
+ * Parse a number option that must lie within [min, max], or null when absent
+ */
+function parseNumberInRange(
+  value: string | undefined,
+  name: string,
+  min: number,
+  max: number,
+  integer = true
+): { value: number | null } | { error: string } {
+  if (value === undefined) return { value: null }
+
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed)) || parsed < min || parsed > max) {
+    return { error: `Invalid ${name} "${value}": expected ${min}-${max}` }
+  }
+
+  return { value: parsed }
+}
+
+// SSIM threshold for auto quality; very low values would accept any quality
+function parseMinSsim(value: string | undefined): { value: number | null } | { error: string } {
+  return parseNumberInRange(value, 'min-ssim', 0.5, 1, false)
+}
+
+function parseChromaSubsampling(
+  value: string | undefined,
+  name: string
+): { value: ChromaSubsampling | null } | { error: string } {
+  if (value === undefined) return { value: null }
+
+  const sampling = CHROMA_SUBSAMPLING.find((s) => s === value)
+  if (!sampling) {
+    return { error: `Invalid ${name} "${value}". Supported: ${CHROMA_SUBSAMPLING.join(', ')}` }
+  }
+
+  return { value: sampling }
+}
+
+/**
+ * Turn parsed encoder flags into EncoderOptions
+ * Only formats with at least one flag get an entry; the rest use the defaults
+ */
+function toEncoderOptions(values: {
+  'webp-lossless'?: boolean
+  'webp-method'?: string
+  'webp-alpha-quality'?: string
+  'avif-speed'?: string
+  'avif-sampling'?: string
+  'jxl-effort'?: string
+  'jxl-distance'?: string
+  'jpeg-baseline'?: boolean
+  'jpeg-sampling'?: string
+  'png-level'?: string
+  'png-colors'?: string
+}): { encoder: EncoderOptions } | { error: string } {
+  const parsed = {
+    webpMethod: parseNumberInRange(values['webp-method'], 'webp-method', 0, 6),
+    webpAlphaQuality: parseNumberInRange(values['webp-alpha-quality'], 'webp-alpha-quality', 0, 100),
+    avifSpeed: parseNumberInRange(values['avif-speed'], 'avif-speed', 0, 9),
+    avifSampling: parseChromaSubsampling(values['avif-sampling'], 'avif-sampling'),
+    jxlEffort: parseNumberInRange(values['jxl-effort'], 'jxl-effort', 1, 9),
+    jxlDistance: parseNumberInRange(values['jxl-distance'], 'jxl-distance', 0, 25, false),
+    jpegSampling: parseChromaSubsampling(values['jpeg-sampling'], 'jpeg-sampling'),
+    pngLevel: parseNumberInRange(values['png-level'], 'png-level', 0, 9),
+    pngColors: parseNumberInRange(values['png-colors'], 'png-colors', 2, 256),
+  }
+
+  for (const result of Object.values(parsed)) {
+    if ('error' in result) {
+      return { error: result.error }
+    }
+  }
+
+  // Value of a flag, or undefined when it wasn't given
+  const value = <T>(result: { value: T | null } | { error: string }): T | undefined =>
+    'value' in result && result.value !== null ? result.value : undefined
+
+  const encoder: EncoderOptions = {
+    webp: {
+      lossless: values['webp-lossless'] || undefined,
+      method: value(parsed.webpMethod),
+      alphaQuality: value(parsed.webpAlphaQuality),
+    },
+    avif: { speed: value(parsed.avifSpeed), chromaSubsampling: value(parsed.avifSampling) },
+    jxl: { effort: value(parsed.jxlEffort), distance: value(parsed.jxlDistance) },
+    jpg: {
+      progressive: values['jpeg-baseline'] ? false : undefined,
+      chromaSubsampling: value(parsed.jpegSampling),
+    },
+    png: { compressionLevel: value(parsed.pngLevel), paletteColors: value(parsed.pngColors) },
+  }
+
+  // Drop unset fields and formats without any flags
+  for (const format of Object.keys(encoder) as (keyof EncoderOptions)[]) {
+    const entries = Object.entries(encoder[format]!).filter(([, v]) => v !== undefined)
+    if (entries.length === 0) {
+      delete encoder[format]
+    } else {
+      encoder[format] = Object.fromEntries(entries)
+    }
+  }
+
+  return { encoder }
+}
+
+// Encoder settings accepted per format in config files
+const ENCODER_CONFIG_FIELDS: Record<keyof EncoderOptions, string[]> = {
+  webp: ['lossless', 'method', 'alphaQuality'],
+  avif: ['speed', 'chromaSubsampling'],
+  jxl: ['effort', 'distance'],
+  jpg: ['progressive', 'chromaSubsampling'],
+  png: ['compressionLevel', 'paletteColors'],
+}
+
+/**
+ * Validate encoder options from a config file (same shape as EncoderOptions)
+ * by checking them like the equivalent encoder flags
+ */
+export function parseEncoderConfig(value: unknown): { encoder: EncoderOptions } | { error: string } {
+  if (value === undefined) return { encoder: {} }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'encoder must be an object' }
+  }
+
+  const settings: Record<string, Record<string, unknown>> = {}
+  for (const [format, fields] of Object.entries(value)) {
+    const known = ENCODER_CONFIG_FIELDS[format as keyof EncoderOptions]
+    if (!known) {
+      return { error: `Unknown encoder format "${format}". Supported: ${Object.keys(ENCODER_CONFIG_FIELDS).join(', ')}` }
+    }
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      return { error: `encoder.${format} must be an object` }
+    }
+    const unknown = Object.keys(fields).find((key) => !known.includes(key))
+    if (unknown) {
+      return { error: `Unknown encoder setting "${format}.${unknown}". Supported: ${known.join(', ')}` }
+    }
+    settings[format] = fields as Record<string, unknown>
+  }
+
+  for (const [format, key] of [['webp', 'lossless'], ['jpg', 'progressive']] as const) {
+    const flag = settings[format]?.[key]
+    if (flag !== undefined && typeof flag !== 'boolean') {
+      return { error: `encoder.${format}.${key} must be true or false` }
+    }
+  }
+
+  // Value as a flag string; null means "use the default", like an absent flag
+  const flag = (format: string, key: string): string | undefined => {
+    const v = settings[format]?.[key]
+    return v === undefined || v === null ? undefined : String(v)
+  }
+
+  return toEncoderOptions({
+    'webp-lossless': settings.webp?.lossless === true,
+    'webp-method': flag('webp', 'method'),
+    'webp-alpha-quality': flag('webp', 'alphaQuality'),
+    'avif-speed': flag('avif', 'speed'),
+    'avif-sampling': flag('avif', 'chromaSubsampling'),
+    'jxl-effort': flag('jxl', 'effort'),
+    'jxl-distance': flag('jxl', 'distance'),
+    'jpeg-baseline': settings.jpg?.progressive === false,
+    'jpeg-sampling': flag('jpg', 'chromaSubsampling'),
+    'png-level': flag('png', 'compressionLevel'),
+    'png-colors': flag('png', 'paletteColors'),
+  })
+}
+
+/**
+ * Layer encoder options per format; settings in `overrides` win
+ */
+export function mergeEncoderOptions(base: EncoderOptions, overrides: EncoderOptions): EncoderOptions {
+  return (Object.keys(overrides) as (keyof EncoderOptions)[]).reduce<EncoderOptions>(
+    (merged, format) => ({ ...merged, [format]: { ...base[format], ...overrides[format] } }),
+    { ...base }
+  )
+}
+
+/**
+ * Look up a preset by name (case-insensitive)
+ */
+export function findPreset(
+  presets: ConversionPreset[],
+  name: string
+): { preset: ConversionPreset } | { error: string } {
+  const preset = presets.find((p) => p.name.toLowerCase() === name.trim().toLowerCase())
+  if (preset) return { preset }
+  if (presets.length === 0) {
+    return { error: `Unknown preset "${name}": no presets are defined` }
+  }
+  return { error: `Unknown preset "${name}". Available: ${presets.map((p) => p.name).join(', ')}` }
+}
+
+/**
+ * Parse the arguments of the interactive TUI
+ */
+export function parseTuiArgs(argv: string[]): ParseResult<TuiCommand> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        'min-ssim': { type: 'string' },
+        preview: { type: 'string', default: 'auto' },
+        preset: { type: 'string', short: 'p' },
+        metadata: { type: 'string' },
+        color: { type: 'string' },
+        'embed-profile': { type: 'boolean' },
+        ...ENCODER_ARG_OPTIONS,
+        ...SCAN_ARG_OPTIONS,
+        ...OUTPUT_ARG_OPTIONS,
+      },
+    })
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const scan = toScanOptions(parsed.values)
+  if ('error' in scan) {
+    return { success: false, error: scan.error }
+  }
+
+  const output = toOutputOptions(parsed.values)
+  if ('error' in output) {
+    return { success: false, error: output.error }
+  }
+
+  const encoder = toEncoderOptions(parsed.values)
+  if ('error' in encoder) {
+    return { success: false, error: encoder.error }
+  }
+
+  const metadata = parseMetadataPolicy(parsed.values.metadata)
+  if ('error' in metadata) {
+    return { success: false, error: metadata.error }
+  }
+
+  const color = toColorOptions(parsed.values)
+  if ('error' in color) {
+    return { success: false, error: color.error }
+  }
+
+  const minSsim = parseMinSsim(parsed.values['min-ssim'])
+  if ('error' in minSsim) {
+    return { success: false, error: minSsim.error }
+  }
+
+  const preview = PREVIEW_MODES.find((m) => m === parsed.values.preview)
+  if (!preview) {
+    return {
+      success: false,
+      error: `Unknown preview mode "${parsed.values.preview}". Supported: ${PREVIEW_MODES.join(', ')}`,
+    }
+  }
+
+  return {
+    success: true,
+    command: {
+      scan: scan.scan,
+      output: output.output,
+      encoder: encoder.encoder,
+      metadata: metadata.metadata,
+      color: color.color,
+      minSsim: minSsim.value ?? DEFAULT_MIN_SSIM,
+      preview,
+      preset: parsed.values.preset ?? null,
+    },
+  }
+}
+
+/**
+ * Parse `magick-tui convert` arguments into processing options
+ * `--preset` picks defaults from `presets`; explicit flags override them
+ */
+export function parseConvertArgs(argv: string[], presets: ConversionPreset[] = []): ParseResult<ConvertCommand> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        preset: { type: 'string', short: 'p' },
+        format: { type: 'string', short: 'f' },
+        quality: { type: 'string', short: 'q' },
+        'target-size': { type: 'string', short: 's' },
+        'min-ssim': { type: 'string' },
+        width: { type: 'string', short: 'W' },
+        height: { type: 'string', short: 'H' },
+        widths: { type: 'string' },
+        picture: { type: 'string' },
+        watch: { type: 'boolean' },
+        metadata: { type: 'string' },
+        color: { type: 'string' },
+        'embed-profile': { type: 'boolean' },
+        ...ENCODER_ARG_OPTIONS,
+        ...SCAN_ARG_OPTIONS,
+        ...OUTPUT_ARG_OPTIONS,
+      },
+    })
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const { values, positionals } = parsed
+
+  if (positionals.length === 0) {
+    return { success: false, error: 'No input files given' }
+  }
+
+  const watch = values.watch ?? false
+  if (watch && values.picture !== undefined) {
+    return { success: false, error: '--picture cannot be combined with --watch' }
+  }
+
+  let preset: ConversionPreset | null = null
+  if (values.preset !== undefined) {
+    const found = findPreset(presets, values.preset)
+    if ('error' in found) {
+      return { success: false, error: found.error }
+    }
+    preset = found.preset
+  }
+
+  const formats = parseFormats(values.format ?? preset?.formats.join(',') ?? 'webp')
+  if ('error' in formats) {
+    return { success: false, error: formats.error }
+  }
+
+  // A preset's auto quality gives way to an explicit --target-size
+  const presetQuality =
+    preset && !(preset.quality === 'auto' && values['target-size'] !== undefined) ? preset.quality : DEFAULT_QUALITY
+  const qualityArg = values.quality ?? String(presetQuality)
+  const autoQuality = qualityArg.toLowerCase() === 'auto'
+  const quality = autoQuality ? DEFAULT_QUALITY : Number(qualityArg)
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    return { success: false, error: `Invalid quality "${qualityArg}": expected 1-100 or auto` }
+  }
+
+  const minSsimArg = parseMinSsim(values['min-ssim'])
+  if ('error' in minSsimArg) {
+    return { success: false, error: minSsimArg.error }
+  }
+  if (minSsimArg.value !== null && !autoQuality) {
+    return { success: false, error: '--min-ssim requires --quality auto' }
+  }
+  const minSsim = autoQuality ? (minSsimArg.value ?? DEFAULT_MIN_SSIM) : null
+
+  let targetSize: number | null = null
+  if (values['target-size'] !== undefined) {
+    targetSize = parseFileSize(values['target-size'])
+    if (targetSize === null) {
+      return { success: false, error: `Invalid target-size "${values['target-size']}": expected e.g. 150KB or 1.5MB` }
+    }
+    if (autoQuality) {
+      return { success: false, error: '--target-size cannot be combined with --quality auto' }
+    }
+  }
+
+  let widths: number[] | null = null
+  if (values.widths !== undefined) {
+    const parsedWidths = parseWidths(values.widths)
+    if ('error' in parsedWidths) {
+      return { success: false, error: parsedWidths.error }
+    }
+    if (values.width !== undefined || values.height !== undefined) {
+      return { success: false, error: '--widths cannot be combined with --width or --height' }
+    }
+    if (values.template !== undefined && !templateUses(values.template, 'width')) {
+      return { success: false, error: '--template must include {width} when generating --widths' }
+    }
+    widths = parsedWidths.widths
+  }
+
+  // --widths replaces a preset's resize
+  const presetSize = widths ? null : preset
+  const width = parsePositiveInt(values.width ?? presetSize?.resizeWidth?.toString(), 'width')
+  if ('error' in width) {
+    return { success: false, error: width.error }
+  }
+
+  const height = parsePositiveInt(values.height ?? presetSize?.resizeHeight?.toString(), 'height')
+  if ('error' in height) {
+    return { success: false, error: height.error }
+  }
+
+  const encoder = toEncoderOptions(values)
+  if ('error' in encoder) {
+    return { success: false, error: encoder.error }
+  }
+
+  const metadata = parseMetadataPolicy(values.metadata)
+  if ('error' in metadata) {
+    return { success: false, error: metadata.error }
+  }
+
+  const color = toColorOptions(values)
+  if ('error' in color) {
+    return { success: false, error: color.error }
+  }
+
+  const scan = toScanOptions(values)
+  if ('error' in scan) {
+    return { success: false, error: scan.error }
+  }
+
+  const output = toOutputOptions(values, formats.formats)
+  if ('error' in output) {
+    return { success: false, error: output.error }
+  }
+
+  return {
+    success: true,
+    command: {
+      inputs: positionals,
+      options: {
+        outputFormats: formats.formats,
+        quality,
+        targetSize,
+        minSsim,
+        resizeWidth: width.value,
+        resizeHeight: height.value,
+        widths,
+        encoder: preset ? mergeEncoderOptions(preset.encoder, encoder.encoder) : encoder.encoder,
+        metadata: metadata.metadata,
+        color: color.color,
+        output: output.output,
+      },
+      scan: scan.scan,
+      picture: values.picture ?? null,
+      watch,
+    },
+  }
+}
+
+/**
+ * Parse `magick-tui check` arguments; limits given as flags replace the
+ * matching limits of `configBudget` from the user or project config
+ */
+export function parseCheckArgs(argv: string[], configBudget: ImageBudget | null = null): ParseResult<CheckCommand> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'max-size': { type: 'string' },
+        'max-width': { type: 'string' },
+        'max-height': { type: 'string' },
+        format: { type: 'string', short: 'f' },
+        quality: { type: 'string', short: 'q' },
+        'no-suggest': { type: 'boolean' },
+        json: { type: 'string' },
+        junit: { type: 'string' },
+        ...SCAN_ARG_OPTIONS,
+      },
+    })
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const { values, positionals } = parsed
+
+  let maxSize = configBudget?.maxSize ?? null
+  if (values['max-size'] !== undefined) {
+    maxSize = parseFileSize(values['max-size'])
+    if (maxSize === null) {
+      return { success: false, error: `Invalid max-size "${values['max-size']}": expected e.g. 300KB or 1.5MB` }
+    }
+  }
+
+  const maxWidth = parsePositiveInt(values['max-width'], 'max-width')
+  if ('error' in maxWidth) {
+    return { success: false, error: maxWidth.error }
+  }
+
+  const maxHeight = parsePositiveInt(values['max-height'], 'max-height')
+  if ('error' in maxHeight) {
+    return { success: false, error: maxHeight.error }
+  }
+
+  const budget: ImageBudget = {
+    maxSize,
+    maxWidth: maxWidth.value ?? configBudget?.maxWidth ?? null,
+    maxHeight: maxHeight.value ?? configBudget?.maxHeight ?? null,
+  }
+  if (budget.maxSize === null && budget.maxWidth === null && budget.maxHeight === null) {
+    return {
+      success: false,
+      error: 'No budget set: pass --max-size, --max-width or --max-height, or add a "budget" to the config',
+    }
+  }
+
+  const formats = parseFormats(values.format ?? 'webp')
+  if ('error' in formats) {
+    return { success: false, error: formats.error }
+  }
+
+  const qualityArg = values.quality ?? String(DEFAULT_QUALITY)
+  const quality = Number(qualityArg)
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    return { success: false, error: `Invalid quality "${qualityArg}": expected 1-100` }
+  }
+
+  if (values.json === '-' && values.junit === '-') {
+    return { success: false, error: 'Only one of --json and --junit can write to stdout' }
+  }
+
+  const scan = toScanOptions(values)
+  if ('error' in scan) {
+    return { success: false, error: scan.error }
+  }
+
+  return {
+    success: true,
+    command: {
+      inputs: positionals.length > 0 ? positionals : ['.'],
+      scan: scan.scan,
+      budget,
+      formats: formats.formats,
+      quality,
+      suggest: !values['no-suggest'],
+      json: values.json ?? null,
+      junit: values.junit ?? null,
+    },
+  }
+}
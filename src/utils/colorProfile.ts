@@ -0,0 +1,320 @@
+// ICC color profiles: compact sRGB and Display P3 profiles to convert outputs
+// to, and reading the profile embedded in a source image
+
+import type { ColorOptions, OutputFormat } from './types'
+
+// Color spaces outputs can be converted to
+export type TargetColorSpace = 'srgb' | 'display-p3'
+
+interface Chromaticity {
+  x: number
+  y: number
+}
+
+interface ColorSpaceDefinition {
+  description: string
+  red: Chromaticity
+  green: Chromaticity
+  blue: Chromaticity
+}
+
+// Both use the D65 white point and the sRGB transfer curve
+const COLOR_SPACES: Record<TargetColorSpace, ColorSpaceDefinition> = {
+  srgb: {
+    description: 'sRGB',
+    red: { x: 0.64, y: 0.33 },
+    green: { x: 0.3, y: 0.6 },
+    blue: { x: 0.15, y: 0.06 },
+  },
+  'display-p3': {
+    description: 'Display P3',
+    red: { x: 0.68, y: 0.32 },
+    green: { x: 0.265, y: 0.69 },
+    blue: { x: 0.15, y: 0.06 },
+  },
+}
+
+const D65: Chromaticity = { x: 0.3127, y: 0.329 }
+
+// ICC profile connection space white (D50)
+const PCS_WHITE: Vec3 = [0.9642, 1, 0.8249]
+
+// Entries in the tone curve; linear interpolation between them stays well below one 8-bit step
+const CURVE_POINTS = 256
+
+// Sources whose primaries span this much more than sRGB count as wide gamut
+const WIDE_GAMUT_RATIO = 1.1
+
+type Vec3 = [number, number, number]
+type Mat3 = [Vec3, Vec3, Vec3]
+
+function toXYZ({ x, y }: Chromaticity): Vec3 {
+  return [x / y, 1, (1 - x - y) / y]
+}
+
+function multiply(m: Mat3, v: Vec3): Vec3 {
+  return [0, 1, 2].map((i) => m[i]![0] * v[0] + m[i]![1] * v[1] + m[i]![2] * v[2]) as Vec3
+}
+
+function invert(m: Mat3): Mat3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g)
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ]
+}
+
+// Bradford cone response matrix for chromatic adaptation
+const BRADFORD: Mat3 = [
+  [0.8951, 0.2664, -0.1614],
+  [-0.7502, 1.7135, 0.0367],
+  [0.0389, -0.0685, 1.0296],
+]
+
+/**
+ * XYZ of the red, green and blue primaries at full intensity, adapted to the
+ * D50 profile connection space as ICC requires
+ */
+function primariesXYZ(space: ColorSpaceDefinition): [Vec3, Vec3, Vec3] {
+  const columns = [toXYZ(space.red), toXYZ(space.green), toXYZ(space.blue)]
+  const matrix: Mat3 = [0, 1, 2].map((row) => columns.map((c) => c[row]!)) as Mat3
+  const scale = multiply(invert(matrix), toXYZ(D65))
+
+  const source = multiply(BRADFORD, toXYZ(D65))
+  const target = multiply(BRADFORD, PCS_WHITE)
+  const adapt = (xyz: Vec3): Vec3 => {
+    const cone = multiply(BRADFORD, xyz)
+    return multiply(invert(BRADFORD), [0, 1, 2].map((i) => (cone[i]! * target[i]!) / source[i]!) as Vec3)
+  }
+
+  return columns.map((c, i) => adapt(c.map((v) => v * scale[i]!) as Vec3)) as [Vec3, Vec3, Vec3]
+}
+
+// sRGB transfer curve: encoded value to linear light
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+}
+
+// ICC tag data, each padded to a 4-byte boundary when the profile is assembled
+function xyzTag(xyz: Vec3): Uint8Array {
+  const data = new Uint8Array(20)
+  const view = new DataView(data.buffer)
+  data.set(ascii('XYZ '), 0)
+  xyz.forEach((v, i) => view.setInt32(8 + i * 4, Math.round(v * 65536)))
+  return data
+}
+
+function curveTag(): Uint8Array {
+  const data = new Uint8Array(12 + CURVE_POINTS * 2)
+  const view = new DataView(data.buffer)
+  data.set(ascii('curv'), 0)
+  view.setUint32(8, CURVE_POINTS)
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    view.setUint16(12 + i * 2, Math.round(srgbToLinear(i / (CURVE_POINTS - 1)) * 65535))
+  }
+  return data
+}
+
+function textDescriptionTag(text: string): Uint8Array {
+  // ASCII part, then empty Unicode and ScriptCode parts (67 bytes of ScriptCode)
+  const data = new Uint8Array(12 + text.length + 1 + 8 + 3 + 67)
+  const view = new DataView(data.buffer)
+  data.set(ascii('desc'), 0)
+  view.setUint32(8, text.length + 1)
+  data.set(ascii(text), 12)
+  return data
+}
+
+function textTag(text: string): Uint8Array {
+  const data = new Uint8Array(8 + text.length + 1)
+  data.set(ascii('text'), 0)
+  data.set(ascii(text), 8)
+  return data
+}
+
+function ascii(text: string): Uint8Array {
+  return new Uint8Array([...text].map((c) => c.charCodeAt(0) & 0x7f))
+}
+
+function buildProfile(space: ColorSpaceDefinition): Uint8Array {
+  const [red, green, blue] = primariesXYZ(space)
+  const curve = curveTag()
+  const tags: [string, Uint8Array][] = [
+    ['desc', textDescriptionTag(space.description)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(PCS_WHITE)],
+    ['rXYZ', xyzTag(red)],
+    ['gXYZ', xyzTag(green)],
+    ['bXYZ', xyzTag(blue)],
+    // The three channels share one curve
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ]
+
+  const padded = (length: number) => Math.ceil(length / 4) * 4
+  let offset = 128 + 4 + tags.length * 12
+  const offsets = new Map<Uint8Array, number>()
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue
+    offsets.set(data, offset)
+    offset += padded(data.length)
+  }
+
+  const profile = new Uint8Array(offset)
+  const view = new DataView(profile.buffer)
+
+  // Header: display class, RGB data, XYZ connection space, version 2.1
+  view.setUint32(0, profile.length)
+  view.setUint32(8, 0x02100000)
+  profile.set(ascii('mntrRGB XYZ '), 12)
+  ;[2024, 1, 1].forEach((v, i) => view.setUint16(24 + i * 2, v))
+  profile.set(ascii('acsp'), 36)
+  PCS_WHITE.forEach((v, i) => view.setInt32(68 + i * 4, Math.round(v * 65536)))
+
+  view.setUint32(128, tags.length)
+  tags.forEach(([signature, data], i) => {
+    const entry = 132 + i * 12
+    profile.set(ascii(signature), entry)
+    view.setUint32(entry + 4, offsets.get(data)!)
+    view.setUint32(entry + 8, data.length)
+  })
+  for (const [data, dataOffset] of offsets) {
+    profile.set(data, dataOffset)
+  }
+
+  return profile
+}
+
+const builtProfiles = new Map<TargetColorSpace, Uint8Array>()
+
+/**
+ * Compact ICC v2 profile (under 1 KB) for a target color space
+ */
+export function getIccProfile(space: TargetColorSpace): Uint8Array {
+  let profile = builtProfiles.get(space)
+  if (!profile) {
+    profile = buildProfile(COLOR_SPACES[space])
+    builtProfiles.set(space, profile)
+  }
+  return profile
+}
+
+/**
+ * Offset and size of a tag in an ICC profile; null when it's missing or out of bounds
+ */
+function findTag(profile: Uint8Array, signature: string): { offset: number; size: number } | null {
+  if (profile.length < 132) return null
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength)
+  if (String.fromCharCode(...profile.subarray(36, 40)) !== 'acsp') return null
+
+  const count = view.getUint32(128)
+  for (let i = 0; i < count && 132 + (i + 1) * 12 <= profile.length; i++) {
+    const entry = 132 + i * 12
+    if (String.fromCharCode(...profile.subarray(entry, entry + 4)) !== signature) continue
+    const offset = view.getUint32(entry + 4)
+    const size = view.getUint32(entry + 8)
+    return offset + size <= profile.length && size >= 8 ? { offset, size } : null
+  }
+  return null
+}
+
+/**
+ * Description of an ICC profile (e.g. "Display P3"); reads v2 and v4 profiles
+ */
+export function readIccDescription(profile: Uint8Array): string | null {
+  const tag = findTag(profile, 'desc')
+  if (!tag) return null
+
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength)
+  const type = String.fromCharCode(...profile.subarray(tag.offset, tag.offset + 4))
+  let text = ''
+
+  if (type === 'desc' && tag.size >= 12) {
+    const length = Math.min(view.getUint32(tag.offset + 8), tag.size - 12)
+    text = String.fromCharCode(...profile.subarray(tag.offset + 12, tag.offset + 12 + length))
+  } else if (type === 'mluc' && tag.size >= 28) {
+    // First localized record: UTF-16BE text
+    const length = view.getUint32(tag.offset + 20)
+    const start = tag.offset + view.getUint32(tag.offset + 24)
+    if (start + length > tag.offset + tag.size) return null
+    for (let i = 0; i + 1 < length; i += 2) {
+      text += String.fromCharCode(view.getUint16(start + i))
+    }
+  }
+
+  text = text.replace(/\0.*$/s, '').trim()
+  return text || null
+}
+
+function readXYZ(profile: Uint8Array, signature: string): Vec3 | null {
+  const tag = findTag(profile, signature)
+  if (!tag || tag.size < 20) return null
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength)
+  return [0, 1, 2].map((i) => view.getInt32(tag.offset + 8 + i * 4) / 65536) as Vec3
+}
+
+// Area of the triangle spanned by the primaries in the xy chromaticity plane
+function gamutArea(primaries: Vec3[]): number {
+  const [a, b, c] = primaries.map(([X, Y, Z]) => ({ x: X / (X + Y + Z), y: Y / (X + Y + Z) }))
+  return Math.abs((b!.x - a!.x) * (c!.y - a!.y) - (c!.x - a!.x) * (b!.y - a!.y)) / 2
+}
+
+/**
+ * Whether an RGB profile's primaries cover notably more than sRGB (Display P3,
+ * Adobe RGB, ProPhoto RGB); false for profiles without primaries, e.g. CMYK
+ */
+export function isWideGamut(profile: Uint8Array): boolean {
+  const primaries = ['rXYZ', 'gXYZ', 'bXYZ'].map((signature) => readXYZ(profile, signature))
+  if (primaries.some((p) => p === null)) return false
+  return gamutArea(primaries as Vec3[]) > gamutArea(primariesXYZ(COLOR_SPACES.srgb)) * WIDE_GAMUT_RATIO
+}
+
+/**
+ * Short name for a source's color space, from its ICC profile description
+ * or, without a profile, its ImageMagick colorspace (untagged RGB is sRGB)
+ */
+export function colorSpaceLabel(description: string | null, colorspace: string | null): string {
+  if (description) {
+    if (/srgb|iec ?61966/i.test(description)) return 'sRGB'
+    if (/display p3|p3/i.test(description)) return 'Display P3'
+    if (/adobe rgb|compatible with adobe/i.test(description)) return 'Adobe RGB'
+    if (/prophoto|romm/i.test(description)) return 'ProPhoto RGB'
+    return description.length > 24 ? `${description.slice(0, 23)}…` : description
+  }
+  if (colorspace && /cmyk/i.test(colorspace)) return 'CMYK'
+  if (colorspace && /gray/i.test(colorspace)) return 'Gray'
+  return 'sRGB'
+}
+
+/**
+ * Whether picking the target needs the source's profile (only wide mode AVIF does)
+ */
+export function needsSourceProfile(color: ColorOptions | undefined, format: OutputFormat): boolean {
+  return color?.mode === 'wide' && format === 'avif'
+}
+
+/**
+ * Color space an output is converted to; null leaves the pixels untouched
+ * Wide mode keeps wide-gamut sources in Display P3 for AVIF, which browsers
+ * that decode AVIF also color-manage
+ */
+export function colorTarget(
+  color: ColorOptions | undefined,
+  format: OutputFormat,
+  sourceProfile: Uint8Array | null
+): TargetColorSpace | null {
+  if (!color || color.mode === 'keep') return null
+  if (needsSourceProfile(color, format) && sourceProfile && isWideGamut(sourceProfile)) return 'display-p3'
+  return 'srgb'
+}
+
+/**
+ * Whether the target profile is embedded; Display P3 outputs always carry it,
+ * since without it they would be shown as sRGB
+ */
+export function embedsProfile(color: ColorOptions | undefined, target: TargetColorSpace | null): boolean {
+  return target === 'display-p3' || (target !== null && color?.embedProfile === true)
+}
@@ -0,0 +1,197 @@
+// Incremental conversion: a cache file remembers which outputs each source
+// produced with which settings, so unchanged sources are skipped on reruns
+
+import { dirname, relative, resolve, sep } from 'node:path'
+import { mkdir } from 'node:fs/promises'
+import type { ProcessOptions, ProcessResult } from './types'
+import { DEFAULT_METADATA_POLICY } from '../constants'
+
+export const CACHE_VERSION = 1
+
+interface CachedOutput {
+  path: string // relative to the cache file
+  hash: string // SHA-256 of the output content
+  quality: number | null
+}
+
+interface CacheEntry {
+  key: string // SHA-256 of the source content and the conversion settings
+  outputs: CachedOutput[]
+}
+
+export interface ConversionCacheData {
+  version: number
+  entries: Record<string, CacheEntry> // keyed by source path relative to the cache file
+}
+
+/**
+ * JSON with object keys sorted, so equal settings always serialize the same
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+/**
+ * The settings that affect what one output contains, besides its format
+ */
+export function encodeSettings(
+  options: Omit<ProcessOptions, 'inputPath' | 'outputFormats' | 'widths' | 'output'>
+): Record<string, unknown> {
+  return {
+    quality: options.quality,
+    targetSize: options.targetSize ?? null,
+    minSsim: options.minSsim ?? null,
+    resizeWidth: options.resizeWidth,
+    resizeHeight: options.resizeHeight,
+    encoder: options.encoder ?? {},
+    metadata: options.metadata ?? DEFAULT_METADATA_POLICY,
+    color: options.color ?? null,
+  }
+}
+
+/**
+ * Every setting that affects which files are written and what they contain
+ * The overwrite policy, manifest and cache locations don't change outputs
+ */
+export function settingsKey(options: Omit<ProcessOptions, 'inputPath'>): string {
+  const { output } = options
+  return stableStringify({
+    version: CACHE_VERSION,
+    formats: options.outputFormats,
+    ...encodeSettings(options),
+    widths: options.widths ?? null,
+    outputDir: output?.outputDir ? resolve(output.outputDir) : null,
+    mirrorTree: output?.mirrorTree ?? false,
+    baseDir: output?.mirrorTree ? resolve(output.baseDir ?? process.cwd()) : null,
+    filenameTemplate: output?.filenameTemplate ?? null,
+  })
+}
+
+async function hashFile(path: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher('sha256')
+  hasher.update(await Bun.file(path).arrayBuffer())
+  return hasher.digest('hex')
+}
+
+/**
+ * Validate cache JSON; anything unrecognized starts an empty cache
+ */
+export function parseCache(data: unknown): ConversionCacheData | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null
+  const { version, entries } = data as Record<string, unknown>
+  if (version !== CACHE_VERSION || typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    return null
+  }
+  return data as ConversionCacheData
+}
+
+export class ConversionCache {
+  // Keys computed by check(), reused when the conversion is recorded
+  private keys = new Map<string, string>()
+
+  private constructor(
+    readonly path: string,
+    private entries: Record<string, CacheEntry>
+  ) {}
+
+  /**
+   * Open the cache file; a missing or unreadable file gives an empty cache
+   */
+  static async load(path: string): Promise<ConversionCache> {
+    const file = Bun.file(path)
+    let data: ConversionCacheData | null = null
+    if (await file.exists()) {
+      try {
+        data = parseCache(await file.json())
+      } catch {
+        data = null
+      }
+    }
+    return new ConversionCache(path, data?.entries ?? {})
+  }
+
+  private toEntryPath(path: string): string {
+    return relative(dirname(resolve(this.path)), resolve(path)).split(sep).join('/')
+  }
+
+  private fromEntryPath(path: string): string {
+    return resolve(dirname(resolve(this.path)), path)
+  }
+
+  /**
+   * Look up a source: when its content and settings match the cache and every
+   * recorded output still exists unchanged, return an up-to-date result
+   */
+  async check(inputPath: string, options: Omit<ProcessOptions, 'inputPath'>): Promise<ProcessResult | null> {
+    const sourceHash = await hashFile(inputPath)
+    const key = new Bun.CryptoHasher('sha256').update(`${sourceHash}:${settingsKey(options)}`).digest('hex')
+    this.keys.set(inputPath, key)
+
+    const entry = this.entries[this.toEntryPath(inputPath)]
+    if (!entry || entry.key !== key || entry.outputs.length === 0) return null
+
+    const outputPaths: string[] = []
+    const outputQualities: Record<string, number> = {}
+    for (const output of entry.outputs) {
+      const path = this.fromEntryPath(output.path)
+      if (!(await Bun.file(path).exists()) || (await hashFile(path)) !== output.hash) {
+        return null
+      }
+      outputPaths.push(path)
+      if (output.quality !== null) outputQualities[path] = output.quality
+    }
+
+    return { success: true, outputPaths, outputQualities, upToDate: true }
+  }
+
+  /**
+   * Remember the outputs of a conversion that fully succeeded
+   * Partial results and outputs kept by the overwrite policy aren't cached,
+   * since they may not match the settings
+   */
+  async record(inputPath: string, result: ProcessResult): Promise<void> {
+    const key = this.keys.get(inputPath)
+    const entryPath = this.toEntryPath(inputPath)
+    if (!key || !result.success || result.error || result.upToDate) return
+    if (result.skippedPaths?.length || !result.outputPaths?.length) {
+      delete this.entries[entryPath]
+      return
+    }
+
+    const outputs: CachedOutput[] = []
+    for (const path of result.outputPaths) {
+      outputs.push({
+        path: this.toEntryPath(path),
+        hash: await hashFile(path),
+        quality: result.outputQualities?.[path] ?? null,
+      })
+    }
+    this.entries[entryPath] = { key, outputs }
+  }
+
+  /**
+   * Write the cache file
+   */
+  async save(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const data: ConversionCacheData = { version: CACHE_VERSION, entries: this.entries }
+      await mkdir(dirname(resolve(this.path)), { recursive: true })
+      await Bun.write(this.path, JSON.stringify(data, null, 2) + '\n')
+      return { success: true }
+    } catch (error) {
+      return {
+        success: false,
+        error: `Could not write cache ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+}
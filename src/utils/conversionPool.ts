@@ -0,0 +1,344 @@
+/**
+ * Worker pool for image conversions
+ * Spreads conversion jobs over a set of Bun workers (one per CPU core by default)
+ * and lets the UI observe queue progress
+ */
+
+import { availableParallelism } from 'node:os'
+import { unlink } from 'node:fs/promises'
+import { partialOutputPath } from './magickShared'
+import type {
+  ConversionJob,
+  ConversionJobResult,
+  ConversionVariantResult,
+  ConversionWorkerMessage,
+} from './conversionWorker'
+
+/**
+ * Snapshot of the pool's queue, published to subscribers on every change
+ * Counters cover the current burst of work and reset once the pool goes idle
+ */
+export interface PoolStats {
+  size: number // max number of workers
+  queued: number
+  running: number
+  completed: number
+  failed: number
+  cancelled: number
+  total: number // jobs submitted since the pool was last idle
+}
+
+export type ConversionJobInput = Omit<ConversionJob, 'id' | 'token'>
+
+interface PendingJob {
+  job: ConversionJob
+  resolve: (result: ConversionJobResult) => void
+  detachSignal?: () => void
+  finished: ConversionVariantResult[] // outputs of a job with variants already in place, by index
+}
+
+interface PoolWorker {
+  worker: Worker
+  current: PendingJob | null
+  pid: number | null // `magick` process of the current shell conversion
+}
+
+// Debug logging
+const DEBUG = Bun.env.DEBUG?.includes('magick') ?? false
+
+function debugLog(message: string, ...args: unknown[]): void {
+  if (DEBUG) {
+    console.log(`[ConversionPool] ${message}`, ...args)
+  }
+}
+
+/**
+ * Default pool size: CPU count, overridable with MAGICK_WORKERS
+ */
+export function getDefaultPoolSize(): number {
+  const override = parseInt(Bun.env.MAGICK_WORKERS ?? '', 10)
+  if (override > 0) return override
+  return Math.max(1, availableParallelism())
+}
+
+export class ConversionPool {
+  private workers: PoolWorker[] = []
+  private queue: PendingJob[] = []
+  private listeners = new Set<(stats: PoolStats) => void>()
+  private nextId = 0
+  private completed = 0
+  private failed = 0
+  private cancelled = 0
+  private total = 0
+
+  constructor(readonly size: number = getDefaultPoolSize()) {}
+
+  /**
+   * Queue a conversion job; resolves when a worker has finished it
+   * Never rejects - worker crashes and cancellations are reported as failed results
+   * Aborting `signal` cancels the job, killing its worker if it is already running
+   */
+  submit(input: ConversionJobInput, signal?: AbortSignal): Promise<ConversionJobResult> {
+    const job: ConversionJob = { ...input, id: ++this.nextId, token: crypto.randomUUID() }
+
+    if (signal?.aborted) {
+      return Promise.resolve(cancelledResult(job))
+    }
+
+    if (this.isIdle()) {
+      this.completed = 0
+      this.failed = 0
+      this.cancelled = 0
+      this.total = 0
+    }
+    this.total++
+
+    const promise = new Promise<ConversionJobResult>((resolve) => {
+      const pending: PendingJob = { job, resolve, finished: [] }
+
+      if (signal) {
+        const onAbort = () => this.cancel(job.id)
+        signal.addEventListener('abort', onAbort, { once: true })
+        pending.detachSignal = () => signal.removeEventListener('abort', onAbort)
+      }
+
+      this.queue.push(pending)
+    })
+
+    this.dispatch()
+    this.notify()
+    return promise
+  }
+
+  /**
+   * Cancel a queued or running job
+   * A running job's worker (and `magick` process) is killed and its partially
+   * written files removed; existing outputs are only replaced once an encode
+   * completes, so they're left alone. Variants already written are kept and
+   * reported in the result. A fresh worker takes its place for later jobs
+   */
+  cancel(jobId: number): void {
+    const queuedIndex = this.queue.findIndex((p) => p.job.id === jobId)
+    if (queuedIndex !== -1) {
+      const [pending] = this.queue.splice(queuedIndex, 1)
+      if (pending) this.settle(pending, cancelledResult(pending.job))
+      this.notify()
+      return
+    }
+
+    const slot = this.workers.find((w) => w.current?.job.id === jobId)
+    if (!slot?.current) return
+
+    const pending = slot.current
+    debugLog(`Cancelling running job ${jobId}`)
+    this.killWorker(slot, jobPartialPaths(pending.job))
+    this.settle(pending, cancelledResult(pending.job, pending.finished))
+    // Defer so jobs sharing the same abort signal are all cancelled before
+    // a replacement worker picks one of them up
+    queueMicrotask(() => this.dispatch())
+    this.notify()
+  }
+
+  /**
+   * Observe queue changes; returns an unsubscribe function
+   */
+  subscribe(listener: (stats: PoolStats) => void): () => void {
+    this.listeners.add(listener)
+    listener(this.getStats())
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStats(): PoolStats {
+    return {
+      size: this.size,
+      queued: this.queue.length,
+      running: this.workers.filter((w) => w.current !== null).length,
+      completed: this.completed,
+      failed: this.failed,
+      cancelled: this.cancelled,
+      total: this.total,
+    }
+  }
+
+  isIdle(): boolean {
+    return this.queue.length === 0 && this.workers.every((w) => w.current === null)
+  }
+
+  /**
+   * Terminate all workers and fail any queued jobs
+   */
+  shutdown(): void {
+    for (const pending of this.queue) {
+      this.settle(pending, { id: pending.job.id, success: false, error: 'Conversion pool shut down' })
+    }
+    this.queue = []
+
+    for (const slot of [...this.workers]) {
+      const pending = slot.current
+      this.killWorker(slot, pending ? jobPartialPaths(pending.job) : [])
+      if (pending) {
+        this.settle(pending, { id: pending.job.id, success: false, error: 'Conversion pool shut down' })
+      }
+    }
+    this.notify()
+  }
+
+  /**
+   * Hand queued jobs to idle workers, spawning new ones up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find((w) => w.current === null)
+      if (!slot) {
+        if (this.workers.length >= this.size) return
+        slot = this.spawnWorker()
+      }
+
+      const pending = this.queue.shift()!
+      slot.current = pending
+      slot.pid = null
+      // Keep the process alive while a job is running
+      slot.worker.ref()
+      slot.worker.postMessage(pending.job)
+      debugLog(`Job ${pending.job.id} started:`, pending.job.outputPath)
+    }
+  }
+
+  private spawnWorker(): PoolWorker {
+    const worker = new Worker(new URL('./conversionWorker.ts', import.meta.url).href)
+    const slot: PoolWorker = { worker, current: null, pid: null }
+
+    worker.onmessage = (event: MessageEvent<ConversionWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'spawned') {
+        if (slot.current?.job.id === message.id) slot.pid = message.pid
+        return
+      }
+      if (message.type === 'variant') {
+        const { type: _type, id, index, ...variant } = message
+        if (slot.current?.job.id === id) slot.current.finished[index] = variant
+        return
+      }
+      const { type: _type, ...result } = message
+      this.finish(slot, result)
+    }
+    worker.onerror = (error) => {
+      debugLog('Worker error:', error)
+      const current = slot.current
+      // A crashed worker can't be trusted with further jobs - replace it
+      worker.terminate()
+      this.workers = this.workers.filter((w) => w !== slot)
+      if (current) {
+        const message = error instanceof ErrorEvent ? error.message : String(error)
+        this.finish(slot, { id: current.job.id, success: false, error: `Worker crashed: ${message}` })
+      }
+    }
+
+    this.workers.push(slot)
+    debugLog(`Spawned worker ${this.workers.length}/${this.size}`)
+    return slot
+  }
+
+  private finish(slot: PoolWorker, result: ConversionJobResult): void {
+    const pending = slot.current
+    if (!pending || pending.job.id !== result.id) return
+
+    slot.current = null
+    slot.pid = null
+    slot.worker.unref()
+
+    this.settle(pending, result)
+    this.dispatch()
+    this.notify()
+  }
+
+  /**
+   * Resolve a job's promise and update the counters
+   */
+  private settle(pending: PendingJob, result: ConversionJobResult): void {
+    pending.detachSignal?.()
+    if (result.success) {
+      this.completed++
+    } else if (result.cancelled) {
+      this.cancelled++
+    } else {
+      this.failed++
+    }
+    pending.resolve(result)
+  }
+
+  /**
+   * Stop a worker mid-job and drop it from the pool
+   * The partial files are removed right away and again once the worker has
+   * exited, since a native encode can't be interrupted and may finish writing
+   */
+  private killWorker(slot: PoolWorker, partialPaths: string[]): void {
+    if (slot.pid !== null) {
+      try {
+        process.kill(slot.pid, 'SIGTERM')
+      } catch {
+        // Process already exited
+      }
+    }
+
+    if (partialPaths.length > 0) {
+      const removePartials = () => Promise.all(partialPaths.map((path) => unlink(path).catch(() => {})))
+      slot.worker.addEventListener('close', removePartials, { once: true })
+      removePartials()
+    }
+
+    slot.worker.terminate()
+    slot.current = null
+    slot.pid = null
+    this.workers = this.workers.filter((w) => w !== slot)
+  }
+
+  private notify(): void {
+    const stats = this.getStats()
+    for (const listener of this.listeners) {
+      listener(stats)
+    }
+  }
+}
+
+/**
+ * Partial files of every output a job writes: its own plus any variants
+ */
+function jobPartialPaths(job: ConversionJob): string[] {
+  return [job.outputPath, ...(job.variants ?? []).map((v) => v.outputPath)].map((path) =>
+    partialOutputPath(path, job.token)
+  )
+}
+
+/**
+ * Result of a cancelled job; one with variants lists those already written
+ * as successful and the rest as cancelled
+ */
+function cancelledResult(job: ConversionJob, finished: ConversionVariantResult[] = []): ConversionJobResult {
+  const result: ConversionJobResult = { id: job.id, success: false, error: 'Cancelled', cancelled: true }
+  if (!job.variants || finished.length === 0) return result
+
+  const outputs = [job, ...job.variants]
+  return {
+    ...result,
+    variants: outputs.map(
+      (output, index) =>
+        finished[index] ?? { outputPath: output.outputPath, success: false, error: 'Cancelled', cancelled: true }
+    ),
+  }
+}
+
+// Shared pool instance
+let poolInstance: ConversionPool | null = null
+
+/**
+ * Get the shared conversion pool (created lazily)
+ */
+export function getConversionPool(): ConversionPool {
+  if (!poolInstance) {
+    poolInstance = new ConversionPool()
+  }
+  return poolInstance
+}
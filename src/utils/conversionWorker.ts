@@ -0,0 +1,280 @@
+/**
+ * Web Worker for image conversion
+ * Runs the (synchronous) FFI conversion in a separate thread so the UI stays responsive
+ */
+
+import { rename, stat, unlink } from 'node:fs/promises'
+import { getMagickFFI, isFFIAvailable } from './magickFFI'
+import { convertWithShell, partialOutputPath } from './magickShared'
+import { chooseQuality } from './qualitySearch'
+import { formatFileSize } from '../constants'
+import type { ColorOptions, EncoderOptions, MetadataPolicy, OutputFormat } from './types'
+
+/**
+ * One output of a conversion job
+ */
+export interface ConversionVariant {
+  outputPath: string
+  format: OutputFormat
+  resizeWidth: number | null
+  resizeHeight: number | null
+}
+
+export interface ConversionJob extends ConversionVariant {
+  id: number
+  token: string // names the partial files outputs are written to, see partialOutputPath
+  inputPath: string
+  quality: number
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy
+  color?: ColorOptions
+  targetSize?: number | null // byte budget; `quality` is searched for instead of used as-is
+  minSsim?: number | null // auto quality: search the lowest quality reaching this SSIM
+  variants?: ConversionVariant[] // further outputs encoded from the same decoded source
+  useFFI: boolean
+}
+
+export interface ConversionVariantResult {
+  outputPath: string
+  success: boolean
+  error?: string
+  cancelled?: boolean
+  quality?: number
+}
+
+export interface ConversionJobResult {
+  id: number
+  success: boolean // every output was written
+  outputPath?: string
+  error?: string
+  cancelled?: boolean
+  quality?: number // quality the output was encoded with
+  variants?: ConversionVariantResult[] // jobs with variants: one per output, the job's own first
+}
+
+/**
+ * Messages posted back to the pool: the `magick` process id as soon as a shell
+ * conversion starts (so it can be killed on cancel), each output of a job with
+ * variants once it's in place (so a cancel can report it), then the final result
+ */
+export type ConversionWorkerMessage =
+  | { type: 'spawned'; id: number; pid: number }
+  | ({ type: 'variant'; id: number; index: number } & ConversionVariantResult)
+  | ({ type: 'result' } & ConversionJobResult)
+
+interface WrittenOutput {
+  success: boolean
+  outputPath?: string
+  error?: string
+  tooLarge?: boolean // encoded fine but over the target size, so retrying won't help
+}
+
+/**
+ * Encode to a partial file next to `outputPath` and rename it into place once
+ * it's complete, so a failed or cancelled conversion leaves an existing output alone
+ * `encode` receives the partial path with an explicit format prefix, since its
+ * extension doesn't name the format
+ */
+async function writeOutput(
+  outputPath: string,
+  format: OutputFormat,
+  token: string,
+  targetSize: number | null | undefined,
+  encode: (path: string) => Promise<{ success: boolean; error?: string }>
+): Promise<WrittenOutput> {
+  const result = await encode(`${format}:${partialOutputPath(outputPath, token)}`)
+  return finishOutput(outputPath, format, token, targetSize, result)
+}
+
+/**
+ * Rename a successfully encoded partial file over `outputPath`, or remove it
+ * Outputs over `targetSize` are rejected too: formats without a quality
+ * setting (PNG) can't be searched into the budget beforehand
+ */
+async function finishOutput(
+  outputPath: string,
+  format: OutputFormat,
+  token: string,
+  targetSize: number | null | undefined,
+  result: { success: boolean; error?: string }
+): Promise<WrittenOutput> {
+  const partial = partialOutputPath(outputPath, token)
+  if (result.success) {
+    try {
+      const { size } = await stat(partial)
+      if (targetSize && size > targetSize) {
+        await unlink(partial).catch(() => {})
+        return {
+          success: false,
+          error: `Cannot fit ${formatFileSize(targetSize)}: ${format.toUpperCase()} output is ${formatFileSize(size)}`,
+          tooLarge: true,
+        }
+      }
+      await rename(partial, outputPath)
+      return { success: true, outputPath }
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Could not write output' }
+    }
+  }
+
+  await unlink(partial).catch(() => {})
+  return { success: false, error: result.error }
+}
+
+/**
+ * Convert a single image to a single format, using FFI with shell fallback
+ */
+async function runConversion(job: ConversionJob): Promise<ConversionJobResult> {
+  if (job.variants) {
+    return runVariants(job, job.variants)
+  }
+
+  const { id, token, inputPath, outputPath, format, resizeWidth, resizeHeight, encoder, metadata, color, useFFI } = job
+
+  const chosen = await chooseQuality(job)
+  if ('error' in chosen) {
+    return { id, success: false, error: chosen.error }
+  }
+  const { quality } = chosen
+
+  // Try FFI first if enabled and available
+  if (useFFI && isFFIAvailable()) {
+    try {
+      const { tooLarge, ...result } = await writeOutput(outputPath, format, token, job.targetSize, async (path) =>
+        getMagickFFI().convertImage({
+          inputPath,
+          format,
+          quality,
+          resizeWidth,
+          resizeHeight,
+          encoder,
+          metadata,
+          color,
+          outputPath: path,
+        })
+      )
+
+      if (result.success || tooLarge) {
+        return { id, ...result, quality }
+      }
+
+      console.warn('[MagickFFI] Conversion failed, falling back to shell:', result.error)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn('[MagickFFI] Exception occurred, falling back to shell:', message)
+    }
+  }
+
+  const { tooLarge: _tooLarge, ...result } = await writeOutput(outputPath, format, token, job.targetSize, (path) =>
+    convertWithShell(
+      inputPath,
+      path,
+      format,
+      quality,
+      resizeWidth,
+      resizeHeight,
+      encoder,
+      metadata,
+      color,
+      (pid) => send({ type: 'spawned', id, pid })
+    )
+  )
+  return { id, ...result, quality }
+}
+
+/**
+ * Convert a single image to several outputs, decoding it only once with FFI
+ * Outputs FFI couldn't write fall back to one shell conversion each
+ */
+async function runVariants(job: ConversionJob, variants: ConversionVariant[]): Promise<ConversionJobResult> {
+  const { id, token, inputPath, encoder, metadata, color, targetSize, useFFI } = job
+  const outputs: ConversionVariant[] = [job, ...variants]
+
+  const qualities: ({ quality: number } | { error: string })[] = []
+  for (const output of outputs) {
+    qualities.push(await chooseQuality({ ...job, ...output }))
+  }
+
+  const results: (ConversionVariantResult | null)[] = outputs.map((output, index) => {
+    const chosen = qualities[index]!
+    return 'error' in chosen ? { outputPath: output.outputPath, success: false, error: chosen.error } : null
+  })
+  const pending = outputs.flatMap((output, index) => {
+    const chosen = qualities[index]!
+    return 'quality' in chosen ? [{ ...output, quality: chosen.quality, index }] : []
+  })
+
+  const record = (index: number, result: ConversionVariantResult) => {
+    results[index] = result
+    if (result.success) send({ type: 'variant', id, index, ...result })
+  }
+
+  if (useFFI && isFFIAvailable() && pending.length > 0) {
+    try {
+      const converted = getMagickFFI().convertImageVariants(
+        inputPath,
+        pending.map(({ index: _index, ...output }) => ({
+          ...output,
+          outputPath: `${output.format}:${partialOutputPath(output.outputPath, token)}`,
+          encoder,
+        })),
+        metadata,
+        color
+      )
+      for (const [i, encoded] of converted.entries()) {
+        const { outputPath, format, quality, index } = pending[i]!
+        const result = await finishOutput(outputPath, format, token, targetSize, encoded)
+        if (result.success || result.tooLarge) {
+          record(index, { outputPath, success: result.success, error: result.error, quality })
+        } else {
+          console.warn('[MagickFFI] Conversion failed, falling back to shell:', result.error)
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn('[MagickFFI] Exception occurred, falling back to shell:', message)
+    }
+  }
+
+  for (const { outputPath, format, resizeWidth, resizeHeight, quality, index } of pending) {
+    if (results[index]) continue
+    const result = await writeOutput(outputPath, format, token, targetSize, (path) =>
+      convertWithShell(
+        inputPath,
+        path,
+        format,
+        quality,
+        resizeWidth,
+        resizeHeight,
+        encoder,
+        metadata,
+        color,
+        (pid) => send({ type: 'spawned', id, pid })
+      )
+    )
+    record(index, { outputPath, success: result.success, error: result.error, quality })
+  }
+
+  const done = results as ConversionVariantResult[]
+  const failed = done.find((r) => !r.success)
+  return {
+    id,
+    success: !failed,
+    outputPath: job.outputPath,
+    error: failed?.error,
+    quality: done[0]?.quality,
+    variants: done,
+  }
+}
+
+// Worker message handler
+declare const self: Worker
+
+function send(message: ConversionWorkerMessage): void {
+  self.postMessage(message)
+}
+
+self.onmessage = async (event: MessageEvent<ConversionJob>) => {
+  const response = await runConversion(event.data)
+  send({ type: 'result', ...response })
+}
@@ -0,0 +1,85 @@
+// Editable encoder settings shown in the advanced panel, one list of fields per output format
+
+import type { ChromaSubsampling, EncoderOptions, OutputFormat } from './types'
+import { resolveEncoderOptions, type ResolvedEncoderOptions } from './magickShared'
+
+export type EncoderValue = string | number | boolean | null
+
+/**
+ * A single setting that is changed by stepping through a fixed list of values
+ */
+export interface EncoderField {
+  key: string
+  label: string
+  values: readonly EncoderValue[]
+  get: (encoder: EncoderOptions) => EncoderValue
+  set: (encoder: EncoderOptions, value: EncoderValue) => EncoderOptions
+  describe?: (value: EncoderValue) => string // display text, defaults to String(value)
+}
+
+const CHROMA_VALUES: readonly ChromaSubsampling[] = ['4:2:0', '4:2:2', '4:4:4']
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i)
+}
+
+function field<F extends OutputFormat, K extends keyof ResolvedEncoderOptions[F] & string>(
+  format: F,
+  key: K,
+  label: string,
+  values: readonly ResolvedEncoderOptions[F][K][],
+  describe?: (value: ResolvedEncoderOptions[F][K]) => string
+): EncoderField {
+  return {
+    key,
+    label,
+    values: values as readonly EncoderValue[],
+    get: (encoder) => resolveEncoderOptions(encoder)[format][key] as EncoderValue,
+    set: (encoder, value) => ({ ...encoder, [format]: { ...encoder[format], [key]: value } }),
+    describe: describe as EncoderField['describe'],
+  }
+}
+
+const onOff = (value: boolean) => (value ? 'on' : 'off')
+
+export const ENCODER_FIELDS: Record<OutputFormat, EncoderField[]> = {
+  webp: [
+    field('webp', 'lossless', 'Lossless', [false, true], onOff),
+    field('webp', 'method', 'Method', range(0, 6)),
+    field('webp', 'alphaQuality', 'Alpha quality', [100, 90, 80, 70, 60, 50]),
+  ],
+  avif: [
+    field('avif', 'speed', 'Speed', range(0, 9)),
+    field('avif', 'chromaSubsampling', 'Chroma', CHROMA_VALUES),
+  ],
+  jxl: [
+    field('jxl', 'effort', 'Effort', range(1, 9)),
+    field('jxl', 'distance', 'Distance', [null, 0, 0.5, 1, 1.5, 2, 3], (v) => (v === null ? 'auto' : String(v))),
+  ],
+  jpg: [
+    field('jpg', 'progressive', 'Progressive', [true, false], onOff),
+    field('jpg', 'chromaSubsampling', 'Chroma', CHROMA_VALUES),
+  ],
+  png: [
+    field('png', 'compressionLevel', 'Level', range(0, 9)),
+    field('png', 'paletteColors', 'Palette', [null, 256, 128, 64, 32, 16], (v) => (v === null ? 'off' : `${v} colors`)),
+  ],
+}
+
+/**
+ * Move a field to the next (1) or previous (-1) value, wrapping around
+ */
+export function stepEncoderField(encoder: EncoderOptions, field: EncoderField, direction: 1 | -1): EncoderOptions {
+  const current = field.values.indexOf(field.get(encoder))
+  const count = field.values.length
+  const next = current === -1 ? 0 : (current + direction + count) % count
+  return field.set(encoder, field.values[next]!)
+}
+
+/**
+ * Display text for a field's current value
+ */
+export function describeEncoderField(encoder: EncoderOptions, field: EncoderField): string {
+  const value = field.get(encoder)
+  return field.describe ? field.describe(value) : String(value)
+}
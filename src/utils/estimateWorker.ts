@@ -3,9 +3,9 @@
  * Runs estimation in a separate thread to avoid blocking the main UI thread
  */
 
-import { getMagickFFI, isFFIAvailable } from './magickFFI'
-import { estimateFileSizeWithTempFile, calculateDecreasePercent } from './magickShared'
-import type { OutputFormat } from './types'
+import { calculateDecreasePercent } from './magickShared'
+import { estimateOutput } from './sizeEstimation'
+import type { ColorOptions, EncoderOptions, MetadataPolicy, OutputFormat, QualityMetrics } from './types'
 
 export interface EstimateRequest {
   id: number
@@ -15,6 +15,10 @@ export interface EstimateRequest {
   quality: number
   resizeWidth: number | null
   resizeHeight: number | null
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy
+  color?: ColorOptions
+  measureQuality?: boolean // also compute SSIM/PSNR for each format
 }
 
 export interface EstimateResponse {
@@ -25,81 +29,40 @@ export interface EstimateResponse {
     estimatedSize: number
     originalSize: number
     decreasePercent: number
+    metrics?: QualityMetrics
   }>
   error?: string
 }
 
-/**
- * Estimate file size for a single format, using FFI with shell fallback
- */
-async function estimateForFormat(
-  inputPath: string,
-  format: OutputFormat,
-  quality: number,
-  resizeWidth: number | null,
-  resizeHeight: number | null,
-  useFFI: boolean
-): Promise<number | undefined> {
-  // Try FFI first if enabled
-  if (useFFI && isFFIAvailable()) {
-    try {
-      const magick = getMagickFFI()
-      const result = magick.estimateFileSize({
-        inputPath,
-        format,
-        quality,
-        resizeWidth,
-        resizeHeight,
-      })
-
-      if (result.success && result.estimatedSize !== undefined) {
-        return result.estimatedSize
-      }
-    } catch {
-      // Fall through to shell
-    }
-  }
-
-  // Fallback to shell
-  const shellResult = await estimateFileSizeWithTempFile(
-    inputPath,
-    format,
-    quality,
-    resizeWidth,
-    resizeHeight
-  )
-
-  if (shellResult.success && shellResult.estimatedSize !== undefined) {
-    return shellResult.estimatedSize
-  }
-
-  return undefined
-}
-
 /**
  * Process estimation request for all formats
  */
 async function processEstimation(request: EstimateRequest): Promise<EstimateResponse> {
-  const { id, inputPath, originalSize, formats, quality, resizeWidth, resizeHeight } = request
+  const { id, inputPath, originalSize, formats, quality, resizeWidth, resizeHeight, encoder, metadata, color, measureQuality } = request
   const useFFI = Bun.env.MAGICK_USE_FFI !== 'false'
   const estimates: EstimateResponse['estimates'] = []
 
   for (const format of formats) {
-    const estimatedSize = await estimateForFormat(
+    const estimate = await estimateOutput(
       inputPath,
       format,
       quality,
       resizeWidth,
       resizeHeight,
-      useFFI
+      encoder,
+      metadata,
+      color,
+      useFFI,
+      measureQuality
     )
 
-    if (estimatedSize !== undefined) {
+    if (estimate !== undefined) {
       estimates.push({
         format,
-        estimatedSize,
+        estimatedSize: estimate.estimatedSize,
         originalSize,
-        decreasePercent: calculateDecreasePercent(originalSize, estimatedSize),
+        decreasePercent: calculateDecreasePercent(originalSize, estimate.estimatedSize),
+        metrics: estimate.metrics,
       })
     }
   }
@@ -1,11 +1,17 @@
 // File scanning utilities for finding and analyzing image files
 
 import { readdir, stat } from 'node:fs/promises'
-import { join, extname, basename } from 'node:path'
+import { join, extname, basename, dirname, relative, resolve, isAbsolute } from 'node:path'
 import { existsSync } from 'node:fs'
-import type { ImageFile, ImageDimensions } from './types'
+import type { ImageDetails, ImageFile, ImageDimensions, ImageInfo, OverwritePolicy, ScanOptions } from './types'
 import { SUPPORTED_INPUT_FORMATS } from '../constants'
 import { getMagickFFI, isFFIAvailable, shouldSwapDimensions } from './magickFFI'
+import { colorSpaceLabel } from './colorProfile'
+import { IMAGE_DETAILS_FORMAT, parseImageDetails } from './magickShared'
+import { parseGitignore, isIgnored, matchesAnyGlob, type IgnoreRule } from './pathFilters'
+
+// Directories never worth descending into during recursive scans
+const ALWAYS_SKIPPED_DIRS = new Set(['.git', 'node_modules'])
 
 // Feature flag: default to true (FFI enabled), can be disabled with MAGICK_USE_FFI=false
 function useFFI(): boolean {
@@ -21,16 +27,16 @@ export function isImageFile(filename: string): boolean {
 }
 
 /**
- * Get image dimensions using shell command (original implementation)
+ * Get image dimensions and color space using shell command
  * Accounts for EXIF orientation to return the displayed dimensions
  */
-async function getImageDimensionsShell(
+async function getImageInfoShell(
   imagePath: string
-): Promise<ImageDimensions | null> {
+): Promise<ImageInfo | null> {
   try {
-    // Get width, height, and EXIF orientation
+    // Get width, height, EXIF orientation, colorspace and the ICC profile's description
     const proc = Bun.spawn(
-      ['magick', 'identify', '-format', '%w %h %[EXIF:Orientation]', imagePath],
+      ['magick', 'identify', '-format', '%w %h %[EXIF:Orientation] %[colorspace]\n%[icc:description]\n', imagePath],
       {
         stdout: 'pipe',
         stderr: 'pipe',
@@ -44,7 +50,8 @@ async function getImageDimensionsShell(
       return null
     }
 
-    const parts = output.trim().split(' ')
+    const [first = '', description = ''] = output.split('\n')
+    const parts = first.trim().split(' ')
     let width = parseInt(parts[0] ?? '0', 10)
     let height = parseInt(parts[1] ?? '0', 10)
     const orientation = parseInt(parts[2] ?? '1', 10)
@@ -58,36 +65,46 @@ async function getImageDimensionsShell(
       ;[width, height] = [height, width]
     }
 
-    return { width, height }
+    return { width, height, colorSpace: colorSpaceLabel(description.trim() || null, parts[3] ?? null) }
   } catch {
     return null
   }
 }
 
 /**
- * Get image dimensions using FFI
+ * Get image dimensions and color space using FFI
  * Accounts for EXIF orientation to return the displayed dimensions
  */
-function getImageDimensionsFFI(imagePath: string): ImageDimensions | null {
+function getImageInfoFFI(imagePath: string): ImageInfo | null {
   const magick = getMagickFFI()
-  return magick.getImageDimensions(imagePath)
+  return magick.getImageInfo(imagePath)
 }
 
 /**
  * Get image dimensions using ImageMagick
- * Uses FFI by default, falls back to shell on failure
  * Accounts for EXIF orientation to return the displayed dimensions
  */
 export async function getImageDimensions(
   imagePath: string
 ): Promise<ImageDimensions | null> {
+  const info = await getImageInfo(imagePath)
+  return info ? { width: info.width, height: info.height } : null
+}
+
+/**
+ * Get image dimensions and color space using ImageMagick
+ * Uses FFI by default, falls back to shell on failure
+ */
+export async function getImageInfo(
+  imagePath: string
+): Promise<ImageInfo | null> {
   const shouldUseFFI = useFFI()
 
   if (shouldUseFFI) {
     try {
       // Check if FFI is available before attempting
       if (isFFIAvailable()) {
-        const result = getImageDimensionsFFI(imagePath)
+        const result = getImageInfoFFI(imagePath)
 
         // If FFI succeeded, return result (even if null - file might not exist)
         if (result !== null) {
@@ -101,53 +118,194 @@ export async function getImageDimensions(
     }
   }
 
-  return getImageDimensionsShell(imagePath)
+  return getImageInfoShell(imagePath)
 }
 
 /**
- * Scan the current directory for image files (fast - no dimensions)
- * Returns files immediately without reading dimensions
+ * Get the details panel properties using shell command
  */
-export async function scanDirectory(dirPath: string): Promise<ImageFile[]> {
+async function getImageDetailsShell(imagePath: string): Promise<ImageDetails | null> {
   try {
-    const entries = await readdir(dirPath)
-
-    // Filter to only image files first
-    const imageEntries = entries.filter(isImageFile)
-
-    // Get stats in parallel (fast)
-    const results = await Promise.all(
-      imageEntries.map(async (entry) => {
-        const fullPath = join(dirPath, entry)
-
-        try {
-          const fileStat = await stat(fullPath)
-          if (!fileStat.isFile()) return null
-
-          return {
-            name: entry,
-            path: fullPath,
-            size: fileStat.size,
-            width: 0, // Will be loaded async
-            height: 0, // Will be loaded async
-            format: extname(entry).toLowerCase().slice(1),
-          } as ImageFile
-        } catch {
-          return null
+    const proc = Bun.spawn(['magick', 'identify', '-format', IMAGE_DETAILS_FORMAT, imagePath], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+
+    const output = await new Response(proc.stdout).text()
+    await proc.exited
+
+    return proc.exitCode === 0 ? parseImageDetails(output) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get the color, EXIF and encoding details of an image for the details panel
+ * Uses FFI by default, falls back to shell on failure
+ */
+export async function getImageDetails(imagePath: string): Promise<ImageDetails | null> {
+  if (useFFI()) {
+    try {
+      if (isFFIAvailable()) {
+        const result = getMagickFFI().getImageDetails(imagePath)
+        if (result !== null) {
+          return result
         }
-      })
-    )
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn('[MagickFFI] Exception occurred, falling back to shell:', message)
+    }
+  }
+
+  return getImageDetailsShell(imagePath)
+}
+
+/**
+ * Scan a directory for image files (fast - no dimensions)
+ * Returns files immediately without reading dimensions
+ * With `recursive`, descends into subdirectories up to `maxDepth`,
+ * honouring .gitignore files and include/exclude globs
+ */
+export async function scanDirectory(dirPath: string, options: ScanOptions = {}): Promise<ImageFile[]> {
+  try {
+    const files: ImageFile[] = []
+    await scanDirectoryLevel(dirPath, '', 0, [], options, files)
 
-    // Filter out nulls and sort by name
-    return results
-      .filter((f): f is ImageFile => f !== null)
-      .sort((a, b) => a.name.localeCompare(b.name))
+    // Sort by relative path (equal to the name for flat scans)
+    return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath))
   } catch (error) {
     console.error('Error scanning directory:', error)
     return []
   }
 }
 
+/**
+ * Scan one directory level, collecting images into `files`
+ */
+async function scanDirectoryLevel(
+  rootPath: string,
+  relativeDir: string,
+  depth: number,
+  parentRules: IgnoreRule[],
+  options: ScanOptions,
+  files: ImageFile[]
+): Promise<void> {
+  const dirPath = relativeDir ? join(rootPath, relativeDir) : rootPath
+  const entries = await readdir(dirPath, { withFileTypes: true })
+
+  const recursive = options.recursive ?? false
+  const maxDepth = options.maxDepth ?? Infinity
+
+  // Pick up this directory's .gitignore on top of the inherited rules
+  let rules = parentRules
+  if (recursive && options.respectGitignore !== false) {
+    const gitignore = Bun.file(join(dirPath, '.gitignore'))
+    if (await gitignore.exists()) {
+      rules = [...parentRules, ...parseGitignore(await gitignore.text(), relativeDir)]
+    }
+  }
+
+  const subdirectories: string[] = []
+
+  // Get stats in parallel (fast)
+  const results = await Promise.all(
+    entries.map(async (entry) => {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+
+      if (entry.isDirectory()) {
+        if (
+          recursive &&
+          depth < maxDepth &&
+          !ALWAYS_SKIPPED_DIRS.has(entry.name) &&
+          !isIgnored(rules, relativePath, true) &&
+          !matchesAnyGlob(options.exclude ?? [], relativePath)
+        ) {
+          subdirectories.push(relativePath)
+        }
+        return null
+      }
+
+      if (!isImageFile(entry.name)) return null
+      if (isIgnored(rules, relativePath, false)) return null
+      if (options.include?.length && !matchesAnyGlob(options.include, relativePath)) return null
+      if (matchesAnyGlob(options.exclude ?? [], relativePath)) return null
+
+      const fullPath = join(dirPath, entry.name)
+
+      try {
+        const fileStat = await stat(fullPath)
+        if (!fileStat.isFile()) return null
+
+        return {
+          name: entry.name,
+          path: fullPath,
+          relativePath,
+          size: fileStat.size,
+          width: 0, // Will be loaded async
+          height: 0, // Will be loaded async
+          format: extname(entry.name).toLowerCase().slice(1),
+        } as ImageFile
+      } catch {
+        return null
+      }
+    })
+  )
+
+  files.push(...results.filter((f): f is ImageFile => f !== null))
+
+  for (const subdirectory of subdirectories) {
+    await scanDirectoryLevel(rootPath, subdirectory, depth + 1, rules, options, files)
+  }
+}
+
+/**
+ * Expand CLI input arguments into image file paths
+ * Accepts plain files, directories (scanned for images) and glob patterns
+ * that the shell did not expand (e.g. quoted "*.png")
+ */
+export async function expandInputPaths(
+  inputs: string[],
+  cwd: string,
+  scanOptions: ScanOptions = {}
+): Promise<string[]> {
+  const paths: string[] = []
+
+  for (const input of inputs) {
+    const fullPath = resolve(cwd, input)
+
+    if (existsSync(fullPath)) {
+      const entryStat = await stat(fullPath)
+      if (entryStat.isDirectory()) {
+        const files = await scanDirectory(fullPath, scanOptions)
+        paths.push(...files.map((f) => f.path))
+      } else {
+        paths.push(fullPath)
+      }
+      continue
+    }
+
+    if (/[*?[{]/.test(input)) {
+      const glob = new Bun.Glob(input)
+      const matches: string[] = []
+      for await (const match of glob.scan({ cwd, onlyFiles: true })) {
+        if (isImageFile(match)) {
+          matches.push(resolve(cwd, match))
+        }
+      }
+      paths.push(...matches.sort((a, b) => a.localeCompare(b)))
+      continue
+    }
+
+    // Keep missing files so the caller can report them as failures
+    paths.push(fullPath)
+  }
+
+  // Drop duplicates while keeping order
+  return [...new Set(paths)]
+}
+
 /**
  * Small delay to yield control back to the event loop
  */
@@ -156,12 +314,12 @@ function yieldToUI(): Promise<void> {
 }
 
 /**
- * Load dimensions for files asynchronously, calling onUpdate for each file
+ * Load dimensions and color spaces for files asynchronously, calling onUpdate for each file
  * Yields to the event loop between files to allow UI updates
  */
 export async function loadDimensionsAsync(
   files: ImageFile[],
-  onUpdate: (index: number, dimensions: ImageDimensions) => void
+  onUpdate: (index: number, info: ImageInfo) => void
 ): Promise<void> {
   for (let i = 0; i < files.length; i++) {
     const file = files[i]
@@ -171,9 +329,9 @@ export async function loadDimensionsAsync(
     await yieldToUI()
     
     try {
-      const dimensions = await getImageDimensions(file.path)
-      if (dimensions) {
-        onUpdate(i, dimensions)
+      const info = await getImageInfo(file.path)
+      if (info) {
+        onUpdate(i, info)
       }
     } catch {
       // Skip files we can't read dimensions for
@@ -182,27 +340,91 @@ export async function loadDimensionsAsync(
 }
 
 /**
- * Generate a unique output path with counter suffix if file exists
+ * Where and under which name a converted file is written
+ */
+export interface OutputPathOptions {
+  outputDir?: string | null // write here instead of next to the input
+  mirrorTree?: boolean // recreate the input's directories (relative to baseDir) below outputDir
+  baseDir?: string // root of the mirrored tree, defaults to the current directory
+  filename?: string // file name (may include subdirectories), defaults to "<name>.<format>"
+  reserved?: ReadonlySet<string> // paths to treat as taken (outputs of in-flight conversions)
+  overwrite?: OverwritePolicy // only 'counter' (the default) avoids existing files
+}
+
+/**
+ * Generate the output path for an input file
+ * A counter suffix is added if the path is the input, is reserved, or already
+ * exists under the 'counter' overwrite policy
  */
 export function generateOutputPath(
   inputPath: string,
-  format: string
+  format: string,
+  options: OutputPathOptions = {}
 ): string {
-  const dir = inputPath.substring(0, inputPath.lastIndexOf('/'))
+  const inputDir = dirname(inputPath)
   const inputName = basename(inputPath)
   const baseName = inputName.substring(0, inputName.lastIndexOf('.'))
 
+  let dir = inputDir
+  if (options.outputDir) {
+    dir = resolve(options.outputDir)
+    if (options.mirrorTree) {
+      const relativeDir = relative(resolve(options.baseDir ?? process.cwd()), inputDir)
+      // Inputs outside the mirrored tree land directly in the output directory
+      if (relativeDir && !relativeDir.startsWith('..') && !isAbsolute(relativeDir)) {
+        dir = join(dir, relativeDir)
+      }
+    }
+  }
+
+  const target = join(dir, options.filename ?? `${baseName}.${format}`)
+  const extension = extname(target)
+  const stem = target.slice(0, target.length - extension.length)
+
   let counter = 0
-  let outputPath = join(dir, `${baseName}.${format}`)
+  let outputPath = target
+
+  const avoidExisting = (options.overwrite ?? 'counter') === 'counter'
 
-  while (existsSync(outputPath)) {
+  // Never write over the input itself (e.g. photo.jpg -> photo.jpg)
+  const source = resolve(inputPath)
+
+  while (
+    (avoidExisting && existsSync(outputPath)) ||
+    options.reserved?.has(outputPath) ||
+    resolve(outputPath) === source
+  ) {
     counter++
-    outputPath = join(dir, `${baseName}-${counter}.${format}`)
+    outputPath = `${stem}-${counter}${extension}`
   }
 
   return outputPath
 }
 
+/**
+ * Check whether an existing output should be kept under the given overwrite policy
+ * 'newer' keeps the output unless the source was modified after it
+ */
+export async function shouldKeepExistingOutput(
+  inputPath: string,
+  outputPath: string,
+  policy: OverwritePolicy
+): Promise<boolean> {
+  if (policy === 'counter' || policy === 'overwrite') return false
+
+  let outputStats
+  try {
+    outputStats = await stat(outputPath)
+  } catch {
+    return false // nothing to keep
+  }
+
+  if (policy === 'skip') return true
+
+  const inputStats = await stat(inputPath)
+  return inputStats.mtimeMs <= outputStats.mtimeMs
+}
+
 /**
  * Check if ImageMagick is installed
  */
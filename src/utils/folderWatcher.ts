@@ -0,0 +1,96 @@
+// Watch mode: observe a scanned directory and hand new or modified images
+// to a callback once their writes have settled
+
+import { watch, type FSWatcher } from 'node:fs'
+import { join, resolve } from 'node:path'
+import type { ImageFile, ScanOptions } from './types'
+import { scanDirectory } from './fileScanner'
+import { WATCH_DEBOUNCE_MS } from '../constants'
+
+export interface WatchOptions {
+  scan?: ScanOptions // same filters as the initial scan
+  debounceMs?: number // quiet time after the last write before a file counts as changed
+  // Convert changed images; returns the paths it wrote so they aren't picked up in turn
+  onChange: (files: ImageFile[]) => Promise<string[] | void>
+  onScan?: (files: ImageFile[]) => void // the directory's images after each change
+  onError?: (error: string) => void
+}
+
+export interface FolderWatcher {
+  ignore: (paths: string[]) => void // skip changes to these paths (outputs written elsewhere)
+  close: () => void
+}
+
+/**
+ * Watch `root` for image writes, debounced per file
+ * Changes are handled one batch at a time: the directory is rescanned (so
+ * .gitignore and include/exclude filters apply) and matching images are
+ * passed to `onChange`. Paths it returns are ignored from then on, since
+ * outputs such as .webp are valid inputs too
+ */
+export function watchFolder(root: string, options: WatchOptions): FolderWatcher {
+  const rootPath = resolve(root)
+  const debounceMs = options.debounceMs ?? WATCH_DEBOUNCE_MS
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+  const ready = new Set<string>()
+  const ignored = new Set<string>()
+  let queue = Promise.resolve()
+  let closed = false
+
+  const flush = async () => {
+    if (closed || ready.size === 0) return
+    const changed = new Set(ready)
+    ready.clear()
+
+    try {
+      const files = await scanDirectory(rootPath, options.scan)
+      if (closed) return
+      options.onScan?.(files)
+
+      const targets = files.filter((f) => changed.has(f.path) && !ignored.has(f.path))
+      if (targets.length === 0) return
+
+      const written = await options.onChange(targets)
+      for (const path of written ?? []) ignored.add(resolve(path))
+    } catch (error) {
+      options.onError?.(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // Restart the file's timer on every event; it's ready once writes stop
+  const schedule = (path: string) => {
+    clearTimeout(timers.get(path))
+    timers.set(
+      path,
+      setTimeout(() => {
+        timers.delete(path)
+        ready.add(path)
+        queue = queue.then(flush)
+      }, debounceMs)
+    )
+  }
+
+  let watcher: FSWatcher
+  try {
+    watcher = watch(rootPath, { recursive: options.scan?.recursive ?? false }, (_event, filename) => {
+      // Non-image events (directories, deletions) still refresh the file list
+      schedule(filename ? join(rootPath, filename.toString()) : rootPath)
+    })
+    watcher.on('error', (error) => options.onError?.(error.message))
+  } catch (error) {
+    options.onError?.(`Could not watch ${rootPath}: ${error instanceof Error ? error.message : String(error)}`)
+    return { ignore: () => {}, close: () => {} }
+  }
+
+  return {
+    ignore: (paths) => {
+      for (const path of paths) ignored.add(resolve(path))
+    },
+    close: () => {
+      closed = true
+      watcher.close()
+      for (const timer of timers.values()) clearTimeout(timer)
+      timers.clear()
+    },
+  }
+}
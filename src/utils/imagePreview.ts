@@ -0,0 +1,270 @@
+// Preview thumbnails and before/after comparisons for the TUI, generated on a
+// worker so moving through the file list never waits on ImageMagick
+
+import type {
+  ColorOptions,
+  CropRegion,
+  EncoderOptions,
+  ImageDimensions,
+  MetadataPolicy,
+  OutputFormat,
+  PreviewProtocol,
+} from './types'
+import type { PreviewWorkerRequest, PreviewWorkerResponse } from './previewWorker'
+
+/**
+ * A thumbnail ready to draw in the preview pane
+ */
+export interface PreviewImage {
+  protocol: PreviewProtocol
+  width: number // pixels
+  height: number
+  columns: number // terminal cells the image covers
+  rows: number
+  data: Uint8Array // PNG (kitty), Sixel sequence (sixel) or RGB pixels (blocks)
+}
+
+export interface PreviewResult {
+  success: boolean
+  image?: PreviewImage
+  error?: string
+}
+
+// 'fit' scales the whole image into the pane, 'actual' shows a 1:1 crop
+export type ComparisonZoom = 'fit' | 'actual'
+
+/**
+ * Encoder settings the comparison renders the encoded side with
+ * With a target size or minimum SSIM, the quality is searched for as in conversion
+ */
+export interface ComparisonSettings {
+  format: OutputFormat
+  quality: number
+  targetSize?: number | null
+  minSsim?: number | null
+  resizeWidth: number | null
+  resizeHeight: number | null
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy
+  color?: ColorOptions
+}
+
+/**
+ * The source and its encoded version, rendered identically for the comparison screen
+ */
+export interface ComparisonImages {
+  original: PreviewImage
+  encoded: PreviewImage
+  encodedSize: number // bytes of the full-size encode
+  quality: number // quality of the encode
+  outputSize: ImageDimensions // image size after the resize
+  region: CropRegion | null // area shown in 'actual' zoom
+}
+
+export interface ComparisonResult {
+  success: boolean
+  images?: ComparisonImages
+  error?: string
+}
+
+// Used when the terminal doesn't report its pixel size
+const DEFAULT_CELL_SIZE: ImageDimensions = { width: 8, height: 16 }
+
+/**
+ * Size of one terminal cell in pixels, from the terminal's pixel resolution
+ */
+export function getCellSize(
+  resolution: ImageDimensions | null,
+  columns: number,
+  rows: number
+): ImageDimensions {
+  if (!resolution || columns <= 0 || rows <= 0 || resolution.width <= 0 || resolution.height <= 0) {
+    return DEFAULT_CELL_SIZE
+  }
+  return { width: resolution.width / columns, height: resolution.height / rows }
+}
+
+/**
+ * Pixel box available to a thumbnail in a pane of `columns` x `rows` cells
+ * Half-blocks draw one pixel per column and two per row
+ */
+export function previewPixelBox(
+  protocol: PreviewProtocol,
+  columns: number,
+  rows: number,
+  cellSize: ImageDimensions
+): ImageDimensions {
+  if (protocol === 'blocks') {
+    return { width: columns, height: rows * 2 }
+  }
+  return {
+    width: Math.floor(columns * cellSize.width),
+    height: Math.floor(rows * cellSize.height),
+  }
+}
+
+/**
+ * Scale an image down to fit a box, keeping its aspect ratio (never enlarges)
+ */
+export function fitPreviewSize(source: ImageDimensions, box: ImageDimensions): ImageDimensions {
+  const scale = Math.min(1, box.width / source.width, box.height / source.height)
+  return {
+    width: Math.max(1, Math.round(source.width * scale)),
+    height: Math.max(1, Math.round(source.height * scale)),
+  }
+}
+
+/**
+ * Terminal cells covered by a thumbnail of the given pixel size
+ */
+export function previewCells(
+  protocol: PreviewProtocol,
+  size: ImageDimensions,
+  cellSize: ImageDimensions
+): { columns: number; rows: number } {
+  if (protocol === 'blocks') {
+    return { columns: size.width, rows: Math.ceil(size.height / 2) }
+  }
+  return {
+    columns: Math.ceil(size.width / cellSize.width),
+    rows: Math.ceil(size.height / cellSize.height),
+  }
+}
+
+/**
+ * Region of `box` size (clamped to the image) centered on `center`, given as
+ * fractions of the image size
+ */
+export function cropRegion(
+  image: ImageDimensions,
+  box: ImageDimensions,
+  center: { x: number; y: number }
+): CropRegion {
+  const width = Math.max(1, Math.min(box.width, image.width))
+  const height = Math.max(1, Math.min(box.height, image.height))
+  const clamp = (value: number, max: number) => Math.min(Math.max(0, Math.round(value)), max)
+
+  return {
+    x: clamp(center.x * image.width - width / 2, image.width - width),
+    y: clamp(center.y * image.height - height / 2, image.height - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * Move a crop center by half a view per step, keeping the view inside the image
+ */
+export function panCrop(
+  center: { x: number; y: number },
+  region: CropRegion,
+  image: ImageDimensions,
+  stepX: number,
+  stepY: number
+): { x: number; y: number } {
+  const move = (value: number, step: number, view: number, size: number) => {
+    const half = Math.min(0.5, view / size / 2)
+    return Math.min(Math.max(half, value + step * half), 1 - half)
+  }
+
+  return {
+    x: move(center.x, stepX, region.width, image.width),
+    y: move(center.y, stepY, region.height, image.height),
+  }
+}
+
+// Worker-based thumbnail generation
+let previewWorker: Worker | null = null
+let requestId = 0
+const pendingRequests = new Map<number, (response: PreviewWorkerResponse) => void>()
+
+function getPreviewWorker(): Worker {
+  if (!previewWorker) {
+    previewWorker = new Worker(new URL('./previewWorker.ts', import.meta.url).href)
+    previewWorker.onmessage = (event: MessageEvent<PreviewWorkerResponse>) => {
+      const resolve = pendingRequests.get(event.data.id)
+      if (resolve) {
+        pendingRequests.delete(event.data.id)
+        resolve(event.data)
+      }
+    }
+  }
+  return previewWorker
+}
+
+function sendRequest(request: PreviewWorkerRequest): Promise<PreviewWorkerResponse> {
+  const worker = getPreviewWorker()
+  return new Promise((resolve) => {
+    pendingRequests.set(request.id, resolve)
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Generate a preview thumbnail on the worker (non-blocking)
+ */
+export function generatePreviewAsync(
+  inputPath: string,
+  protocol: PreviewProtocol,
+  columns: number,
+  rows: number,
+  cellSize: ImageDimensions
+): { promise: Promise<PreviewResult>; id: number } {
+  const id = ++requestId
+  const promise = sendRequest({ type: 'preview', id, inputPath, protocol, columns, rows, cellSize }).then(
+    (response): PreviewResult =>
+      'image' in response && response.image
+        ? { success: true, image: response.image }
+        : { success: false, error: response.error }
+  )
+
+  return { promise, id }
+}
+
+/**
+ * Render the original and encoded versions of an image side by side on the
+ * worker; each side gets a pane of `columns` x `rows` cells
+ * The encode is cached, so panning and zooming only re-render the views
+ */
+export function generateComparisonAsync(
+  inputPath: string,
+  settings: ComparisonSettings,
+  protocol: PreviewProtocol,
+  columns: number,
+  rows: number,
+  cellSize: ImageDimensions,
+  zoom: ComparisonZoom,
+  center: { x: number; y: number }
+): { promise: Promise<ComparisonResult>; id: number } {
+  const id = ++requestId
+  const promise = sendRequest({
+    type: 'compare',
+    id,
+    inputPath,
+    settings,
+    protocol,
+    columns,
+    rows,
+    cellSize,
+    zoom,
+    center,
+  }).then(
+    (response): ComparisonResult =>
+      'images' in response && response.images
+        ? { success: true, images: response.images }
+        : { success: false, error: response.error }
+  )
+
+  return { promise, id }
+}
+
+/**
+ * Cancel a pending preview or comparison request
+ */
+export function cancelPreview(id: number): void {
+  const resolve = pendingRequests.get(id)
+  if (resolve) {
+    pendingRequests.delete(id)
+    resolve({ id, success: false, error: 'Cancelled' })
+  }
+}
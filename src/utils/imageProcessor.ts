@@ -1,9 +1,27 @@
 // ImageMagick processing utilities
 
-import type { ProcessOptions, ProcessResult, OutputFormat } from './types'
-import { generateOutputPath, getImageDimensions } from './fileScanner'
-import { getMagickFFI, isFFIAvailable } from './magickFFI'
-import { buildMagickArgs } from './magickShared'
+import { basename, dirname, extname } from 'node:path'
+import { mkdir } from 'node:fs/promises'
+import type {
+  ColorOptions,
+  EncoderOptions,
+  ImageDimensions,
+  MetadataPolicy,
+  ProcessOptions,
+  ProcessResult,
+  OutputFormat,
+  QualityMetrics,
+  BatchItemResult,
+  BatchProgress,
+  BatchResult,
+} from './types'
+import { generateOutputPath, getImageDimensions, shouldKeepExistingOutput } from './fileScanner'
+import { getConversionPool } from './conversionPool'
+import type { ConversionVariant } from './conversionWorker'
+import { renderFilenameTemplate, templateUses, type TemplateValues } from './outputTemplate'
+import { updateManifest } from './manifest'
+import { ConversionCache, encodeSettings, stableStringify } from './conversionCache'
+import { DEFAULT_OVERWRITE_POLICY, SRCSET_FILENAME_TEMPLATE, formatFileSize } from '../constants'
 
 /**
  * Result of file size estimation for multiple formats
@@ -13,6 +31,7 @@ export interface FileSizeEstimate {
   estimatedSize: number
   originalSize: number
   decreasePercent: number
+  metrics?: QualityMetrics // SSIM/PSNR against the resized source, when measured
 }
 
 export interface EstimateFileSizeResult {
@@ -70,7 +89,11 @@ export function estimateFileSizeAsync(
   formats: OutputFormat[],
   quality: number,
   resizeWidth: number | null,
-  resizeHeight: number | null
+  resizeHeight: number | null,
+  encoder?: EncoderOptions,
+  metadata?: MetadataPolicy,
+  color?: ColorOptions,
+  measureQuality = false
 ): { promise: Promise<EstimateFileSizeResult>; id: number } {
   const id = ++requestId
   const worker = getEstimateWorker()
@@ -85,6 +108,10 @@ export function estimateFileSizeAsync(
       quality,
       resizeWidth,
       resizeHeight,
+      encoder,
+      metadata,
+      color,
+      measureQuality,
     })
   })
 
@@ -130,6 +157,17 @@ export async function validateResize(
     return { valid: false, error: 'Could not read image dimensions' }
   }
 
+  return checkResize(dimensions, resizeWidth, resizeHeight)
+}
+
+/**
+ * Check resize dimensions against an image size; only downscaling is allowed
+ */
+export function checkResize(
+  dimensions: ImageDimensions,
+  resizeWidth: number | null,
+  resizeHeight: number | null
+): ValidationResult {
   const { width, height } = dimensions
 
   if (resizeWidth !== null && resizeWidth > width) {
@@ -150,153 +188,495 @@ export async function validateResize(
 }
 
 /**
- * Convert a single image to a specific format using shell
+ * Split responsive image set widths into those that fit the source and those
+ * that would upscale it
  */
-async function convertToFormatShell(
-  inputPath: string,
-  format: OutputFormat,
-  quality: number,
+export function selectSrcsetWidths(
+  dimensions: ImageDimensions,
+  widths: number[]
+): { widths: number[]; skipped: number[] } {
+  const fits = (width: number) => checkResize(dimensions, width, null).valid
+  return { widths: widths.filter(fits), skipped: widths.filter((w) => !fits(w)) }
+}
+
+/**
+ * Compute the dimensions of the converted image, mirroring the resize logic
+ * in MagickFFI (downscale only, missing side derived from the aspect ratio)
+ */
+export function computeOutputDimensions(
+  source: ImageDimensions,
   resizeWidth: number | null,
   resizeHeight: number | null
-): Promise<{ success: boolean; outputPath?: string; error?: string }> {
-  const outputPath = generateOutputPath(inputPath, format)
-  const args = buildMagickArgs(inputPath, outputPath, quality, resizeWidth, resizeHeight)
+): ImageDimensions {
+  if (!resizeWidth && !resizeHeight) return source
 
-  try {
-    const proc = Bun.spawn(['magick', ...args], {
-      stdout: 'pipe',
-      stderr: 'pipe',
-    })
+  let width = resizeWidth ?? 0
+  let height = resizeHeight ?? 0
 
-    const stderr = await new Response(proc.stderr).text()
-    await proc.exited
+  if (width && !height) {
+    height = Math.round((source.height * width) / source.width)
+  } else if (height && !width) {
+    width = Math.round((source.width * height) / source.height)
+  }
 
-    if (proc.exitCode !== 0) {
-      return {
-        success: false,
-        error: stderr.trim() || `ImageMagick exited with code ${proc.exitCode}`,
-      }
-    }
+  if (width > source.width || height > source.height) return source
+  return { width, height }
+}
 
-    return { success: true, outputPath }
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
+/**
+ * Collect the filename template values for an image
+ * Dimensions and hashes are only computed when the template needs them;
+ * `size` overrides the options' resize for one output of a responsive image set
+ */
+async function buildTemplateValues(
+  options: ProcessOptions,
+  template: string
+): Promise<(format: OutputFormat, size?: ResizeSize) => TemplateValues> {
+  const { inputPath, quality } = options
+  const inputName = basename(inputPath)
+  const base: TemplateValues = {
+    name: inputName.substring(0, inputName.lastIndexOf('.')),
+    ext: extname(inputName).slice(1),
+    quality,
+  }
+
+  const source = templateUses(template, 'width', 'height') ? await getImageDimensions(inputPath) : null
+
+  let sourceDigest: string | null = null
+  if (templateUses(template, 'hash', 'hash8')) {
+    const hasher = new Bun.CryptoHasher('sha256')
+    hasher.update(await Bun.file(inputPath).arrayBuffer())
+    sourceDigest = hasher.digest('hex')
+  }
+
+  return (format, size = options) => {
+    const { resizeWidth, resizeHeight } = size
+    const values: TemplateValues = { ...base, format }
+    if (source) {
+      const output = computeOutputDimensions(source, resizeWidth, resizeHeight)
+      values.width = output.width
+      values.height = output.height
     }
+    if (sourceDigest) {
+      // Settings are part of the hash so different encodes never share a name
+      const settings = stableStringify({ format, ...encodeSettings({ ...options, resizeWidth, resizeHeight }) })
+      const hash = new Bun.CryptoHasher('sha256').update(`${sourceDigest}:${settings}`).digest('hex')
+      values.hash = hash
+      values.hash8 = hash.slice(0, 8)
+    }
+    return values
   }
 }
 
+// Output paths claimed by conversions that haven't written their file yet,
+// so concurrent jobs never pick the same name
+const reservedOutputPaths = new Set<string>()
+
+interface ResizeSize {
+  resizeWidth: number | null
+  resizeHeight: number | null
+}
+
 /**
- * Convert a single image to a specific format using FFI
+ * One output file of processImage
  */
-function convertToFormatFFI(
-  inputPath: string,
-  format: OutputFormat,
-  quality: number,
-  resizeWidth: number | null,
-  resizeHeight: number | null
-): { success: boolean; outputPath?: string; error?: string } {
-  const outputPath = generateOutputPath(inputPath, format)
-  const magick = getMagickFFI()
+interface OutputTarget extends ResizeSize {
+  format: OutputFormat
+  filename?: string // rendered filename template
+  label: string // names the output in error messages, e.g. "WEBP" or "WEBP 480w"
+}
 
-  return magick.convertImage({
-    inputPath,
-    format,
-    quality,
-    resizeWidth,
-    resizeHeight,
-    outputPath,
+interface OutputResult {
+  success: boolean
+  outputPath?: string
+  error?: string
+  cancelled?: boolean
+  skipped?: boolean
+  quality?: number
+}
+
+/**
+ * Pick and reserve the output path for a target; release it with
+ * reservedOutputPaths.delete once the conversion has finished
+ */
+function claimOutputPath(options: ProcessOptions, target: OutputTarget): string {
+  const { inputPath, output } = options
+  const outputPath = generateOutputPath(inputPath, target.format, {
+    outputDir: output?.outputDir,
+    mirrorTree: output?.mirrorTree,
+    baseDir: output?.baseDir,
+    filename: target.filename,
+    reserved: reservedOutputPaths,
+    overwrite: output?.overwrite ?? DEFAULT_OVERWRITE_POLICY,
   })
+  reservedOutputPaths.add(outputPath)
+  return outputPath
 }
 
 /**
- * Convert a single image to a specific format
- * Uses FFI by default, falls back to shell on failure
+ * Convert a single image to a specific format on the worker pool
+ * The worker uses FFI by default and falls back to shell on failure
  */
 async function convertToFormat(
-  inputPath: string,
-  format: OutputFormat,
-  quality: number,
-  resizeWidth: number | null,
-  resizeHeight: number | null
-): Promise<{ success: boolean; outputPath?: string; error?: string }> {
-  // Try FFI first if enabled and available
-  if (shouldUseFFI() && isFFIAvailable()) {
-    try {
-      debugLog('Using FFI for conversion')
-      const result = convertToFormatFFI(inputPath, format, quality, resizeWidth, resizeHeight)
+  options: ProcessOptions,
+  target: OutputTarget,
+  signal?: AbortSignal
+): Promise<OutputResult> {
+  const { inputPath, quality, targetSize, minSsim, encoder, metadata, color, output } = options
+  const { format, resizeWidth, resizeHeight } = target
+  const overwrite = output?.overwrite ?? DEFAULT_OVERWRITE_POLICY
+  const outputPath = claimOutputPath(options, target)
 
-      if (result.success) {
-        return result
-      }
+  try {
+    if (await shouldKeepExistingOutput(inputPath, outputPath, overwrite)) {
+      debugLog(`Keeping existing output ${outputPath} (overwrite policy: ${overwrite})`)
+      return { success: true, outputPath, skipped: true }
+    }
 
-      debugLog('FFI conversion failed:', result.error)
-      console.warn('[MagickFFI] Conversion failed, falling back to shell:', result.error)
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error)
-      debugLog('FFI exception, falling back to shell:', message)
-      console.warn('[MagickFFI] Exception occurred, falling back to shell:', message)
+    await mkdir(dirname(outputPath), { recursive: true })
+
+    const result = await getConversionPool().submit({
+      inputPath,
+      outputPath,
+      format,
+      quality,
+      targetSize,
+      minSsim,
+      resizeWidth,
+      resizeHeight,
+      encoder,
+      metadata,
+      color,
+      useFFI: shouldUseFFI(),
+    }, signal)
+    return {
+      success: result.success,
+      outputPath: result.outputPath,
+      error: result.error,
+      cancelled: result.cancelled,
+      quality: result.quality,
     }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  } finally {
+    reservedOutputPaths.delete(outputPath)
   }
+}
+
+/**
+ * Convert a single image to several outputs in one pool job, so the worker
+ * decodes the source only once
+ */
+async function convertToVariants(
+  options: ProcessOptions,
+  targets: OutputTarget[],
+  signal?: AbortSignal
+): Promise<OutputResult[]> {
+  const { inputPath, quality, targetSize, minSsim, encoder, metadata, color, output } = options
+  const overwrite = output?.overwrite ?? DEFAULT_OVERWRITE_POLICY
+  const outputPaths = targets.map((target) => claimOutputPath(options, target))
+
+  try {
+    const results: OutputResult[] = new Array(targets.length)
+    const variants: (ConversionVariant & { index: number })[] = []
+
+    for (const [index, target] of targets.entries()) {
+      const outputPath = outputPaths[index]!
+      if (await shouldKeepExistingOutput(inputPath, outputPath, overwrite)) {
+        debugLog(`Keeping existing output ${outputPath} (overwrite policy: ${overwrite})`)
+        results[index] = { success: true, outputPath, skipped: true }
+        continue
+      }
+      await mkdir(dirname(outputPath), { recursive: true })
+      const { format, resizeWidth, resizeHeight } = target
+      variants.push({ outputPath, format, resizeWidth, resizeHeight, index })
+    }
 
-  debugLog('Using shell for conversion')
-  return convertToFormatShell(inputPath, format, quality, resizeWidth, resizeHeight)
+    const [first, ...rest] = variants.map(({ index: _index, ...variant }) => variant)
+    if (first) {
+      const result = await getConversionPool().submit({
+        inputPath,
+        ...first,
+        variants: rest,
+        quality,
+        targetSize,
+        minSsim,
+        encoder,
+        metadata,
+        color,
+        useFFI: shouldUseFFI(),
+      }, signal)
+
+      // Crashed jobs, and cancelled ones that hadn't written an output yet,
+      // come back without per-output results
+      variants.forEach(({ index }, i) => {
+        results[index] = result.variants?.[i] ?? { success: false, error: result.error, cancelled: result.cancelled }
+      })
+    }
+
+    return results
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred'
+    return targets.map(() => ({ success: false, error: message }))
+  } finally {
+    for (const outputPath of outputPaths) {
+      reservedOutputPaths.delete(outputPath)
+    }
+  }
 }
 
 /**
  * Process an image with the given options
+ * With `widths`, every width x format combination is written as one
+ * responsive image set; widths that would upscale the source are skipped
+ * Aborting `signal` cancels formats that haven't finished yet
  */
 export async function processImage(
   options: ProcessOptions,
-  onProgress?: (message: string) => void
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
 ): Promise<ProcessResult> {
-  const { inputPath, outputFormats, quality, resizeWidth, resizeHeight } = options
+  const { inputPath, outputFormats, resizeWidth, resizeHeight, widths } = options
+
+  if (signal?.aborted) {
+    return { success: false, error: 'Cancelled', cancelled: true }
+  }
 
-  // Validate resize dimensions
-  const validation = await validateResize(inputPath, resizeWidth, resizeHeight)
-  if (!validation.valid) {
-    return { success: false, error: validation.error }
+  let sizes: ResizeSize[] = [{ resizeWidth, resizeHeight }]
+  let skippedWidths: number[] = []
+
+  if (widths?.length) {
+    const source = await getImageDimensions(inputPath)
+    if (!source) {
+      return { success: false, error: 'Could not read image dimensions' }
+    }
+    const selected = selectSrcsetWidths(source, widths)
+    if (selected.widths.length === 0) {
+      return {
+        success: false,
+        error: `All widths (${widths.map((w) => `${w}px`).join(', ')}) are larger than the image (${source.width}px). Only downscaling is allowed.`,
+      }
+    }
+    sizes = selected.widths.map((width) => ({ resizeWidth: width, resizeHeight: null }))
+    skippedWidths = selected.skipped
+  } else {
+    // Validate resize dimensions
+    const validation = await validateResize(inputPath, resizeWidth, resizeHeight)
+    if (!validation.valid) {
+      return { success: false, error: validation.error }
+    }
   }
 
   const outputPaths: string[] = []
   const errors: string[] = []
 
-  for (const format of outputFormats) {
-    onProgress?.(`Converting to ${format.toUpperCase()}...`)
+  const template = options.output?.filenameTemplate ?? (widths?.length ? SRCSET_FILENAME_TEMPLATE : undefined)
+  let templateValues: ((format: OutputFormat, size?: ResizeSize) => TemplateValues) | null = null
+  if (template) {
+    try {
+      templateValues = await buildTemplateValues(options, template)
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Could not read input image',
+      }
+    }
+  }
 
-    const result = await convertToFormat(
-      inputPath,
+  const targets: OutputTarget[] = sizes.flatMap((size) =>
+    outputFormats.map((format) => ({
+      ...size,
       format,
-      quality,
-      resizeWidth,
-      resizeHeight
+      filename: template && templateValues ? renderFilenameTemplate(template, templateValues(format, size)) : undefined,
+      label: widths?.length ? `${format.toUpperCase()} ${size.resizeWidth}w` : format.toUpperCase(),
+    }))
+  )
+
+  let results: OutputResult[]
+  if (widths?.length) {
+    onProgress?.(`Converting ${targets.length} sizes and formats...`)
+    results = await convertToVariants(options, targets, signal)
+  } else {
+    // Queue every format at once; the pool runs them in parallel
+    results = await Promise.all(
+      targets.map((target) => {
+        onProgress?.(`Converting to ${target.format.toUpperCase()}...`)
+        return convertToFormat(options, target, signal)
+      })
     )
+  }
 
-    if (result.success && result.outputPath) {
+  // Outputs of cancelled jobs are removed by the pool; finished ones are kept
+  if (results.some((r) => r.cancelled)) {
+    return {
+      success: false,
+      outputPaths: results.filter((r) => r.success && r.outputPath).map((r) => r.outputPath!),
+      error: 'Cancelled',
+      cancelled: true,
+    }
+  }
+
+  const skippedPaths: string[] = []
+  const qualities: Partial<Record<OutputFormat, number>> = {}
+  const outputQualities: Record<string, number> = {}
+
+  results.forEach((result, index) => {
+    const target = targets[index]!
+    if (result.skipped && result.outputPath) {
+      skippedPaths.push(result.outputPath)
+    } else if (result.success && result.outputPath) {
       outputPaths.push(result.outputPath)
+      if (result.quality !== undefined) {
+        qualities[target.format] = result.quality
+        outputQualities[result.outputPath] = result.quality
+      }
     } else if (result.error) {
-      errors.push(`${format.toUpperCase()}: ${result.error}`)
+      errors.push(`${target.label}: ${result.error}`)
     }
-  }
+  })
 
-  if (outputPaths.length === 0) {
+  if (outputPaths.length === 0 && skippedPaths.length === 0) {
     return {
       success: false,
       error: errors.join('\n') || 'No images were converted',
     }
   }
 
+  const skipped = skippedPaths.length > 0 ? { skippedPaths } : {}
+  // Only worth reporting when the quality was searched for, and only per
+  // format when there's a single output per format
+  const searched = (options.targetSize || options.minSsim) && !widths?.length ? { qualities } : {}
+  const narrowed = skippedWidths.length > 0 ? { skippedWidths } : {}
+  const encoded = Object.keys(outputQualities).length > 0 ? { outputQualities } : {}
+
   if (errors.length > 0) {
     // Partial success
     return {
       success: true,
       outputPaths,
+      ...skipped,
+      ...searched,
+      ...encoded,
+      ...narrowed,
       error: `Some conversions failed:\n${errors.join('\n')}`,
     }
   }
 
-  return { success: true, outputPaths }
+  // Every output already existed
+  if (outputPaths.length === 0) {
+    return { success: true, outputPaths, skippedPaths, skipped: true, ...narrowed }
+  }
+
+  return { success: true, outputPaths, ...skipped, ...searched, ...encoded, ...narrowed }
+}
+
+/**
+ * Process several images with the same options
+ * Keeps up to one file per pool worker in flight, reports an overall progress
+ * counter and collects per-file results in input order
+ * Aborting `signal` stops the batch; unfinished files are reported as cancelled
+ * With `output.cachePath`, sources the cache shows as unchanged aren't
+ * converted again; the cache and `output.manifestPath` are updated at the end
+ */
+export async function processBatch(
+  inputPaths: string[],
+  options: Omit<ProcessOptions, 'inputPath'>,
+  onProgress?: (progress: BatchProgress) => void,
+  signal?: AbortSignal
+): Promise<BatchResult> {
+  const total = inputPaths.length
+  const results: BatchItemResult[] = new Array(total)
+  let completed = 0
+  let succeeded = 0
+  let failed = 0
+  let cancelled = 0
+  let skipped = 0
+  let upToDate = 0
+  let nextIndex = 0
+
+  const cachePath = options.output?.cachePath
+  const cache = cachePath ? await ConversionCache.load(cachePath) : null
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < total && !signal?.aborted) {
+      const index = nextIndex++
+      const inputPath = inputPaths[index]!
+      const name = basename(inputPath)
+      const startTime = performance.now()
+
+      onProgress?.({ completed, total, inputPath, message: `Converting ${name}...` })
+
+      const cached = await cache?.check(inputPath, options).catch(() => null)
+      const result = cached ?? await processImage(
+        { ...options, inputPath },
+        (message) => onProgress?.({ completed, total, inputPath, message: `${name}: ${message}` }),
+        signal
+      )
+      await cache?.record(inputPath, result).catch(() => {})
+      const item: BatchItemResult = { ...result, inputPath, durationMs: performance.now() - startTime }
+
+      results[index] = item
+      if (result.cancelled) {
+        cancelled++
+        continue
+      }
+
+      completed++
+      if (result.upToDate) {
+        upToDate++
+      } else if (result.skipped) {
+        skipped++
+      } else if (result.success) {
+        succeeded++
+      } else {
+        failed++
+      }
+
+      onProgress?.({
+        completed,
+        total,
+        inputPath,
+        message: result.upToDate
+          ? `${name} is up to date`
+          : result.skipped
+            ? `Skipped ${name}`
+            : result.success
+              ? `Converted ${name}`
+              : `Failed ${name}`,
+        result: item,
+      })
+    }
+  }
+
+  const concurrency = Math.min(total, getConversionPool().size)
+  await Promise.all(Array.from({ length: concurrency }, runNext))
+
+  // Files never started because the batch was cancelled
+  for (let i = 0; i < total; i++) {
+    if (!results[i]) {
+      results[i] = { success: false, error: 'Cancelled', cancelled: true, inputPath: inputPaths[i]! }
+      cancelled++
+    }
+  }
+
+  const batch: BatchResult = { results, succeeded, failed, cancelled, skipped, upToDate }
+
+  if (cache) {
+    const saved = await cache.save()
+    if (!saved.success) batch.cacheError = saved.error
+  }
+
+  // Files that finished before a cancel are recorded too
+  const manifestPath = options.output?.manifestPath
+  if (manifestPath) {
+    const manifest = await updateManifest(manifestPath, results)
+    if (!manifest.success) batch.manifestError = manifest.error
+  }
+
+  return batch
 }
 
 /**
@@ -305,9 +685,17 @@ export async function processImage(
 export function describeProcessing(options: ProcessOptions): string {
   const parts: string[] = []
 
-  parts.push(`Quality: ${options.quality}%`)
+  if (options.targetSize) {
+    parts.push(`Target: ${formatFileSize(options.targetSize)}`)
+  } else if (options.minSsim) {
+    parts.push(`Quality: auto (SSIM ${options.minSsim})`)
+  } else {
+    parts.push(`Quality: ${options.quality}%`)
+  }
 
-  if (options.resizeWidth || options.resizeHeight) {
+  if (options.widths?.length) {
+    parts.push(`Widths: ${options.widths.map((w) => `${w}px`).join(', ')}`)
+  } else if (options.resizeWidth || options.resizeHeight) {
     const w = options.resizeWidth ? `${options.resizeWidth}px` : 'auto'
     const h = options.resizeHeight ? `${options.resizeHeight}px` : 'auto'
     parts.push(`Resize: ${w} x ${h}`)
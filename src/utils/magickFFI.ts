@@ -7,8 +7,37 @@
  * @module magickFFI
  */
 
-import { dlopen, FFIType, CString, ptr, type Pointer } from 'bun:ffi'
-import type { ImageDimensions, OutputFormat } from './types'
+import { dlopen, FFIType, CString, ptr, toArrayBuffer, type Pointer } from 'bun:ffi'
+import type {
+  ColorOptions,
+  CropRegion,
+  EncoderOptions,
+  ImageDetails,
+  ImageDimensions,
+  ImageInfo,
+  MetadataPolicy,
+  OutputFormat,
+  QualityMetrics,
+  ThumbnailFormat,
+} from './types'
+import {
+  cameraName,
+  getEncoderDefines,
+  keepsIccProfile,
+  metadataRemovalPattern,
+  resolveEncoderOptions,
+  usesQuality,
+} from './magickShared'
+import {
+  colorSpaceLabel,
+  colorTarget,
+  embedsProfile,
+  getIccProfile,
+  needsSourceProfile,
+  readIccDescription,
+  type TargetColorSpace,
+} from './colorProfile'
+import { DEFAULT_METADATA_POLICY } from '../constants'
 
 // Debug logging
 const DEBUG = Bun.env.DEBUG?.includes('magick') ?? false
@@ -72,6 +101,41 @@ export enum FilterType {
   LanczosRadiusFilter = 30,
 }
 
+/**
+ * Interlace schemes; PlaneInterlace makes JPEGs progressive
+ */
+export enum InterlaceType {
+  UndefinedInterlace = 0,
+  NoInterlace = 1,
+  LineInterlace = 2,
+  PlaneInterlace = 3,
+}
+
+/**
+ * Alpha channel operations (subset)
+ */
+export enum AlphaChannelOption {
+  RemoveAlphaChannel = 12, // composite onto the background color
+}
+
+/**
+ * Dither methods used when quantizing colors
+ */
+export enum DitherMethod {
+  UndefinedDitherMethod = 0,
+  NoDitherMethod = 1,
+  RiemersmaDitherMethod = 2,
+  FloydSteinbergDitherMethod = 3,
+}
+
+/**
+ * Comparison metrics (ImageMagick 7 numbering)
+ */
+export enum MetricType {
+  PeakSignalToNoiseRatioErrorMetric = 8,
+  StructuralSimilarityErrorMetric = 11,
+}
+
 /**
  * Options for image conversion
  */
@@ -81,6 +145,9 @@ export interface ConvertOptions {
   quality: number
   resizeWidth?: number | null
   resizeHeight?: number | null
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy
+  color?: ColorOptions
   outputPath: string
 }
 
@@ -93,6 +160,10 @@ export interface EstimateOptions {
   quality: number
   resizeWidth?: number | null
   resizeHeight?: number | null
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy
+  color?: ColorOptions
+  measureQuality?: boolean // also compare the decoded encode against the source
 }
 
 /**
@@ -101,6 +172,30 @@ export interface EstimateOptions {
 export interface EstimateResult {
   success: boolean
   estimatedSize?: number // Size in bytes
+  metrics?: QualityMetrics // when measureQuality was requested and succeeded
+  error?: string
+}
+
+/**
+ * Options for a preview thumbnail: the image is read from a file (with the
+ * conversion's resize applied) or decoded from an encoded blob, then either
+ * scaled to exactly `width` x `height` or cropped 1:1 to `crop`
+ */
+export type ThumbnailOptions = ({ inputPath: string } | { blob: Uint8Array }) & {
+  resizeWidth?: number | null
+  resizeHeight?: number | null
+  width: number
+  height: number
+  crop?: CropRegion
+  format: ThumbnailFormat
+}
+
+/**
+ * Result of an in-memory encode (thumbnails and full encodes)
+ */
+export interface BlobResult {
+  success: boolean
+  data?: Uint8Array // encoded image (or raw RGB pixels)
   error?: string
 }
 
@@ -113,6 +208,51 @@ export interface ConvertResult {
   error?: string
 }
 
+/**
+ * Color conversion and metadata handling of one output
+ */
+interface OutputProfile {
+  target: TargetColorSpace | null // null leaves colors untouched
+  embed: boolean
+  metadata?: MetadataPolicy
+}
+
+// ColorspaceType values without an RGB profile that are worth naming
+const COLORSPACE_NAMES: Record<number, string> = { 2: 'CMYK', 3: 'Gray' }
+
+// CompressionType names in enum order, as `identify -format %C` prints them
+const COMPRESSION_NAMES = [
+  'Undefined',
+  'B44A',
+  'B44',
+  'BZip',
+  'DXT1',
+  'DXT3',
+  'DXT5',
+  'Fax',
+  'Group4',
+  'JBIG1',
+  'JBIG2',
+  'JPEG2000',
+  'JPEG',
+  'LosslessJPEG',
+  'LZMA',
+  'LZW',
+  'None',
+  'Piz',
+  'Pxr24',
+  'RLE',
+  'Zip',
+  'ZipS',
+  'Zstd',
+  'WebP',
+  'DWAA',
+  'DWAB',
+  'BC7',
+  'BC5',
+  'LERC',
+]
+
 /**
  * Configuration for the MagickFFI instance
  */
@@ -145,6 +285,14 @@ const MAGICK_SYMBOLS = {
     args: [FFIType.ptr] as const,
     returns: FFIType.void,
   },
+  CloneMagickWand: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.ptr,
+  },
+  MagickSetFirstIterator: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.void,
+  },
 
   // Image I/O
   MagickReadImage: {
@@ -155,6 +303,10 @@ const MAGICK_SYMBOLS = {
     args: [FFIType.ptr, FFIType.ptr] as const,
     returns: FFIType.bool,
   },
+  MagickReadImageBlob: {
+    args: [FFIType.ptr, FFIType.ptr, FFIType.u64] as const, // (wand, blob, length)
+    returns: FFIType.bool,
+  },
 
   // Image properties
   MagickGetImageWidth: {
@@ -169,6 +321,34 @@ const MAGICK_SYMBOLS = {
     args: [FFIType.ptr] as const,
     returns: FFIType.i32,
   },
+  MagickGetImageColorspace: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.i32,
+  },
+  MagickGetImageProfile: {
+    args: [FFIType.ptr, FFIType.ptr, FFIType.ptr] as const, // (wand, name, &length) -> profile data
+    returns: FFIType.ptr,
+  },
+  MagickGetImageProperty: {
+    args: [FFIType.ptr, FFIType.ptr] as const, // (wand, name) -> value, null when unset
+    returns: FFIType.ptr,
+  },
+  MagickGetImageDepth: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.u64,
+  },
+  MagickGetImageAlphaChannel: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.bool,
+  },
+  MagickGetImageCompression: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.i32,
+  },
+  MagickGetNumberImages: {
+    args: [FFIType.ptr] as const,
+    returns: FFIType.u64,
+  },
 
   // Image operations
   MagickAutoOrientImage: {
@@ -179,6 +359,10 @@ const MAGICK_SYMBOLS = {
     args: [FFIType.ptr] as const,
     returns: FFIType.bool,
   },
+  MagickProfileImage: {
+    args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u64] as const, // (wand, name, profile, length)
+    returns: FFIType.bool,
+  },
   MagickSetImageCompressionQuality: {
     args: [FFIType.ptr, FFIType.u64] as const,
     returns: FFIType.bool,
@@ -191,6 +375,47 @@ const MAGICK_SYMBOLS = {
     args: [FFIType.ptr, FFIType.ptr] as const,
     returns: FFIType.bool,
   },
+  MagickThumbnailImage: {
+    args: [FFIType.ptr, FFIType.u64, FFIType.u64] as const,
+    returns: FFIType.bool,
+  },
+  MagickCropImage: {
+    args: [FFIType.ptr, FFIType.u64, FFIType.u64, FFIType.i64, FFIType.i64] as const, // (wand, w, h, x, y)
+    returns: FFIType.bool,
+  },
+  MagickResetImagePage: {
+    args: [FFIType.ptr, FFIType.ptr] as const,
+    returns: FFIType.bool,
+  },
+  MagickSetImageDepth: {
+    args: [FFIType.ptr, FFIType.u64] as const,
+    returns: FFIType.bool,
+  },
+  MagickSetImageInterlaceScheme: {
+    args: [FFIType.ptr, FFIType.i32] as const,
+    returns: FFIType.bool,
+  },
+  MagickSetImageAlphaChannel: {
+    args: [FFIType.ptr, FFIType.i32] as const,
+    returns: FFIType.bool,
+  },
+  MagickQuantizeImage: {
+    // (wand, colors, colorspace, treedepth, dither, measure_error)
+    args: [FFIType.ptr, FFIType.u64, FFIType.i32, FFIType.u64, FFIType.i32, FFIType.bool] as const,
+    returns: FFIType.bool,
+  },
+
+  MagickCompareImages: {
+    // (wand, reference, metric, &distortion) -> difference image wand
+    args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr] as const,
+    returns: FFIType.ptr,
+  },
+
+  // Coder options (-define key=value)
+  MagickSetOption: {
+    args: [FFIType.ptr, FFIType.ptr, FFIType.ptr] as const,
+    returns: FFIType.bool,
+  },
 
   // Blob operations (for in-memory conversion)
   MagickGetImageBlob: {
@@ -388,7 +613,8 @@ export class MagickFFI {
 
   /**
    * Shared image preparation logic for conversion and estimation
-   * Handles: read, auto-orient, strip metadata, set quality, resize, set format
+   * Handles: read, auto-orient, color conversion, strip or filter metadata,
+   * resize, set quality, format-specific encoder settings, set format
    */
   private prepareImageForOutput(
     wand: Pointer,
@@ -396,8 +622,46 @@ export class MagickFFI {
     format: OutputFormat,
     quality: number,
     resizeWidth: number | null | undefined,
-    resizeHeight: number | null | undefined
+    resizeHeight: number | null | undefined,
+    encoder: EncoderOptions | undefined,
+    metadata: MetadataPolicy | undefined,
+    color: ColorOptions | undefined
+  ): { success: true } | { success: false; error: string } {
+    const loadResult = this.loadImageForOutput(wand, inputPath, resizeWidth, resizeHeight, { format, metadata, color })
+    if (!loadResult.success) {
+      return loadResult
+    }
+
+    return this.applyOutputSettings(wand, format, quality, encoder)
+  }
+
+  /**
+   * Read and auto-orient the source, convert its colors and strip (or filter)
+   * metadata for `output`, then resize it; without `output` metadata is stripped
+   * The result is the reference that quality metrics compare encodes against
+   */
+  private loadImageForOutput(
+    wand: Pointer,
+    inputPath: string,
+    resizeWidth: number | null | undefined,
+    resizeHeight: number | null | undefined,
+    output?: { format: OutputFormat; metadata?: MetadataPolicy; color?: ColorOptions }
   ): { success: true } | { success: false; error: string } {
+    const readResult = this.readSourceImage(wand, inputPath)
+    if (!readResult.success) {
+      return readResult
+    }
+
+    const target = output ? this.outputColorTarget(wand, output.color, output.format) : null
+    this.applyOutputProfile(wand, { target, embed: embedsProfile(output?.color, target), metadata: output?.metadata })
+
+    return this.resizeImage(wand, resizeWidth, resizeHeight)
+  }
+
+  /**
+   * Read the source image and rotate it upright
+   */
+  private readSourceImage(wand: Pointer, inputPath: string): { success: true } | { success: false; error: string } {
     if (!this.lib) {
       return { success: false, error: 'MagickFFI not initialized' }
     }
@@ -417,19 +681,124 @@ export class MagickFFI {
       debugLog('Warning: Auto-orient failed')
     }
 
-    // Strip metadata
-    const stripResult = this.lib.symbols.MagickStripImage(wand)
-    if (!stripResult) {
-      debugLog('Warning: Strip metadata failed')
+    return { success: true }
+  }
+
+  /**
+   * ICC profile embedded in the loaded image; null when it has none
+   */
+  private readIccProfile(wand: Pointer): Uint8Array | null {
+    if (!this.lib) return null
+
+    const lengthBuffer = new BigUint64Array(1)
+    const profilePtr = this.lib.symbols.MagickGetImageProfile(wand, toCString('icc'), lengthBuffer)
+    if (!profilePtr) return null
+
+    try {
+      const length = Number(lengthBuffer[0])
+      return length > 0 ? new Uint8Array(toArrayBuffer(profilePtr, 0, length)).slice() : null
+    } finally {
+      this.lib.symbols.MagickRelinquishMemory(profilePtr)
     }
+  }
 
-    // Set quality
-    const qualityResult = this.lib.symbols.MagickSetImageCompressionQuality(wand, quality)
-    if (!qualityResult) {
-      debugLog('Warning: Set quality failed')
+  /**
+   * Image property such as "exif:Make"; null when it's unset or empty
+   */
+  private readImageProperty(wand: Pointer, name: string): string | null {
+    if (!this.lib) return null
+
+    const valuePtr = this.lib.symbols.MagickGetImageProperty(wand, toCString(name))
+    if (!valuePtr) return null
+
+    try {
+      return new CString(valuePtr).toString().trim() || null
+    } finally {
+      this.lib.symbols.MagickRelinquishMemory(valuePtr)
+    }
+  }
+
+  /**
+   * Color space label of a loaded image, see colorSpaceLabel
+   */
+  private readColorSpace(wand: Pointer, profileName: string | null): string {
+    const colorspace = this.lib ? COLORSPACE_NAMES[this.lib.symbols.MagickGetImageColorspace(wand)] : undefined
+    return colorSpaceLabel(profileName, colorspace ?? null)
+  }
+
+  /**
+   * Color space to convert a loaded image to for an output format
+   */
+  private outputColorTarget(
+    wand: Pointer,
+    color: ColorOptions | undefined,
+    format: OutputFormat
+  ): TargetColorSpace | null {
+    const sourceProfile = needsSourceProfile(color, format) ? this.readIccProfile(wand) : null
+    return colorTarget(color, format, sourceProfile)
+  }
+
+  /**
+   * Convert colors to the target profile, apply the metadata policy and put
+   * the target profile back if it was dropped, mirroring buildMagickArgs
+   */
+  private applyOutputProfile(wand: Pointer, profile: OutputProfile): void {
+    const metadata = profile.metadata ?? DEFAULT_METADATA_POLICY
+    if (profile.target) {
+      this.setIccProfile(wand, profile.target)
+    }
+    this.applyMetadataPolicy(wand, metadata)
+    if (profile.target && profile.embed && !keepsIccProfile(metadata)) {
+      this.setIccProfile(wand, profile.target)
+    }
+  }
+
+  /**
+   * Convert from the embedded profile to a target profile; an untagged image
+   * is assigned the profile as-is
+   */
+  private setIccProfile(wand: Pointer, target: TargetColorSpace): void {
+    if (!this.lib) return
+
+    const profile = getIccProfile(target)
+    if (!this.lib.symbols.MagickProfileImage(wand, toCString('icc'), profile, profile.length)) {
+      debugLog(`Warning: Converting to ${target} failed:`, this.getException(wand))
+    }
+  }
+
+  /**
+   * Strip metadata or remove the profiles a policy doesn't keep, mirroring buildMetadataArgs
+   */
+  private applyMetadataPolicy(wand: Pointer, metadata: MetadataPolicy): void {
+    if (!this.lib) return
+
+    if (metadata === 'strip') {
+      if (!this.lib.symbols.MagickStripImage(wand)) {
+        debugLog('Warning: Strip metadata failed')
+      }
+      return
+    }
+
+    // Without profile data, MagickProfileImage removes the profiles matching the pattern (like +profile)
+    const pattern = metadataRemovalPattern(metadata)
+    if (pattern && !this.lib.symbols.MagickProfileImage(wand, toCString(pattern), null, 0)) {
+      debugLog(`Warning: Removing profiles ${pattern} failed`)
+    }
+  }
+
+  /**
+   * Downscale a loaded image; a missing side follows the aspect ratio and
+   * sizes that would enlarge the image are ignored
+   */
+  private resizeImage(
+    wand: Pointer,
+    resizeWidth: number | null | undefined,
+    resizeHeight: number | null | undefined
+  ): { success: true } | { success: false; error: string } {
+    if (!this.lib) {
+      return { success: false, error: 'MagickFFI not initialized' }
     }
 
-    // Resize if specified
     if (resizeWidth || resizeHeight) {
       const currentWidth = Number(this.lib.symbols.MagickGetImageWidth(wand))
       const currentHeight = Number(this.lib.symbols.MagickGetImageHeight(wand))
@@ -461,6 +830,35 @@ export class MagickFFI {
       }
     }
 
+    return { success: true }
+  }
+
+  /**
+   * Set quality, encoder options and output format on a loaded image
+   */
+  private applyOutputSettings(
+    wand: Pointer,
+    format: OutputFormat,
+    quality: number,
+    encoder: EncoderOptions | undefined
+  ): { success: true } | { success: false; error: string } {
+    if (!this.lib) {
+      return { success: false, error: 'MagickFFI not initialized' }
+    }
+
+    // Set quality
+    if (usesQuality(format)) {
+      const qualityResult = this.lib.symbols.MagickSetImageCompressionQuality(wand, quality)
+      if (!qualityResult) {
+        debugLog('Warning: Set quality failed')
+      }
+    }
+
+    const encoderResult = this.applyEncoderOptions(wand, format, encoder)
+    if (!encoderResult.success) {
+      return encoderResult
+    }
+
     // Set output format
     const formatCStr = toCString(format.toUpperCase())
     const formatResult = this.lib.symbols.MagickSetImageFormat(wand, formatCStr)
@@ -472,11 +870,69 @@ export class MagickFFI {
     return { success: true }
   }
 
+  /**
+   * Apply format-specific encoder settings, mirroring buildMagickArgs
+   */
+  private applyEncoderOptions(
+    wand: Pointer,
+    format: OutputFormat,
+    encoder: EncoderOptions | undefined
+  ): { success: true } | { success: false; error: string } {
+    if (!this.lib) {
+      return { success: false, error: 'MagickFFI not initialized' }
+    }
+
+    const resolved = resolveEncoderOptions(encoder)
+
+    if (format === 'jpg') {
+      // JPEG has no alpha channel: flatten transparent areas onto the (white) background
+      if (!this.lib.symbols.MagickSetImageAlphaChannel(wand, AlphaChannelOption.RemoveAlphaChannel)) {
+        debugLog('Warning: Removing alpha channel failed')
+      }
+
+      const interlace = resolved.jpg.progressive ? InterlaceType.PlaneInterlace : InterlaceType.NoInterlace
+      if (!this.lib.symbols.MagickSetImageInterlaceScheme(wand, interlace)) {
+        debugLog('Warning: Set interlace scheme failed')
+      }
+    }
+
+    if (format === 'png' && resolved.png.paletteColors) {
+      const quantizeResult = this.lib.symbols.MagickQuantizeImage(
+        wand,
+        resolved.png.paletteColors,
+        0, // UndefinedColorspace: keep the image's colorspace
+        0, // optimal tree depth
+        DitherMethod.FloydSteinbergDitherMethod,
+        false
+      )
+      if (!quantizeResult) {
+        const error = this.getException(wand)
+        return { success: false, error: error ?? 'Failed to quantize image' }
+      }
+    }
+
+    for (const [key, value] of Object.entries(getEncoderDefines(format, encoder))) {
+      if (!this.lib.symbols.MagickSetOption(wand, toCString(key), toCString(value))) {
+        debugLog(`Warning: Set option ${key}=${value} failed`)
+      }
+    }
+
+    return { success: true }
+  }
+
   /**
    * Get image dimensions from a file
    * Accounts for EXIF orientation to return displayed dimensions
    */
   getImageDimensions(imagePath: string): ImageDimensions | null {
+    const info = this.getImageInfo(imagePath)
+    return info ? { width: info.width, height: info.height } : null
+  }
+
+  /**
+   * Get the displayed dimensions and the color space of an image file
+   */
+  getImageInfo(imagePath: string): ImageInfo | null {
     if (!this.lib) {
       throw new Error('MagickFFI not initialized')
     }
@@ -508,7 +964,50 @@ export class MagickFFI {
         ;[width, height] = [height, width]
       }
 
-      return { width, height }
+      const profile = this.readIccProfile(wand)
+      const colorSpace = this.readColorSpace(wand, profile ? readIccDescription(profile) : null)
+
+      return { width, height, colorSpace }
+    } finally {
+      this.destroyWand(wand)
+    }
+  }
+
+  /**
+   * Get the color, EXIF and encoding details of an image file
+   */
+  getImageDetails(imagePath: string): ImageDetails | null {
+    if (!this.lib) {
+      throw new Error('MagickFFI not initialized')
+    }
+
+    const wand = this.createWand()
+    try {
+      const readResult = this.lib.symbols.MagickReadImage(wand, toCString(imagePath))
+      if (!readResult) {
+        const error = this.getException(wand)
+        debugLog('Failed to read image:', error)
+        return null
+      }
+      // Reading leaves the wand on the last frame; describe the first
+      this.lib.symbols.MagickSetFirstIterator(wand)
+
+      const profile = this.readIccProfile(wand)
+      const profileName = profile ? readIccDescription(profile) : null
+      const compression = COMPRESSION_NAMES[this.lib.symbols.MagickGetImageCompression(wand)]
+
+      return {
+        colorSpace: this.readColorSpace(wand, profileName),
+        bitDepth: Number(this.lib.symbols.MagickGetImageDepth(wand)),
+        hasAlpha: this.lib.symbols.MagickGetImageAlphaChannel(wand),
+        profileName,
+        camera: cameraName(this.readImageProperty(wand, 'exif:Make'), this.readImageProperty(wand, 'exif:Model')),
+        lens: this.readImageProperty(wand, 'exif:LensModel'),
+        dateTaken: this.readImageProperty(wand, 'exif:DateTimeOriginal'),
+        orientation: this.lib.symbols.MagickGetImageOrientation(wand) || OrientationType.TopLeftOrientation,
+        frames: Number(this.lib.symbols.MagickGetNumberImages(wand)),
+        compression: compression && compression !== 'Undefined' ? compression : null,
+      }
     } finally {
       this.destroyWand(wand)
     }
@@ -522,35 +1021,126 @@ export class MagickFFI {
       throw new Error('MagickFFI not initialized')
     }
 
-    const { inputPath, format, quality, resizeWidth, resizeHeight, outputPath } = options
+    const { inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color, outputPath } = options
 
-    debugLog('Converting image:', { inputPath, format, quality, resizeWidth, resizeHeight, outputPath })
+    debugLog('Converting image:', { inputPath, format, quality, resizeWidth, resizeHeight, metadata, color, outputPath })
 
     const wand = this.createWand()
     try {
-      // Prepare image (read, orient, strip, quality, resize, format)
+      // Prepare image (read, orient, color, strip, quality, resize, format)
       const prepResult = this.prepareImageForOutput(
-        wand, inputPath, format, quality, resizeWidth, resizeHeight
+        wand, inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color
       )
       if (!prepResult.success) {
         return { success: false, error: prepResult.error }
       }
 
-      // Write output image
-      const outputCStr = toCString(outputPath)
-      const writeResult = this.lib.symbols.MagickWriteImage(wand, outputCStr)
-      if (!writeResult) {
-        const error = this.getException(wand)
-        return { success: false, error: error ?? 'Failed to write output image' }
+      return this.writeImage(wand, outputPath)
+    } finally {
+      this.destroyWand(wand)
+    }
+  }
+
+  /**
+   * Convert an image to several outputs (e.g. the widths and formats of a
+   * responsive image set), reading and decoding the source only once
+   * Each output is encoded from its own copy of the decoded image; results
+   * are returned in the order of `outputs`. `metadata` and `color` apply to all
+   * of them; colors are converted once unless the formats need different targets
+   */
+  convertImageVariants(
+    inputPath: string,
+    outputs: Omit<ConvertOptions, 'inputPath' | 'metadata' | 'color'>[],
+    metadata?: MetadataPolicy,
+    color?: ColorOptions
+  ): ConvertResult[] {
+    if (!this.lib) {
+      throw new Error('MagickFFI not initialized')
+    }
+
+    debugLog('Converting image variants:', { inputPath, outputs: outputs.length })
+
+    const source = this.createWand()
+    try {
+      const readResult = this.readSourceImage(source, inputPath)
+      if (!readResult.success) {
+        return outputs.map(() => ({ success: false, error: readResult.error }))
+      }
+
+      const profiles: OutputProfile[] = outputs.map((output) => {
+        const target = this.outputColorTarget(source, color, output.format)
+        return { target, embed: embedsProfile(color, target), metadata }
+      })
+      const shared = profiles.every((p) => p.target === profiles[0]?.target)
+      if (shared && profiles[0]) {
+        this.applyOutputProfile(source, profiles[0])
       }
 
-      debugLog('Conversion successful:', outputPath)
-      return { success: true, outputPath }
+      return outputs.map((output, i) => this.convertVariant(source, output, shared ? undefined : profiles[i]))
+    } finally {
+      this.destroyWand(source)
+    }
+  }
+
+  /**
+   * Resize, encode and write a copy of a loaded source image, converting its
+   * colors and metadata first when `profile` is given
+   */
+  private convertVariant(
+    source: Pointer,
+    options: Omit<ConvertOptions, 'inputPath' | 'metadata' | 'color'>,
+    profile?: OutputProfile
+  ): ConvertResult {
+    if (!this.lib) {
+      return { success: false, error: 'MagickFFI not initialized' }
+    }
+
+    const { format, quality, resizeWidth, resizeHeight, encoder, outputPath } = options
+
+    const wand = this.lib.symbols.CloneMagickWand(source)
+    if (!wand) {
+      return { success: false, error: 'Failed to copy image' }
+    }
+
+    try {
+      if (profile) {
+        this.applyOutputProfile(wand, profile)
+      }
+
+      const resizeResult = this.resizeImage(wand, resizeWidth, resizeHeight)
+      if (!resizeResult.success) {
+        return { success: false, error: resizeResult.error }
+      }
+
+      const settingsResult = this.applyOutputSettings(wand, format, quality, encoder)
+      if (!settingsResult.success) {
+        return { success: false, error: settingsResult.error }
+      }
+
+      return this.writeImage(wand, outputPath)
     } finally {
       this.destroyWand(wand)
     }
   }
 
+  /**
+   * Write the wand's image to a file in its current format
+   */
+  private writeImage(wand: Pointer, outputPath: string): ConvertResult {
+    if (!this.lib) {
+      return { success: false, error: 'MagickFFI not initialized' }
+    }
+
+    const writeResult = this.lib.symbols.MagickWriteImage(wand, toCString(outputPath))
+    if (!writeResult) {
+      const error = this.getException(wand)
+      return { success: false, error: error ?? 'Failed to write output image' }
+    }
+
+    debugLog('Conversion successful:', outputPath)
+    return { success: true, outputPath }
+  }
+
   /**
    * Estimate the output file size without writing to disk
    * Uses MagickGetImageBlob to get the compressed data in memory
@@ -560,18 +1150,27 @@ export class MagickFFI {
       throw new Error('MagickFFI not initialized')
     }
 
-    const { inputPath, format, quality, resizeWidth, resizeHeight } = options
+    const { inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color, measureQuality } = options
 
     debugLog('Estimating file size:', { inputPath, format, quality, resizeWidth, resizeHeight })
 
     const wand = this.createWand()
+    let reference: Pointer | null = null
     try {
-      // Prepare image (read, orient, strip, quality, resize, format)
-      const prepResult = this.prepareImageForOutput(
-        wand, inputPath, format, quality, resizeWidth, resizeHeight
-      )
-      if (!prepResult.success) {
-        return { success: false, error: prepResult.error }
+      // Prepare image (read, orient, color, strip, resize, quality, format),
+      // keeping a copy of the resized source to compare the encode against
+      const loadResult = this.loadImageForOutput(wand, inputPath, resizeWidth, resizeHeight, { format, metadata, color })
+      if (!loadResult.success) {
+        return { success: false, error: loadResult.error }
+      }
+
+      if (measureQuality) {
+        reference = this.lib.symbols.CloneMagickWand(wand)
+      }
+
+      const settingsResult = this.applyOutputSettings(wand, format, quality, encoder)
+      if (!settingsResult.success) {
+        return { success: false, error: settingsResult.error }
       }
 
       // Get the image as a blob (in memory, no disk write)
@@ -588,13 +1187,163 @@ export class MagickFFI {
 
       // Free the blob memory (in try-finally for safety)
       try {
-        return { success: true, estimatedSize }
+        const metrics = reference ? this.measureEncodeQuality(reference, blobPtr, estimatedSize) : null
+        return metrics ? { success: true, estimatedSize, metrics } : { success: true, estimatedSize }
       } finally {
         this.lib.symbols.MagickRelinquishMemory(blobPtr)
       }
     } finally {
       this.destroyWand(wand)
+      if (reference) this.destroyWand(reference)
+    }
+  }
+
+  /**
+   * Encode an image exactly as a conversion would, but into memory
+   */
+  encodeImage(options: EstimateOptions): BlobResult {
+    if (!this.lib) {
+      throw new Error('MagickFFI not initialized')
+    }
+
+    const { inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color } = options
+
+    const wand = this.createWand()
+    try {
+      const prepResult = this.prepareImageForOutput(
+        wand, inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color
+      )
+      if (!prepResult.success) {
+        return { success: false, error: prepResult.error }
+      }
+
+      return this.copyImageBlob(wand)
+    } finally {
+      this.destroyWand(wand)
+    }
+  }
+
+  /**
+   * Encode a small, oriented copy of an image in memory for the preview pane
+   */
+  createThumbnail(options: ThumbnailOptions): BlobResult {
+    if (!this.lib) {
+      throw new Error('MagickFFI not initialized')
+    }
+
+    const { width, height, crop, format } = options
+
+    const wand = this.createWand()
+    try {
+      if ('blob' in options) {
+        if (!this.lib.symbols.MagickReadImageBlob(wand, options.blob, options.blob.length)) {
+          const error = this.getException(wand)
+          return { success: false, error: error ?? 'Failed to decode image' }
+        }
+      } else {
+        const loadResult = this.loadImageForOutput(wand, options.inputPath, options.resizeWidth, options.resizeHeight)
+        if (!loadResult.success) {
+          return loadResult
+        }
+      }
+
+      if (crop) {
+        if (!this.lib.symbols.MagickCropImage(wand, crop.width, crop.height, crop.x, crop.y)) {
+          const error = this.getException(wand)
+          return { success: false, error: error ?? 'Failed to crop image' }
+        }
+        // Drop the crop offset so the region is encoded as a standalone image
+        this.lib.symbols.MagickResetImagePage(wand, toCString(''))
+      } else if (!this.lib.symbols.MagickThumbnailImage(wand, width, height)) {
+        const error = this.getException(wand)
+        return { success: false, error: error ?? 'Failed to scale image' }
+      }
+
+      if (format === 'RGB') {
+        // Raw pixels: 3 bytes per pixel, transparency flattened onto the background
+        if (!this.lib.symbols.MagickSetImageAlphaChannel(wand, AlphaChannelOption.RemoveAlphaChannel)) {
+          debugLog('Warning: Removing alpha channel failed')
+        }
+        if (!this.lib.symbols.MagickSetImageDepth(wand, 8)) {
+          debugLog('Warning: Set image depth failed')
+        }
+      }
+
+      if (!this.lib.symbols.MagickSetImageFormat(wand, toCString(format))) {
+        const error = this.getException(wand)
+        return { success: false, error: error ?? `Failed to set format to ${format}` }
+      }
+
+      return this.copyImageBlob(wand)
+    } finally {
+      this.destroyWand(wand)
+    }
+  }
+
+  /**
+   * Encode the wand's image in its current format and copy the bytes out of
+   * ImageMagick's memory
+   */
+  private copyImageBlob(wand: Pointer): BlobResult {
+    if (!this.lib) {
+      return { success: false, error: 'MagickFFI not initialized' }
     }
+
+    const lengthBuffer = new BigUint64Array(1)
+    const blobPtr = this.lib.symbols.MagickGetImageBlob(wand, lengthBuffer)
+    if (!blobPtr) {
+      const error = this.getException(wand)
+      return { success: false, error: error ?? 'Failed to get image blob' }
+    }
+
+    try {
+      const data = new Uint8Array(toArrayBuffer(blobPtr, 0, Number(lengthBuffer[0]))).slice()
+      return { success: true, data }
+    } finally {
+      this.lib.symbols.MagickRelinquishMemory(blobPtr)
+    }
+  }
+
+  /**
+   * Decode an encoded blob and compare it with the reference image
+   * Returns null when the blob can't be decoded or compared
+   */
+  private measureEncodeQuality(reference: Pointer, blob: Pointer, length: number): QualityMetrics | null {
+    if (!this.lib) return null
+
+    const decoded = this.createWand()
+    try {
+      if (!this.lib.symbols.MagickReadImageBlob(decoded, blob, length)) {
+        debugLog('Warning: Decoding blob for comparison failed:', this.getException(decoded))
+        return null
+      }
+
+      const ssim = this.compareImages(decoded, reference, MetricType.StructuralSimilarityErrorMetric)
+      const psnr = this.compareImages(decoded, reference, MetricType.PeakSignalToNoiseRatioErrorMetric)
+      if (ssim === null || psnr === null) return null
+
+      debugLog(`Quality metrics: SSIM ${ssim}, PSNR ${psnr} dB`)
+      return { ssim, psnr }
+    } finally {
+      this.destroyWand(decoded)
+    }
+  }
+
+  /**
+   * Compute a single comparison metric between two images
+   */
+  private compareImages(wand: Pointer, reference: Pointer, metric: MetricType): number | null {
+    if (!this.lib) return null
+
+    const distortion = new Float64Array(1)
+    const difference = this.lib.symbols.MagickCompareImages(wand, reference, metric, distortion)
+    if (!difference) {
+      debugLog('Warning: Compare failed:', this.getException(wand))
+      return null
+    }
+
+    this.destroyWand(difference)
+    return distortion[0] ?? null
   }
 }
 
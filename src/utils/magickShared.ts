@@ -1,8 +1,131 @@
 // Shared ImageMagick utilities used by both main thread and worker
 // This file contains pure functions with no dependencies on worker-specific or main-thread-specific APIs
 
-import { unlink } from 'node:fs/promises'
-import type { OutputFormat } from './types'
+import { rename, unlink } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type {
+  ColorOptions,
+  CropRegion,
+  EncoderOptions,
+  ImageDetails,
+  MetadataPolicy,
+  OutputFormat,
+  QualityMetrics,
+  ThumbnailFormat,
+} from './types'
+import {
+  colorSpaceLabel,
+  colorTarget,
+  embedsProfile,
+  getIccProfile,
+  needsSourceProfile,
+  type TargetColorSpace,
+} from './colorProfile'
+import {
+  DEFAULT_AVIF_OPTIONS,
+  DEFAULT_JPEG_OPTIONS,
+  DEFAULT_JXL_OPTIONS,
+  DEFAULT_METADATA_POLICY,
+  DEFAULT_PNG_OPTIONS,
+  DEFAULT_WEBP_OPTIONS,
+} from '../constants'
+
+/**
+ * Format-specific encoder settings with defaults filled in
+ */
+export function resolveEncoderOptions(encoder: EncoderOptions = {}) {
+  return {
+    webp: { ...DEFAULT_WEBP_OPTIONS, ...encoder.webp },
+    avif: { ...DEFAULT_AVIF_OPTIONS, ...encoder.avif },
+    jxl: { ...DEFAULT_JXL_OPTIONS, ...encoder.jxl },
+    jpg: { ...DEFAULT_JPEG_OPTIONS, ...encoder.jpg },
+    png: { ...DEFAULT_PNG_OPTIONS, ...encoder.png },
+  }
+}
+
+export type ResolvedEncoderOptions = ReturnType<typeof resolveEncoderOptions>
+
+/**
+ * ImageMagick coder defines (`-define key=value`) for an output format
+ */
+export function getEncoderDefines(format: OutputFormat, encoder?: EncoderOptions): Record<string, string> {
+  const resolved = resolveEncoderOptions(encoder)
+
+  switch (format) {
+    case 'webp':
+      return {
+        'webp:lossless': String(resolved.webp.lossless),
+        'webp:method': String(resolved.webp.method),
+        'webp:alpha-quality': String(resolved.webp.alphaQuality),
+      }
+    case 'avif':
+      // AVIF is written by ImageMagick's HEIC coder
+      return {
+        'heic:speed': String(resolved.avif.speed),
+        'heic:chroma': resolved.avif.chromaSubsampling.replace(/:/g, ''),
+      }
+    case 'jxl': {
+      const defines: Record<string, string> = { 'jxl:effort': String(resolved.jxl.effort) }
+      if (resolved.jxl.distance !== null) {
+        defines['jxl:distance'] = String(resolved.jxl.distance)
+      }
+      return defines
+    }
+    case 'jpg':
+      return { 'jpeg:sampling-factor': resolved.jpg.chromaSubsampling }
+    case 'png':
+      return { 'png:compression-level': String(resolved.png.compressionLevel) }
+  }
+}
+
+/**
+ * Whether the quality setting affects the output of a format
+ * PNG is lossless; its size is controlled by the compression level instead
+ */
+export function usesQuality(format: OutputFormat): boolean {
+  return format !== 'png'
+}
+
+/**
+ * Profiles a metadata policy removes, as an ImageMagick profile pattern where
+ * "!name" spares a profile; null for policies that strip or keep everything
+ * EXIF and IPTC are also found in Photoshop's 8BIM block, so it's kept with them
+ */
+export function metadataRemovalPattern(metadata: MetadataPolicy): string | null {
+  switch (metadata) {
+    case 'icc':
+      return '!icc,!icm,*'
+    case 'copyright':
+      return '!exif,!iptc,!8bim,!xmp,*'
+    default:
+      return null
+  }
+}
+
+/**
+ * Whether a metadata policy keeps the ICC profile
+ */
+export function keepsIccProfile(metadata: MetadataPolicy = DEFAULT_METADATA_POLICY): boolean {
+  return metadata === 'icc' || metadata === 'all'
+}
+
+/**
+ * ImageMagick arguments applying a metadata policy
+ */
+export function buildMetadataArgs(metadata: MetadataPolicy = DEFAULT_METADATA_POLICY): string[] {
+  if (metadata === 'strip') return ['-strip']
+  const pattern = metadataRemovalPattern(metadata)
+  return pattern ? ['+profile', pattern] : []
+}
+
+/**
+ * Conversion to a target ICC profile, stored in a file for the `magick` CLI
+ */
+export interface ColorTransform {
+  profilePath: string
+  embed: boolean // keep the target profile in the output even when the metadata policy drops it
+}
 
 /**
  * Build ImageMagick command arguments for conversion/estimation
@@ -10,20 +133,34 @@ import type { OutputFormat } from './types'
 export function buildMagickArgs(
   inputPath: string,
   outputPath: string,
+  format: OutputFormat,
   quality: number,
   resizeWidth: number | null,
-  resizeHeight: number | null
+  resizeHeight: number | null,
+  encoder?: EncoderOptions,
+  metadata?: MetadataPolicy,
+  color?: ColorTransform | null
 ): string[] {
   const args: string[] = [inputPath]
 
   // Auto-orient based on EXIF data (preserves orientation)
   args.push('-auto-orient')
 
-  // Strip metadata for smaller file size
-  args.push('-strip')
+  // Convert from the embedded profile (an untagged image is assigned the profile)
+  if (color) {
+    args.push('-profile', color.profilePath)
+  }
+
+  // Strip or filter metadata, then put the target profile back if it was dropped
+  args.push(...buildMetadataArgs(metadata))
+  if (color?.embed && !keepsIccProfile(metadata)) {
+    args.push('-profile', color.profilePath)
+  }
 
   // Set quality
-  args.push('-quality', quality.toString())
+  if (usesQuality(format)) {
+    args.push('-quality', quality.toString())
+  }
 
   // Add resize if specified (with > flag to only shrink, never enlarge)
   if (resizeWidth !== null || resizeHeight !== null) {
@@ -32,23 +169,362 @@ export function buildMagickArgs(
     args.push('-resize', `${widthStr}x${heightStr}>`)
   }
 
+  const resolved = resolveEncoderOptions(encoder)
+
+  if (format === 'jpg') {
+    // JPEG has no alpha channel: flatten transparent areas onto white
+    args.push('-background', 'white', '-alpha', 'remove', '-alpha', 'off')
+    args.push('-interlace', resolved.jpg.progressive ? 'Plane' : 'None')
+  }
+
+  if (format === 'png' && resolved.png.paletteColors) {
+    args.push('-dither', 'FloydSteinberg', '-colors', resolved.png.paletteColors.toString())
+  }
+
+  for (const [key, value] of Object.entries(getEncoderDefines(format, encoder))) {
+    args.push('-define', `${key}=${value}`)
+  }
+
   args.push(outputPath)
 
   return args
 }
 
+/**
+ * Temporary sibling a conversion is written to before it's renamed over
+ * `outputPath`; the ".tmp" extension keeps scans and watch mode from listing it
+ */
+export function partialOutputPath(outputPath: string, token: string): string {
+  return `${outputPath}.${token}.tmp`
+}
+
+/**
+ * Convert an image by running the `magick` CLI
+ * `onSpawn` receives the process id so callers can kill a cancelled conversion
+ */
+export async function convertWithShell(
+  inputPath: string,
+  outputPath: string,
+  format: OutputFormat,
+  quality: number,
+  resizeWidth: number | null,
+  resizeHeight: number | null,
+  encoder?: EncoderOptions,
+  metadata?: MetadataPolicy,
+  color?: ColorOptions,
+  onSpawn?: (pid: number) => void
+): Promise<{ success: boolean; outputPath?: string; error?: string }> {
+  try {
+    const transform = await resolveColorTransform(inputPath, format, color)
+    const args = buildMagickArgs(
+      inputPath, outputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, transform
+    )
+
+    const proc = Bun.spawn(['magick', ...args], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+    onSpawn?.(proc.pid)
+
+    const stderr = await new Response(proc.stderr).text()
+    await proc.exited
+
+    if (proc.exitCode !== 0) {
+      return {
+        success: false,
+        error: stderr.trim() || `ImageMagick exited with code ${proc.exitCode}`,
+      }
+    }
+
+    return { success: true, outputPath }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Build ImageMagick arguments that print the distortion between an encoded file
+ * and its source, which is oriented, color converted and resized the same way
+ * as for conversion
+ */
+export function buildCompareArgs(
+  encodedPath: string,
+  inputPath: string,
+  resizeWidth: number | null,
+  resizeHeight: number | null,
+  metric: 'SSIM' | 'PSNR',
+  color?: ColorTransform | null
+): string[] {
+  const reference = [inputPath, '-auto-orient']
+  if (color) {
+    reference.push('-profile', color.profilePath)
+  }
+  if (resizeWidth !== null || resizeHeight !== null) {
+    reference.push('-resize', `${resizeWidth ?? ''}x${resizeHeight ?? ''}>`)
+  }
+
+  return [encodedPath, '(', ...reference, ')', '-metric', metric, '-compare', '-format', '%[distortion]', 'info:']
+}
+
+/**
+ * Compare an encoded file with its source using the `magick` CLI
+ * Returns null when the comparison fails
+ */
+export async function compareWithShell(
+  encodedPath: string,
+  inputPath: string,
+  resizeWidth: number | null,
+  resizeHeight: number | null,
+  metric: 'SSIM' | 'PSNR',
+  color?: ColorTransform | null
+): Promise<number | null> {
+  const args = buildCompareArgs(encodedPath, inputPath, resizeWidth, resizeHeight, metric, color)
+
+  try {
+    const proc = Bun.spawn(['magick', ...args], { stdout: 'pipe', stderr: 'pipe' })
+    const stdout = await new Response(proc.stdout).text()
+    await proc.exited
+    // Exit code 1 only means the images differ
+    if (proc.exitCode !== 0 && proc.exitCode !== 1) return null
+
+    return parseDistortion(stdout)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a distortion value printed by ImageMagick ("0.9731", "inf" for identical PSNR)
+ */
+export function parseDistortion(output: string): number | null {
+  const text = output.trim().toLowerCase()
+  if (text === 'inf' || text === '1.#inf') return Infinity
+
+  const value = parseFloat(text)
+  return Number.isNaN(value) ? null : value
+}
+
+/**
+ * Camera name from EXIF make and model, e.g. "Canon" + "Canon EOS R5" -> "Canon EOS R5"
+ */
+export function cameraName(make: string | null, model: string | null): string | null {
+  if (!make || !model) return model || make || null
+  return model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`
+}
+
+// `identify -format` escapes for the details panel, one per line; repeated for each frame
+export const IMAGE_DETAILS_FORMAT = [
+  '%[colorspace]',
+  '%z',
+  '%A',
+  '%[icc:description]',
+  '%[EXIF:Make]',
+  '%[EXIF:Model]',
+  '%[EXIF:LensModel]',
+  '%[EXIF:DateTimeOriginal]',
+  '%[EXIF:Orientation]',
+  '%C',
+  '%n',
+].join('\n') + '\n'
+
+/**
+ * Parse the first frame of `identify -format IMAGE_DETAILS_FORMAT` output
+ */
+export function parseImageDetails(output: string): ImageDetails | null {
+  const lines = output.split('\n').map((line) => line.trim())
+  if (lines.length < 11) return null
+
+  const [colorspace, depth, alpha, description, make, model, lens, date, orientation, compression, frames] = lines
+  const bitDepth = parseInt(depth!, 10)
+  if (isNaN(bitDepth)) return null
+
+  const profileName = description || null
+  return {
+    colorSpace: colorSpaceLabel(profileName, colorspace || null),
+    bitDepth,
+    // IM7 prints the alpha trait ("Blend", "Undefined"), IM6 "True" or "False"
+    hasAlpha: !/^(false|undefined|)$/i.test(alpha!),
+    profileName,
+    camera: cameraName(make || null, model || null),
+    lens: lens || null,
+    dateTaken: date || null,
+    orientation: parseInt(orientation!, 10) || 1,
+    frames: parseInt(frames!, 10) || 1,
+    compression: compression && compression !== 'Undefined' ? compression : null,
+  }
+}
+
+/**
+ * Build ImageMagick CLI arguments that write a preview thumbnail to stdout
+ * The image is scaled to exactly `width` x `height`, or cropped 1:1 to `crop`;
+ * `resizeWidth`/`resizeHeight` apply the conversion's resize first
+ */
+export function buildThumbnailArgs(
+  inputPath: string,
+  width: number,
+  height: number,
+  format: ThumbnailFormat,
+  options: { resizeWidth?: number | null; resizeHeight?: number | null; crop?: CropRegion } = {}
+): string[] {
+  const { resizeWidth = null, resizeHeight = null, crop } = options
+  const args = [inputPath, '-auto-orient']
+
+  if (resizeWidth !== null || resizeHeight !== null) {
+    args.push('-resize', `${resizeWidth ?? ''}x${resizeHeight ?? ''}>`)
+  }
+
+  if (crop) {
+    args.push('-crop', `${crop.width}x${crop.height}+${crop.x}+${crop.y}`, '+repage')
+  } else {
+    args.push('-thumbnail', `${width}x${height}!`)
+  }
+
+  if (format === 'RGB') {
+    args.push('-alpha', 'remove', '-alpha', 'off', '-depth', '8')
+  }
+
+  args.push(`${format}:-`)
+  return args
+}
+
+/**
+ * Run `magick` and collect what it writes to stdout, optionally feeding it an
+ * image on stdin (input path "-")
+ */
+async function runMagickToBuffer(
+  args: string[],
+  stdin?: Uint8Array
+): Promise<{ success: boolean; data?: Uint8Array; error?: string }> {
+  try {
+    const proc = Bun.spawn(['magick', ...args], {
+      stdin: stdin ?? 'ignore',
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+
+    const [data, stderr] = await Promise.all([
+      new Response(proc.stdout).arrayBuffer(),
+      new Response(proc.stderr).text(),
+    ])
+    await proc.exited
+
+    if (proc.exitCode !== 0) {
+      return { success: false, error: stderr.trim() || `ImageMagick exited with code ${proc.exitCode}` }
+    }
+
+    return { success: true, data: new Uint8Array(data) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * ICC profile embedded in an image; null when it has none
+ */
+export async function readIccProfileWithShell(inputPath: string): Promise<Uint8Array | null> {
+  const result = await runMagickToBuffer([`${inputPath}[0]`, 'icc:-'])
+  return result.success && result.data?.length ? result.data : null
+}
+
+const profilePaths = new Map<TargetColorSpace, Promise<string>>()
+
+/**
+ * Path of a target profile in the temp directory, written on first use
+ * Named by content and written through a rename, so concurrent workers
+ * never read a partial file
+ */
+function getIccProfilePath(space: TargetColorSpace): Promise<string> {
+  let path = profilePaths.get(space)
+  if (!path) {
+    path = (async () => {
+      const profile = getIccProfile(space)
+      const hash = new Bun.CryptoHasher('sha256').update(profile).digest('hex').slice(0, 8)
+      const target = join(tmpdir(), `magick-tui-${space}-${hash}.icc`)
+      if (!(await Bun.file(target).exists())) {
+        const partial = `${target}.${crypto.randomUUID()}`
+        await Bun.write(partial, profile)
+        await rename(partial, target)
+      }
+      return target
+    })()
+    profilePaths.set(space, path)
+  }
+  return path
+}
+
+/**
+ * Color conversion for a shell encode; reads the source profile only when
+ * the target depends on it
+ */
+export async function resolveColorTransform(
+  inputPath: string,
+  format: OutputFormat,
+  color: ColorOptions | undefined
+): Promise<ColorTransform | null> {
+  const sourceProfile = needsSourceProfile(color, format) ? await readIccProfileWithShell(inputPath) : null
+  const target = colorTarget(color, format, sourceProfile)
+  if (!target) return null
+  return { profilePath: await getIccProfilePath(target), embed: embedsProfile(color, target) }
+}
+
+/**
+ * Create a preview thumbnail using the `magick` CLI, from a file or an encoded blob
+ */
+export async function createThumbnailWithShell(
+  source: string | Uint8Array,
+  width: number,
+  height: number,
+  format: ThumbnailFormat,
+  options: { resizeWidth?: number | null; resizeHeight?: number | null; crop?: CropRegion } = {}
+): Promise<{ success: boolean; data?: Uint8Array; error?: string }> {
+  if (typeof source === 'string') {
+    return runMagickToBuffer(buildThumbnailArgs(source, width, height, format, options))
+  }
+  return runMagickToBuffer(buildThumbnailArgs('-', width, height, format, options), source)
+}
+
+/**
+ * Encode an image exactly as a conversion would, returning the bytes instead of writing a file
+ */
+export async function encodeWithShell(
+  inputPath: string,
+  format: OutputFormat,
+  quality: number,
+  resizeWidth: number | null,
+  resizeHeight: number | null,
+  encoder?: EncoderOptions,
+  metadata?: MetadataPolicy,
+  color?: ColorOptions
+): Promise<{ success: boolean; data?: Uint8Array; error?: string }> {
+  const transform = await resolveColorTransform(inputPath, format, color)
+  return runMagickToBuffer(
+    buildMagickArgs(inputPath, `${format}:-`, format, quality, resizeWidth, resizeHeight, encoder, metadata, transform)
+  )
+}
+
 /**
  * Estimate file size by converting to a temp file and measuring
+ * With `measureQuality`, the temp file is also compared against the source
  */
 export async function estimateFileSizeWithTempFile(
   inputPath: string,
   format: OutputFormat,
   quality: number,
   resizeWidth: number | null,
-  resizeHeight: number | null
-): Promise<{ success: boolean; estimatedSize?: number; error?: string }> {
+  resizeHeight: number | null,
+  encoder?: EncoderOptions,
+  metadata?: MetadataPolicy,
+  color?: ColorOptions,
+  measureQuality = false
+): Promise<{ success: boolean; estimatedSize?: number; metrics?: QualityMetrics; error?: string }> {
   const tempPath = `/tmp/magick-estimate-${crypto.randomUUID()}.${format}`
-  const args = buildMagickArgs(inputPath, tempPath, quality, resizeWidth, resizeHeight)
+  const transform = await resolveColorTransform(inputPath, format, color)
+  const args = buildMagickArgs(
+    inputPath, tempPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, transform
+  )
 
   const proc = Bun.spawn(['magick', ...args], {
     stdout: 'pipe',
@@ -68,6 +544,15 @@ export async function estimateFileSizeWithTempFile(
   const tempFile = Bun.file(tempPath)
   const estimatedSize = tempFile.size
 
+  let metrics: QualityMetrics | undefined
+  if (measureQuality) {
+    const ssim = await compareWithShell(tempPath, inputPath, resizeWidth, resizeHeight, 'SSIM', transform)
+    const psnr = await compareWithShell(tempPath, inputPath, resizeWidth, resizeHeight, 'PSNR', transform)
+    if (ssim !== null && psnr !== null) {
+      metrics = { ssim, psnr }
+    }
+  }
+
   // Clean up temp file (ignore errors)
   try {
     await unlink(tempPath)
@@ -75,7 +560,7 @@ export async function estimateFileSizeWithTempFile(
     // Ignore cleanup errors
   }
 
-  return { success: true, estimatedSize }
+  return metrics ? { success: true, estimatedSize, metrics } : { success: true, estimatedSize }
 }
 
 /**
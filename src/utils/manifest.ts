@@ -0,0 +1,151 @@
+// Asset manifest: a JSON record of every converted source and its outputs
+// (format, dimensions, size, quality, hash, timestamps) for build tooling
+
+import { dirname, relative, resolve, sep } from 'node:path'
+import { mkdir, stat } from 'node:fs/promises'
+import type { BatchItemResult } from './types'
+import { getImageDimensions } from './fileScanner'
+import { usesQuality } from './magickShared'
+import { formatFromPath } from './pictureMarkup'
+
+export const MANIFEST_VERSION = 1
+
+export interface ManifestOutput {
+  path: string // relative to the manifest
+  format: string
+  width: number | null // null when the file can't be read
+  height: number | null
+  size: number // bytes
+  quality: number | null // null for lossless formats or when unknown
+  hash: string // SHA-256 of the file content
+  modifiedAt: string // ISO 8601
+}
+
+export interface ManifestSource {
+  size: number
+  hash: string
+  modifiedAt: string
+  outputs: ManifestOutput[]
+}
+
+export interface Manifest {
+  version: number
+  generatedAt: string
+  sources: Record<string, ManifestSource> // keyed by source path relative to the manifest
+}
+
+/**
+ * Path of `path` relative to the manifest's directory, with forward slashes
+ */
+function manifestRelative(manifestPath: string, path: string): string {
+  return relative(dirname(resolve(manifestPath)), resolve(path)).split(sep).join('/')
+}
+
+/**
+ * Size, content hash and modification time of a file
+ */
+async function describeFile(path: string): Promise<{ size: number; hash: string; modifiedAt: string }> {
+  const data = await Bun.file(path).arrayBuffer()
+  const stats = await stat(path)
+  return {
+    size: data.byteLength,
+    hash: new Bun.CryptoHasher('sha256').update(data).digest('hex'),
+    modifiedAt: stats.mtime.toISOString(),
+  }
+}
+
+/**
+ * Record one converted image; outputs kept by the overwrite policy are
+ * included with the quality from the previous manifest, if it had one
+ */
+export async function buildManifestSource(
+  result: BatchItemResult,
+  manifestPath: string,
+  previous?: ManifestSource
+): Promise<ManifestSource> {
+  const outputs: ManifestOutput[] = []
+  for (const path of [...(result.outputPaths ?? []), ...(result.skippedPaths ?? [])]) {
+    const format = formatFromPath(path)
+    if (!format) continue
+
+    const relativePath = manifestRelative(manifestPath, path)
+    const dimensions = await getImageDimensions(path)
+    const recorded = result.outputQualities?.[path] ?? previous?.outputs.find((o) => o.path === relativePath)?.quality
+
+    const { size, hash, modifiedAt } = await describeFile(path)
+
+    outputs.push({
+      path: relativePath,
+      format,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      size,
+      quality: usesQuality(format) ? (recorded ?? null) : null,
+      hash,
+      modifiedAt,
+    })
+  }
+
+  return { ...(await describeFile(result.inputPath)), outputs }
+}
+
+/**
+ * Validate a manifest read from disk; anything unrecognized starts a new one
+ */
+export function parseManifest(data: unknown): Manifest | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null
+  const { version, sources } = data as Record<string, unknown>
+  if (version !== MANIFEST_VERSION || typeof sources !== 'object' || sources === null || Array.isArray(sources)) {
+    return null
+  }
+  return data as Manifest
+}
+
+/**
+ * Read an existing manifest; null when missing or unreadable
+ */
+export async function loadManifest(manifestPath: string): Promise<Manifest | null> {
+  const file = Bun.file(manifestPath)
+  if (!(await file.exists())) return null
+  try {
+    return parseManifest(await file.json())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Add the successful results of a run to the manifest at `manifestPath`
+ * Sources converted in this run replace their previous entries; other
+ * sources are kept, so repeated runs build up one record
+ */
+export async function updateManifest(
+  manifestPath: string,
+  results: BatchItemResult[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const existing = await loadManifest(manifestPath)
+    const sources: Record<string, ManifestSource> = { ...existing?.sources }
+
+    for (const result of results) {
+      if (!result.success) continue
+      const key = manifestRelative(manifestPath, result.inputPath)
+      sources[key] = await buildManifestSource(result, manifestPath, sources[key])
+    }
+
+    const manifest: Manifest = {
+      version: MANIFEST_VERSION,
+      generatedAt: new Date().toISOString(),
+      sources: Object.fromEntries(Object.entries(sources).sort(([a], [b]) => a.localeCompare(b))),
+    }
+
+    await mkdir(dirname(resolve(manifestPath)), { recursive: true })
+    await Bun.write(manifestPath, JSON.stringify(manifest, null, 2) + '\n')
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Could not write manifest ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+}
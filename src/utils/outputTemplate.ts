@@ -0,0 +1,95 @@
+// Filename templates for converted images, e.g. "{name}-{width}w.{format}"
+
+import type { OutputFormat } from './types'
+
+export const TEMPLATE_VARIABLES = [
+  'name', // input file name without extension
+  'ext', // input file extension without dot
+  'format', // output format (webp, avif, ...)
+  'width', // output width in pixels
+  'height', // output height in pixels
+  'quality', // compression quality
+  'hash', // SHA-256 of the source content and conversion settings
+  'hash8', // first 8 characters of {hash}
+] as const
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]
+
+export type TemplateValues = Partial<Record<TemplateVariable, string | number>>
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g
+
+/**
+ * List the variables a template refers to
+ */
+export function getTemplateVariables(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1] ?? '')
+}
+
+/**
+ * Check whether a template uses any of the given variables
+ */
+export function templateUses(template: string, ...variables: TemplateVariable[]): boolean {
+  const used = getTemplateVariables(template)
+  return variables.some((v) => used.includes(v))
+}
+
+/**
+ * Extension written literally at the end of a template ("jpg" in "{name}.jpg"),
+ * or null when there is none or it's filled in from a variable
+ */
+function literalExtension(template: string): string | null {
+  const filename = template.slice(template.lastIndexOf('/') + 1)
+  const dot = filename.lastIndexOf('.')
+  const extension = dot > 0 ? filename.slice(dot + 1) : ''
+  return extension && !/[{}]/.test(extension) ? extension.toLowerCase() : null
+}
+
+/**
+ * Validate a filename template, returning an error message or null
+ * Templates may create subdirectories but must stay inside the output directory,
+ * and must give every output format (`formats`, when known) its own, matching name
+ */
+export function validateFilenameTemplate(template: string, formats: OutputFormat[] = []): string | null {
+  if (!template.trim()) {
+    return 'Filename template is empty'
+  }
+
+  const unknown = getTemplateVariables(template).filter(
+    (v) => !TEMPLATE_VARIABLES.includes(v as TemplateVariable)
+  )
+  if (unknown.length > 0) {
+    return `Unknown template variable {${unknown[0]}}. Available: ${TEMPLATE_VARIABLES.map((v) => `{${v}}`).join(', ')}`
+  }
+
+  if (template.startsWith('/') || template.split('/').includes('..')) {
+    return 'Filename template must be a relative path without ".."'
+  }
+
+  if (template.endsWith('/')) {
+    return 'Filename template must end with a file name'
+  }
+
+  if (formats.length > 1 && !templateUses(template, 'format')) {
+    return 'Filename template must include {format} when converting to more than one format'
+  }
+
+  const extension = literalExtension(template)
+  const mismatched = extension && formats.find((f) => extension !== f && !(f === 'jpg' && extension === 'jpeg'))
+  if (mismatched) {
+    return `Filename template extension ".${extension}" doesn't match the ${mismatched.toUpperCase()} output`
+  }
+
+  return null
+}
+
+/**
+ * Fill in a filename template
+ * Variables without a value are left empty
+ */
+export function renderFilenameTemplate(template: string, values: TemplateValues): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    const value = values[name as TemplateVariable]
+    return value === undefined ? '' : String(value)
+  })
+}
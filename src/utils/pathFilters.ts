@@ -0,0 +1,71 @@
+// Path filtering for directory scans: include/exclude globs and .gitignore rules
+// Paths are always relative to the scan root and use forward slashes
+
+/**
+ * A single parsed .gitignore line
+ */
+export interface IgnoreRule {
+  glob: Bun.Glob
+  base: string // directory of the .gitignore, relative to the scan root ('' for the root)
+  negate: boolean // `!pattern` re-includes a previously ignored path
+  dirOnly: boolean // `pattern/` only matches directories
+  anchored: boolean // pattern contains a slash, so it's matched against the full path
+}
+
+/**
+ * Parse the contents of a .gitignore file located at `base`
+ * Supports comments, negation, directory-only and anchored patterns
+ */
+export function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const negate = line.startsWith('!')
+    if (negate) line = line.slice(1)
+
+    const dirOnly = line.endsWith('/')
+    if (dirOnly) line = line.slice(0, -1)
+
+    const anchored = line.includes('/')
+    if (line.startsWith('/')) line = line.slice(1)
+    if (!line) continue
+
+    rules.push({ glob: new Bun.Glob(line), base, negate, dirOnly, anchored })
+  }
+
+  return rules
+}
+
+/**
+ * Check a path against .gitignore rules; the last matching rule wins
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue
+
+    let subPath = relativePath
+    if (rule.base) {
+      if (!relativePath.startsWith(`${rule.base}/`)) continue
+      subPath = relativePath.slice(rule.base.length + 1)
+    }
+
+    const target = rule.anchored ? subPath : subPath.slice(subPath.lastIndexOf('/') + 1)
+    if (rule.glob.match(target)) {
+      ignored = !rule.negate
+    }
+  }
+
+  return ignored
+}
+
+/**
+ * Check whether a path matches any of the given glob patterns
+ */
+export function matchesAnyGlob(patterns: string[], relativePath: string): boolean {
+  return patterns.some((pattern) => new Bun.Glob(pattern).match(relativePath))
+}
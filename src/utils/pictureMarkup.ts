@@ -0,0 +1,104 @@
+// HTML <picture> markup for converted images: one <source> per modern format
+// and a fallback <img>, with srcset width descriptors for responsive image sets
+
+import { extname, relative, sep } from 'node:path'
+import type { ImageDimensions, OutputFormat } from './types'
+import { getImageDimensions } from './fileScanner'
+import { OUTPUT_FORMATS } from '../constants'
+
+/**
+ * A converted file to reference from the markup
+ */
+export interface PictureOutput extends ImageDimensions {
+  path: string
+  format: OutputFormat
+}
+
+export interface PictureOptions {
+  baseDir: string // paths in the markup are relative to this directory
+  alt?: string
+  sizes?: string // sizes attribute for responsive image sets, defaults to 100vw
+}
+
+// Order of <source> elements: browsers take the first type they support
+const SOURCE_ORDER: OutputFormat[] = ['avif', 'jxl', 'webp', 'png', 'jpg']
+
+// Formats for the <img> fallback, most widely supported first
+const FALLBACK_ORDER: OutputFormat[] = ['jpg', 'png', 'webp', 'avif', 'jxl']
+
+const DEFAULT_SIZES = '100vw'
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+function toUrl(path: string, baseDir: string): string {
+  return relative(baseDir, path).split(sep).map(encodeURI).join('/')
+}
+
+/**
+ * Output format of a converted file, from its extension
+ */
+export function formatFromPath(path: string): OutputFormat | null {
+  const extension = extname(path).slice(1).toLowerCase()
+  return OUTPUT_FORMATS.find((f) => f.format === extension)?.format ?? null
+}
+
+/**
+ * Build a <picture> element for the outputs of one image
+ * Returns null when there is nothing to reference
+ */
+export function buildPictureMarkup(outputs: PictureOutput[], options: PictureOptions): string | null {
+  const byFormat = new Map<OutputFormat, PictureOutput[]>()
+  for (const output of outputs) {
+    byFormat.set(output.format, [...(byFormat.get(output.format) ?? []), output])
+  }
+
+  const fallbackFormat = FALLBACK_ORDER.find((f) => byFormat.has(f))
+  if (!fallbackFormat) return null
+
+  const responsive = [...byFormat.values()].some((list) => list.length > 1)
+  const sizes = responsive ? ` sizes="${escapeAttribute(options.sizes ?? DEFAULT_SIZES)}"` : ''
+
+  const srcset = (list: PictureOutput[]) =>
+    responsive
+      ? [...list]
+          .sort((a, b) => a.width - b.width)
+          .map((o) => `${toUrl(o.path, options.baseDir)} ${o.width}w`)
+          .join(', ')
+      : toUrl(list[0]!.path, options.baseDir)
+
+  const lines = ['<picture>']
+  for (const format of SOURCE_ORDER) {
+    const list = byFormat.get(format)
+    if (!list || format === fallbackFormat) continue
+    const type = OUTPUT_FORMATS.find((f) => f.format === format)!.mimeType
+    lines.push(`  <source type="${type}" srcset="${escapeAttribute(srcset(list))}"${sizes}>`)
+  }
+
+  const fallbacks = byFormat.get(fallbackFormat)!
+  const largest = fallbacks.reduce((a, b) => (b.width > a.width ? b : a))
+  const src = escapeAttribute(toUrl(largest.path, options.baseDir))
+  const imgSrcset = responsive ? ` srcset="${escapeAttribute(srcset(fallbacks))}"${sizes}` : ''
+  const alt = escapeAttribute(options.alt ?? '')
+  lines.push(`  <img src="${src}"${imgSrcset} width="${largest.width}" height="${largest.height}" alt="${alt}">`)
+  lines.push('</picture>')
+
+  return lines.join('\n')
+}
+
+/**
+ * Read the size of each converted file and build its <picture> element
+ * Files that can't be read are left out
+ */
+export async function createPictureMarkup(outputPaths: string[], options: PictureOptions): Promise<string | null> {
+  const outputs: PictureOutput[] = []
+  for (const path of outputPaths) {
+    const format = formatFromPath(path)
+    const dimensions = format ? await getImageDimensions(path) : null
+    if (format && dimensions) {
+      outputs.push({ path, format, ...dimensions })
+    }
+  }
+  return buildPictureMarkup(outputs, options)
+}
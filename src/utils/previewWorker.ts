@@ -0,0 +1,233 @@
+/**
+ * Web Worker for preview thumbnails and before/after comparisons
+ * Decoding large photos takes long enough to stall the UI, so it happens here
+ */
+
+import { getMagickFFI, isFFIAvailable, type ThumbnailOptions } from './magickFFI'
+import { createThumbnailWithShell, encodeWithShell } from './magickShared'
+import { chooseQuality } from './qualitySearch'
+import { getImageDimensions } from './fileScanner'
+import { computeOutputDimensions } from './imageProcessor'
+import {
+  cropRegion,
+  fitPreviewSize,
+  previewCells,
+  previewPixelBox,
+  type ComparisonImages,
+  type ComparisonSettings,
+  type ComparisonZoom,
+  type PreviewImage,
+} from './imagePreview'
+import { thumbnailFormatFor } from './terminalGraphics'
+import type { ImageDimensions, PreviewProtocol } from './types'
+
+export interface PreviewRequest {
+  type: 'preview'
+  id: number
+  inputPath: string
+  protocol: PreviewProtocol
+  columns: number // size of the preview pane in cells
+  rows: number
+  cellSize: ImageDimensions // pixels per cell
+}
+
+export interface ComparisonRequest {
+  type: 'compare'
+  id: number
+  inputPath: string
+  settings: ComparisonSettings
+  protocol: PreviewProtocol
+  columns: number // size of each side in cells
+  rows: number
+  cellSize: ImageDimensions
+  zoom: ComparisonZoom
+  center: { x: number; y: number } // crop center in 'actual' zoom, as fractions of the image
+}
+
+export type PreviewWorkerRequest = PreviewRequest | ComparisonRequest
+
+export interface PreviewResponse {
+  id: number
+  success: boolean
+  image?: PreviewImage
+  error?: string
+}
+
+export interface ComparisonResponse {
+  id: number
+  success: boolean
+  images?: ComparisonImages
+  error?: string
+}
+
+export type PreviewWorkerResponse = PreviewResponse | ComparisonResponse
+
+const useFFI = Bun.env.MAGICK_USE_FFI !== 'false'
+
+// Last full-size encode, reused while panning and zooming the same comparison
+let cachedEncode: { key: string; data: Uint8Array; quality: number } | null = null
+
+/**
+ * Render a thumbnail, using FFI with shell fallback
+ */
+async function renderThumbnail(options: ThumbnailOptions): Promise<{ data?: Uint8Array; error?: string }> {
+  let error: string | undefined
+
+  if (useFFI && isFFIAvailable()) {
+    try {
+      const result = getMagickFFI().createThumbnail(options)
+      if (result.data) return { data: result.data }
+      error = result.error
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+    }
+  }
+
+  const { width, height, format, crop } = options
+  const result = 'blob' in options
+    ? await createThumbnailWithShell(options.blob, width, height, format, { crop })
+    : await createThumbnailWithShell(options.inputPath, width, height, format, {
+        resizeWidth: options.resizeWidth,
+        resizeHeight: options.resizeHeight,
+        crop,
+      })
+  return result.data ? { data: result.data } : { error: result.error ?? error }
+}
+
+/**
+ * Encode the full image with the comparison settings, using FFI with shell fallback
+ */
+async function encodeForComparison(
+  inputPath: string,
+  settings: ComparisonSettings
+): Promise<{ data?: Uint8Array; quality?: number; error?: string }> {
+  const key = JSON.stringify([inputPath, settings])
+  if (cachedEncode?.key === key) {
+    return { data: cachedEncode.data, quality: cachedEncode.quality }
+  }
+
+  const chosen = await chooseQuality({ inputPath, ...settings, useFFI })
+  if ('error' in chosen) {
+    return { error: chosen.error }
+  }
+
+  const { quality } = chosen
+  const { format, resizeWidth, resizeHeight, encoder, metadata, color } = settings
+  let data: Uint8Array | undefined
+  let error: string | undefined
+
+  if (useFFI && isFFIAvailable()) {
+    try {
+      const result = getMagickFFI().encodeImage({
+        inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color,
+      })
+      data = result.data
+      error = result.error
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+    }
+  }
+
+  if (!data) {
+    const result = await encodeWithShell(inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color)
+    data = result.data
+    error = result.error ?? error
+  }
+
+  if (!data) {
+    return { error: error ?? 'Could not encode image' }
+  }
+
+  cachedEncode = { key, data, quality }
+  return { data, quality }
+}
+
+/**
+ * Generate a thumbnail that fits the pane
+ */
+async function generatePreview(request: PreviewRequest): Promise<PreviewResponse> {
+  const { id, inputPath, protocol, columns, rows, cellSize } = request
+
+  const source = await getImageDimensions(inputPath)
+  if (!source) {
+    return { id, success: false, error: 'Could not read image' }
+  }
+
+  const size = fitPreviewSize(source, previewPixelBox(protocol, columns, rows, cellSize))
+  const result = await renderThumbnail({ inputPath, ...size, format: thumbnailFormatFor(protocol) })
+  if (!result.data) {
+    return { id, success: false, error: result.error ?? 'Could not create preview' }
+  }
+
+  return {
+    id,
+    success: true,
+    image: { protocol, ...size, ...previewCells(protocol, size, cellSize), data: result.data },
+  }
+}
+
+/**
+ * Render the resized source and its decoded encode with the same scale or crop
+ */
+async function generateComparison(request: ComparisonRequest): Promise<ComparisonResponse> {
+  const { id, inputPath, settings, protocol, columns, rows, cellSize, zoom, center } = request
+
+  const source = await getImageDimensions(inputPath)
+  if (!source) {
+    return { id, success: false, error: 'Could not read image' }
+  }
+  const outputSize = computeOutputDimensions(source, settings.resizeWidth, settings.resizeHeight)
+
+  const encoded = await encodeForComparison(inputPath, settings)
+  if (!encoded.data || encoded.quality === undefined) {
+    return { id, success: false, error: encoded.error }
+  }
+
+  const box = previewPixelBox(protocol, columns, rows, cellSize)
+  const region = zoom === 'actual' ? cropRegion(outputSize, box, center) : null
+  const size = region ? { width: region.width, height: region.height } : fitPreviewSize(outputSize, box)
+  const format = thumbnailFormatFor(protocol)
+  const crop = region ?? undefined
+
+  const original = await renderThumbnail({
+    inputPath,
+    resizeWidth: settings.resizeWidth,
+    resizeHeight: settings.resizeHeight,
+    ...size,
+    crop,
+    format,
+  })
+  if (!original.data) {
+    return { id, success: false, error: original.error ?? 'Could not render original' }
+  }
+
+  const decoded = await renderThumbnail({ blob: encoded.data, ...size, crop, format })
+  if (!decoded.data) {
+    return { id, success: false, error: decoded.error ?? 'Could not decode encoded image' }
+  }
+
+  const cells = previewCells(protocol, size, cellSize)
+  return {
+    id,
+    success: true,
+    images: {
+      original: { protocol, ...size, ...cells, data: original.data },
+      encoded: { protocol, ...size, ...cells, data: decoded.data },
+      encodedSize: encoded.data.length,
+      quality: encoded.quality,
+      outputSize,
+      region,
+    },
+  }
+}
+
+// Worker message handler
+declare const self: Worker
+
+self.onmessage = async (event: MessageEvent<PreviewWorkerRequest>) => {
+  const request = event.data
+  const response = request.type === 'compare'
+    ? await generateComparison(request)
+    : await generatePreview(request)
+  self.postMessage(response)
+}
@@ -0,0 +1,174 @@
+// Quality searches: the highest quality whose encoded size fits a byte budget
+// (target size mode), or the lowest quality that still looks close enough to
+// the source (auto quality)
+
+import { usesQuality } from './magickShared'
+import { estimateOutput, estimateOutputSize } from './sizeEstimation'
+import { formatFileSize } from '../constants'
+import type { ColorOptions, EncoderOptions, MetadataPolicy, OutputFormat } from './types'
+
+export interface QualitySearchResult {
+  quality: number
+  size: number // estimated size at `quality`, in bytes
+  fits: boolean // false when even the lowest quality exceeds the budget
+}
+
+/**
+ * Binary-search the highest quality in [minQuality, maxQuality] whose estimated
+ * size is at most `targetSize`, assuming size grows with quality
+ * Returns null when an estimate fails
+ */
+export async function searchQualityForSize(
+  estimate: (quality: number) => Promise<number | undefined>,
+  targetSize: number,
+  minQuality = 1,
+  maxQuality = 100
+): Promise<QualitySearchResult | null> {
+  let low = minQuality
+  let high = maxQuality
+  let best: QualitySearchResult | null = null
+  let smallest: QualitySearchResult | null = null
+
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2)
+    const size = await estimate(quality)
+    if (size === undefined) return null
+
+    if (size <= targetSize) {
+      best = { quality, size, fits: true }
+      low = quality + 1
+    } else {
+      if (!smallest || quality < smallest.quality) {
+        smallest = { quality, size, fits: false }
+      }
+      high = quality - 1
+    }
+  }
+
+  return best ?? smallest
+}
+
+export interface SsimSearchResult {
+  quality: number
+  ssim: number // SSIM at `quality`
+  reached: boolean // false when even the maximum quality stays below the threshold
+}
+
+/**
+ * Binary-search the lowest quality in [minQuality, maxQuality] whose SSIM is at
+ * least `minSsim`, assuming SSIM grows with quality
+ * Returns null when a measurement fails
+ */
+export async function searchQualityForSsim(
+  measure: (quality: number) => Promise<number | undefined>,
+  minSsim: number,
+  minQuality = 1,
+  maxQuality = 100
+): Promise<SsimSearchResult | null> {
+  let low = minQuality
+  let high = maxQuality
+  let best: SsimSearchResult | null = null
+  let closest: SsimSearchResult | null = null
+
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2)
+    const ssim = await measure(quality)
+    if (ssim === undefined) return null
+
+    if (ssim >= minSsim) {
+      best = { quality, ssim, reached: true }
+      high = quality - 1
+    } else {
+      if (!closest || quality > closest.quality) {
+        closest = { quality, ssim, reached: false }
+      }
+      low = quality + 1
+    }
+  }
+
+  return best ?? closest
+}
+
+/**
+ * An encode whose quality is searched for when it has a target size or minimum SSIM
+ */
+export interface QualityChoiceOptions {
+  inputPath: string
+  format: OutputFormat
+  quality: number // used as is without a target size or minimum SSIM
+  resizeWidth: number | null
+  resizeHeight: number | null
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy
+  color?: ColorOptions
+  targetSize?: number | null
+  minSsim?: number | null
+  useFFI: boolean
+}
+
+/**
+ * Pick the quality for an encode: searched for in target size and auto quality
+ * modes, otherwise the fixed quality
+ */
+export async function chooseQuality(options: QualityChoiceOptions): Promise<{ quality: number } | { error: string }> {
+  if (!usesQuality(options.format)) {
+    return { quality: options.quality }
+  }
+  if (options.targetSize) {
+    return chooseQualityForSize(options, options.targetSize)
+  }
+  if (options.minSsim) {
+    return chooseQualityForSsim(options, options.minSsim)
+  }
+  return { quality: options.quality }
+}
+
+/**
+ * Find the highest quality that keeps the output within the target size
+ */
+async function chooseQualityForSize(
+  options: QualityChoiceOptions,
+  targetSize: number
+): Promise<{ quality: number } | { error: string }> {
+  const { inputPath, format, resizeWidth, resizeHeight, encoder, metadata, color, useFFI } = options
+
+  const result = await searchQualityForSize(
+    (quality) => estimateOutputSize(inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color, useFFI),
+    targetSize
+  )
+
+  if (!result) {
+    return { error: 'Could not estimate output size' }
+  }
+  if (!result.fits) {
+    return {
+      error: `Cannot fit ${formatFileSize(targetSize)}: smallest output is ${formatFileSize(result.size)} at quality ${result.quality}`,
+    }
+  }
+
+  return { quality: result.quality }
+}
+
+/**
+ * Find the lowest quality whose encode keeps SSIM against the source at or above `minSsim`
+ * When no quality reaches it, the highest quality is used
+ */
+async function chooseQualityForSsim(
+  options: QualityChoiceOptions,
+  minSsim: number
+): Promise<{ quality: number } | { error: string }> {
+  const { inputPath, format, resizeWidth, resizeHeight, encoder, metadata, color, useFFI } = options
+
+  const result = await searchQualityForSsim(async (quality) => {
+    const estimate = await estimateOutput(
+      inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color, useFFI, true
+    )
+    return estimate?.metrics?.ssim
+  }, minSsim)
+
+  if (!result) {
+    return { error: 'Could not measure output quality' }
+  }
+
+  return { quality: result.quality }
+}
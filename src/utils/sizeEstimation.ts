@@ -0,0 +1,91 @@
+// Output size estimation shared by the estimate and conversion workers
+
+import { getMagickFFI, isFFIAvailable } from './magickFFI'
+import { estimateFileSizeWithTempFile } from './magickShared'
+import type { ColorOptions, EncoderOptions, MetadataPolicy, OutputFormat, QualityMetrics } from './types'
+
+export interface OutputEstimate {
+  estimatedSize: number
+  metrics?: QualityMetrics
+}
+
+/**
+ * Estimate the encoded size of an image in one format, using FFI with shell fallback
+ * FFI encodes to an in-memory blob; the shell fallback writes a temp file
+ * With `measureQuality`, SSIM/PSNR against the resized source are included when available
+ */
+export async function estimateOutput(
+  inputPath: string,
+  format: OutputFormat,
+  quality: number,
+  resizeWidth: number | null,
+  resizeHeight: number | null,
+  encoder: EncoderOptions | undefined,
+  metadata: MetadataPolicy | undefined,
+  color: ColorOptions | undefined,
+  useFFI: boolean,
+  measureQuality = false
+): Promise<OutputEstimate | undefined> {
+  // Try FFI first if enabled
+  if (useFFI && isFFIAvailable()) {
+    try {
+      const magick = getMagickFFI()
+      const result = magick.estimateFileSize({
+        inputPath,
+        format,
+        quality,
+        resizeWidth,
+        resizeHeight,
+        encoder,
+        metadata,
+        color,
+        measureQuality,
+      })
+
+      if (result.success && result.estimatedSize !== undefined) {
+        return { estimatedSize: result.estimatedSize, metrics: result.metrics }
+      }
+    } catch {
+      // Fall through to shell
+    }
+  }
+
+  // Fallback to shell
+  const shellResult = await estimateFileSizeWithTempFile(
+    inputPath,
+    format,
+    quality,
+    resizeWidth,
+    resizeHeight,
+    encoder,
+    metadata,
+    color,
+    measureQuality
+  )
+
+  if (shellResult.success && shellResult.estimatedSize !== undefined) {
+    return { estimatedSize: shellResult.estimatedSize, metrics: shellResult.metrics }
+  }
+
+  return undefined
+}
+
+/**
+ * Estimate only the encoded size of an image in one format
+ */
+export async function estimateOutputSize(
+  inputPath: string,
+  format: OutputFormat,
+  quality: number,
+  resizeWidth: number | null,
+  resizeHeight: number | null,
+  encoder: EncoderOptions | undefined,
+  metadata: MetadataPolicy | undefined,
+  color: ColorOptions | undefined,
+  useFFI: boolean
+): Promise<number | undefined> {
+  const estimate = await estimateOutput(
+    inputPath, format, quality, resizeWidth, resizeHeight, encoder, metadata, color, useFFI
+  )
+  return estimate?.estimatedSize
+}
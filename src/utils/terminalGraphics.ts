@@ -0,0 +1,143 @@
+// Terminal graphics for the preview pane: protocol detection, Kitty and Sixel
+// output, and Unicode half-block rendering for terminals without image support
+
+import { writeSync } from 'node:fs'
+import type { PreviewMode, PreviewProtocol, ThumbnailFormat } from './types'
+
+/**
+ * Graphics support reported by the renderer's terminal capability query
+ */
+export interface GraphicsCapabilities {
+  kitty_graphics?: boolean
+  sixel?: boolean
+}
+
+// Kitty image ids per view; re-sending an id replaces that view's previous image
+export const KITTY_IMAGE_IDS = {
+  preview: 1,
+  original: 2,
+  encoded: 3,
+} as const
+
+// Kitty requires base64 payloads to be split into chunks of at most 4096 bytes
+const KITTY_CHUNK_SIZE = 4096
+
+/**
+ * Pick the protocol for the preview pane; null when previews are turned off
+ * In 'auto' mode Kitty is preferred over Sixel, with half-blocks as the fallback
+ */
+export function detectPreviewProtocol(
+  mode: PreviewMode,
+  capabilities: GraphicsCapabilities | null
+): PreviewProtocol | null {
+  if (mode === 'off') return null
+  if (mode !== 'auto') return mode
+  if (capabilities?.kitty_graphics) return 'kitty'
+  if (capabilities?.sixel) return 'sixel'
+  return 'blocks'
+}
+
+/**
+ * Thumbnail encoding each protocol draws from
+ */
+export function thumbnailFormatFor(protocol: PreviewProtocol): ThumbnailFormat {
+  switch (protocol) {
+    case 'kitty':
+      return 'PNG'
+    case 'sixel':
+      return 'SIXEL'
+    case 'blocks':
+      return 'RGB'
+  }
+}
+
+/**
+ * Kitty graphics sequence that transmits a PNG and shows it at the cursor
+ * without moving it
+ */
+export function kittyImageSequence(png: Uint8Array, id: number): string {
+  const payload = Buffer.from(png).toString('base64')
+  const chunks: string[] = []
+  for (let i = 0; i < payload.length; i += KITTY_CHUNK_SIZE) {
+    chunks.push(payload.slice(i, i + KITTY_CHUNK_SIZE))
+  }
+
+  return chunks
+    .map((chunk, index) => {
+      const more = index < chunks.length - 1 ? 1 : 0
+      const control = index === 0 ? `a=T,f=100,i=${id},q=2,C=1,m=${more}` : `m=${more}`
+      return `\x1b_G${control};${chunk}\x1b\\`
+    })
+    .join('')
+}
+
+/**
+ * Kitty graphics sequence that deletes an image and its placements
+ */
+export function kittyDeleteSequence(id: number): string {
+  return `\x1b_Ga=d,d=I,i=${id},q=2\x1b\\`
+}
+
+/**
+ * Wrap a sequence so it is written at a cell (0-based) and the cursor is restored afterwards
+ */
+export function atPosition(x: number, y: number, sequence: string): string {
+  return `\x1b7\x1b[${y + 1};${x + 1}H${sequence}\x1b8`
+}
+
+/**
+ * Overwrite a block of cells with spaces, e.g. to erase a Sixel image
+ */
+export function clearRegionSequence(x: number, y: number, width: number, height: number): string {
+  const rows = Array.from({ length: height }, (_, row) => `\x1b[${y + row + 1};${x + 1}H${' '.repeat(width)}`)
+  return `\x1b7${rows.join('')}\x1b8`
+}
+
+/**
+ * OSC 52 sequence that puts text on the system clipboard (also over SSH)
+ */
+export function clipboardSequence(text: string): string {
+  return `\x1b]52;c;${Buffer.from(text).toString('base64')}\x07`
+}
+
+/**
+ * Write directly to the terminal, bypassing the renderer's stdout capture
+ */
+export function writeToTerminal(sequence: string): void {
+  try {
+    writeSync(process.stdout.fd, sequence)
+  } catch {
+    // Terminal went away; nothing to draw on
+  }
+}
+
+export type RGB = [number, number, number]
+
+/**
+ * One terminal cell showing two vertically stacked pixels as '▀':
+ * the top pixel is the foreground, the bottom one the background
+ */
+export interface HalfBlockCell {
+  top: RGB
+  bottom: RGB | null // null on the last row of an odd-height image
+}
+
+/**
+ * Split raw 8-bit RGB pixels into rows of half-block cells
+ */
+export function halfBlockRows(pixels: Uint8Array, width: number, height: number): HalfBlockCell[][] {
+  const pixel = (x: number, y: number): RGB => {
+    const offset = (y * width + x) * 3
+    return [pixels[offset] ?? 0, pixels[offset + 1] ?? 0, pixels[offset + 2] ?? 0]
+  }
+
+  const rows: HalfBlockCell[][] = []
+  for (let y = 0; y < height; y += 2) {
+    const row: HalfBlockCell[] = []
+    for (let x = 0; x < width; x++) {
+      row.push({ top: pixel(x, y), bottom: y + 1 < height ? pixel(x, y + 1) : null })
+    }
+    rows.push(row)
+  }
+  return rows
+}
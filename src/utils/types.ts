@@ -3,39 +3,215 @@
 export interface ImageFile {
   name: string
   path: string
+  relativePath: string // relative to the scanned directory, '/' separated
   size: number // in bytes
   width: number
   height: number
   format: string // file extension
+  colorSpace?: string // e.g. "sRGB" or "Display P3", loaded with the dimensions
 }
 
-export type OutputFormat = 'webp' | 'avif' | 'jxl'
+export interface ScanOptions {
+  recursive?: boolean
+  maxDepth?: number // directory levels below the root; unlimited when omitted
+  include?: string[] // glob patterns a file's relative path must match (any)
+  exclude?: string[] // glob patterns for files or directories to skip
+  respectGitignore?: boolean // skip paths ignored by .gitignore files (recursive scans, default true)
+}
+
+export type OutputFormat = 'webp' | 'avif' | 'jxl' | 'jpg' | 'png'
+
+export type ChromaSubsampling = '4:2:0' | '4:2:2' | '4:4:4'
+
+export interface WebpEncoderOptions {
+  lossless?: boolean
+  method?: number // 0 (fast) - 6 (smallest)
+  alphaQuality?: number // 0-100, compression of the alpha channel
+}
+
+export interface AvifEncoderOptions {
+  speed?: number // 0 (slowest, smallest) - 9 (fastest)
+  chromaSubsampling?: ChromaSubsampling
+}
+
+export interface JxlEncoderOptions {
+  effort?: number // 1 (fast) - 9 (smallest)
+  distance?: number | null // Butteraugli distance (0 = lossless); derived from quality when null
+}
+
+export interface JpegEncoderOptions {
+  progressive?: boolean // progressive scans instead of baseline
+  chromaSubsampling?: ChromaSubsampling
+}
+
+export interface PngEncoderOptions {
+  compressionLevel?: number // zlib level 0-9; PNG is lossless, so quality doesn't apply
+  paletteColors?: number | null // quantize to an indexed palette of at most this many colors
+}
+
+// Format-specific encoder settings; omitted fields use the defaults in constants.ts
+export interface EncoderOptions {
+  webp?: WebpEncoderOptions
+  avif?: AvifEncoderOptions
+  jxl?: JxlEncoderOptions
+  jpg?: JpegEncoderOptions
+  png?: PngEncoderOptions
+}
+
+// A fixed quality, or 'auto' to search per image for the lowest quality that
+// keeps SSIM above a threshold
+export type QualitySetting = number | 'auto'
+
+/**
+ * A named combination of conversion settings from a config file
+ */
+export interface ConversionPreset {
+  name: string
+  formats: OutputFormat[]
+  quality: QualitySetting
+  resizeWidth: number | null
+  resizeHeight: number | null
+  encoder: EncoderOptions
+  source: 'user' | 'project' // ~/.config/magick-tui/config.json or .magick-tui.json
+}
+
+/**
+ * Size limits for `magick-tui check`; null leaves that property unchecked
+ */
+export interface ImageBudget {
+  maxSize: number | null // bytes
+  maxWidth: number | null // pixels
+  maxHeight: number | null
+}
 
 export interface QualityPreset {
   name: string
-  value: number
+  value: QualitySetting
   description: string
+  saved?: boolean // saved from the quality slider, can be deleted
+}
+
+// How the preview pane draws images: Kitty graphics, Sixel, or Unicode half-blocks
+export type PreviewProtocol = 'kitty' | 'sixel' | 'blocks'
+export type PreviewMode = PreviewProtocol | 'auto' | 'off'
+
+// A rectangle of an image in pixels
+export interface CropRegion {
+  x: number
+  y: number
+  width: number
+  height: number
 }
 
+// In-memory thumbnail encodings: PNG for Kitty, SIXEL escape data, raw 8-bit RGB pixels for half-blocks
+export type ThumbnailFormat = 'PNG' | 'SIXEL' | 'RGB'
+
 export type StatusType = 'idle' | 'processing' | 'success' | 'error' | 'warning'
 
 export interface StatusMessage {
   type: StatusType
   message: string
+  details?: string[] // extra lines, e.g. per-file failures of a batch run
+}
+
+// One line in the watch mode activity panel
+export interface ActivityEntry {
+  time: Date
+  type: StatusType
+  message: string
+}
+
+// What to do when an output file already exists
+export type OverwritePolicy =
+  | 'counter' // write next to it with a counter suffix (photo-1.webp)
+  | 'skip' // keep the existing file
+  | 'overwrite' // replace the existing file
+  | 'newer' // replace it only if the source was modified after it
+
+// Which metadata outputs keep; orientation is always applied to the pixels first
+export type MetadataPolicy =
+  | 'strip' // remove all metadata and profiles
+  | 'icc' // keep only the ICC color profile
+  | 'copyright' // keep the EXIF, IPTC and XMP profiles that carry copyright and author
+  | 'all' // keep everything
+
+// How colors are converted before encoding
+export type ColorMode =
+  | 'keep' // leave pixel values as they are; outputs without the source's profile shift colors
+  | 'srgb' // convert from the embedded profile to sRGB
+  | 'wide' // like srgb, but AVIF outputs of wide-gamut sources are converted to Display P3
+
+export interface ColorOptions {
+  mode: ColorMode
+  embedProfile: boolean // embed a compact ICC profile of the target color space
+}
+
+export interface OutputOptions {
+  outputDir?: string | null // defaults to the input's directory
+  mirrorTree?: boolean // recreate the input's directories below outputDir
+  baseDir?: string // root of the mirrored tree, defaults to the current directory
+  filenameTemplate?: string // e.g. "{name}-{width}w.{format}", see outputTemplate.ts
+  overwrite?: OverwritePolicy // defaults to 'counter'
+  manifestPath?: string | null // JSON record of sources and their outputs, updated after each run
+  cachePath?: string | null // skip sources whose content, settings and outputs haven't changed
 }
 
 export interface ProcessOptions {
   inputPath: string
   outputFormats: OutputFormat[]
   quality: number
+  targetSize?: number | null // max bytes per output; quality is searched per format when set
+  minSsim?: number | null // auto quality: lowest quality per format whose SSIM reaches this
   resizeWidth: number | null
   resizeHeight: number | null
+  widths?: number[] | null // responsive image set: one output per width and format, replaces resizeWidth/Height
+  encoder?: EncoderOptions
+  metadata?: MetadataPolicy // defaults to 'strip'
+  color?: ColorOptions // defaults to leaving colors untouched
+  output?: OutputOptions
 }
 
 export interface ProcessResult {
   success: boolean
   outputPaths?: string[]
+  skippedPaths?: string[] // existing outputs kept because of the overwrite policy
+  skipped?: boolean // every output already existed, nothing was converted
+  upToDate?: boolean // the cache showed the outputs already match the source and settings
+  qualities?: Partial<Record<OutputFormat, number>> // quality each format was encoded with
+  outputQualities?: Record<string, number> // quality of each written output, by path
+  skippedWidths?: number[] // responsive image set widths left out because they would upscale
   error?: string
+  cancelled?: boolean
+}
+
+export interface BatchItemResult extends ProcessResult {
+  inputPath: string
+  durationMs?: number
+}
+
+export interface BatchProgress {
+  completed: number // files finished so far
+  total: number
+  inputPath: string
+  message: string
+  result?: BatchItemResult // set once the file has finished
+}
+
+export interface BatchResult {
+  results: BatchItemResult[]
+  succeeded: number
+  failed: number
+  cancelled: number
+  skipped: number // files whose outputs all existed already
+  upToDate: number // files the cache showed as unchanged
+  cacheError?: string // the conversions finished but the cache couldn't be written
+  manifestError?: string // the conversions finished but the manifest couldn't be written
+}
+
+// Similarity of an encode to its (resized) source
+export interface QualityMetrics {
+  ssim: number // structural similarity, 1 = identical
+  psnr: number // peak signal-to-noise ratio in dB, Infinity when identical
 }
 
 export interface ImageDimensions {
@@ -43,7 +219,27 @@ export interface ImageDimensions {
   height: number
 }
 
-export type Section = 'files' | 'formats' | 'quality' | 'resize' | 'convert'
+export interface ImageInfo extends ImageDimensions {
+  colorSpace: string // see colorSpaceLabel
+}
+
+/**
+ * Properties of an image shown in the details panel, read when it's selected
+ */
+export interface ImageDetails {
+  colorSpace: string // see colorSpaceLabel
+  bitDepth: number // bits per channel
+  hasAlpha: boolean
+  profileName: string | null // ICC profile description
+  camera: string | null // EXIF make and model
+  lens: string | null
+  dateTaken: string | null // EXIF "YYYY:MM:DD HH:MM:SS"
+  orientation: number // EXIF orientation 1-8, 1 when not set
+  frames: number
+  compression: string | null // e.g. "JPEG", "Zip" or "WebP"
+}
+
+export type Section = 'files' | 'presets' | 'formats' | 'quality' | 'encoder' | 'resize' | 'output' | 'convert' | 'activity'
 
 // Re-export FFI types for convenience
 export type {
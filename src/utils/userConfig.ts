@@ -0,0 +1,396 @@
+// User configuration in ~/.config/magick-tui/config.json (or $XDG_CONFIG_HOME):
+// quality presets saved from the slider, named conversion presets and size
+// budgets. Projects can share presets and budgets in a .magick-tui.json next
+// to their images
+
+import { mkdir } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import type { ConversionPreset, ImageBudget, QualitySetting } from './types'
+import { parseEncoderConfig, parseFormats, parsePositiveInt } from './cliArgs'
+import { DEFAULT_QUALITY, parseFileSize } from '../constants'
+
+/**
+ * A quality value saved under a name from the quality slider
+ */
+export interface SavedQualityPreset {
+  name: string
+  quality: number
+}
+
+export interface UserConfig {
+  qualityPresets: SavedQualityPreset[]
+  presets: ConversionPreset[]
+  budget: ImageBudget | null // limits for `magick-tui check`
+}
+
+export interface ConfigLoadResult {
+  success: boolean
+  config: UserConfig // empty when the file is missing or invalid
+  error?: string
+}
+
+/**
+ * User and project config merged; project presets replace user presets of the
+ * same name, and a project budget replaces the user's
+ */
+export interface LoadedConfig {
+  config: UserConfig
+  projectPath: string | null // .magick-tui.json that was found, if any
+  errors: string[] // problems with either file; the other one still loads
+}
+
+export const PROJECT_CONFIG_NAME = '.magick-tui.json'
+
+const MAX_PRESET_NAME_LENGTH = 20
+
+/**
+ * Path of the user config file
+ */
+export function getConfigPath(): string {
+  const base = Bun.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(base, 'magick-tui', 'config.json')
+}
+
+function emptyConfig(): UserConfig {
+  return { qualityPresets: [], presets: [], budget: null }
+}
+
+function parseQualityPresets(raw: unknown): { qualityPresets: SavedQualityPreset[] } | { error: string } {
+  if (raw === undefined) return { qualityPresets: [] }
+  if (!Array.isArray(raw)) {
+    return { error: '"qualityPresets" must be an array' }
+  }
+
+  const qualityPresets: SavedQualityPreset[] = []
+  for (const entry of raw) {
+    const { name, quality } = (entry ?? {}) as Record<string, unknown>
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'Every quality preset needs a name' }
+    }
+    if (typeof quality !== 'number' || !Number.isInteger(quality) || quality < 1 || quality > 100) {
+      return { error: `Quality preset "${name}" must have a quality between 1 and 100` }
+    }
+    qualityPresets.push({ name: name.trim(), quality })
+  }
+
+  return { qualityPresets }
+}
+
+/**
+ * Validate one conversion preset, e.g.
+ * { "name": "thumbnail", "formats": ["webp"], "quality": 70, "width": 400 }
+ */
+function parsePreset(entry: unknown, source: ConversionPreset['source']): { preset: ConversionPreset } | { error: string } {
+  const { name, formats, quality, width, height, encoder } = (entry ?? {}) as Record<string, unknown>
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Every preset needs a name' }
+  }
+  const fail = (message: string) => ({ error: `Preset "${name}": ${message}` })
+
+  const formatList = Array.isArray(formats) ? formats.join(',') : formats
+  if (typeof formatList !== 'string') {
+    return fail('"formats" must be a list of output formats')
+  }
+  const parsedFormats = parseFormats(formatList)
+  if ('error' in parsedFormats) return fail(parsedFormats.error)
+
+  let parsedQuality: QualitySetting = DEFAULT_QUALITY
+  if (quality !== undefined) {
+    if (quality === 'auto') {
+      parsedQuality = 'auto'
+    } else if (typeof quality === 'number' && Number.isInteger(quality) && quality >= 1 && quality <= 100) {
+      parsedQuality = quality
+    } else {
+      return fail('"quality" must be 1-100 or "auto"')
+    }
+  }
+
+  const parsedWidth = parsePositiveInt(width === undefined ? undefined : String(width), 'width')
+  if ('error' in parsedWidth) return fail(parsedWidth.error)
+  const parsedHeight = parsePositiveInt(height === undefined ? undefined : String(height), 'height')
+  if ('error' in parsedHeight) return fail(parsedHeight.error)
+
+  const parsedEncoder = parseEncoderConfig(encoder)
+  if ('error' in parsedEncoder) return fail(parsedEncoder.error)
+
+  return {
+    preset: {
+      name: name.trim(),
+      formats: parsedFormats.formats,
+      quality: parsedQuality,
+      resizeWidth: parsedWidth.value,
+      resizeHeight: parsedHeight.value,
+      encoder: parsedEncoder.encoder,
+      source,
+    },
+  }
+}
+
+function parsePresets(raw: unknown, source: ConversionPreset['source']): { presets: ConversionPreset[] } | { error: string } {
+  if (raw === undefined) return { presets: [] }
+  if (!Array.isArray(raw)) {
+    return { error: '"presets" must be an array' }
+  }
+
+  const presets: ConversionPreset[] = []
+  for (const entry of raw) {
+    const parsed = parsePreset(entry, source)
+    if ('error' in parsed) return parsed
+    presets.push(parsed.preset)
+  }
+  return { presets }
+}
+
+/**
+ * Validate a size budget, e.g. { "maxSize": "300KB", "maxWidth": 2560 }
+ * `maxSize` may be a size string or a number of bytes
+ */
+function parseBudget(raw: unknown): { budget: ImageBudget | null } | { error: string } {
+  if (raw === undefined) return { budget: null }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: '"budget" must be an object' }
+  }
+
+  const { maxSize, maxWidth, maxHeight } = raw as Record<string, unknown>
+  let parsedSize: number | null = null
+  if (maxSize !== undefined) {
+    parsedSize = typeof maxSize === 'string' || typeof maxSize === 'number' ? parseFileSize(String(maxSize)) : null
+    if (parsedSize === null) {
+      return { error: 'Budget "maxSize" must be a size such as "300KB" or a number of bytes' }
+    }
+  }
+
+  const parsedWidth = parsePositiveInt(maxWidth === undefined ? undefined : String(maxWidth), 'budget maxWidth')
+  if ('error' in parsedWidth) return parsedWidth
+  const parsedHeight = parsePositiveInt(maxHeight === undefined ? undefined : String(maxHeight), 'budget maxHeight')
+  if ('error' in parsedHeight) return parsedHeight
+
+  return { budget: { maxSize: parsedSize, maxWidth: parsedWidth.value, maxHeight: parsedHeight.value } }
+}
+
+/**
+ * Validate parsed config JSON
+ */
+export function parseUserConfig(
+  data: unknown,
+  source: ConversionPreset['source'] = 'user'
+): { config: UserConfig } | { error: string } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { error: 'Config must be a JSON object' }
+  }
+
+  const raw = data as Record<string, unknown>
+  const qualityPresets = parseQualityPresets(raw.qualityPresets)
+  if ('error' in qualityPresets) return qualityPresets
+  const presets = parsePresets(raw.presets, source)
+  if ('error' in presets) return presets
+  const budget = parseBudget(raw.budget)
+  if ('error' in budget) return budget
+
+  return { config: { qualityPresets: qualityPresets.qualityPresets, presets: presets.presets, budget: budget.budget } }
+}
+
+/**
+ * Read the config file; a missing file is not an error
+ */
+export async function loadUserConfig(
+  path = getConfigPath(),
+  source: ConversionPreset['source'] = 'user'
+): Promise<ConfigLoadResult> {
+  const file = Bun.file(path)
+  if (!(await file.exists())) {
+    return { success: true, config: emptyConfig() }
+  }
+
+  let data: unknown
+  try {
+    data = await file.json()
+  } catch {
+    return { success: false, config: emptyConfig(), error: `Invalid JSON in ${path}` }
+  }
+
+  const parsed = parseUserConfig(data, source)
+  if ('error' in parsed) {
+    return { success: false, config: emptyConfig(), error: `${path}: ${parsed.error}` }
+  }
+  return { success: true, config: parsed.config }
+}
+
+/**
+ * Find the nearest .magick-tui.json in `dir` or one of its parents
+ */
+export async function findProjectConfig(dir: string): Promise<string | null> {
+  let current = dir
+  while (true) {
+    const candidate = join(current, PROJECT_CONFIG_NAME)
+    if (await Bun.file(candidate).exists()) return candidate
+    const parent = dirname(current)
+    if (parent === current) return null
+    current = parent
+  }
+}
+
+/**
+ * Load the user config and the project config for `cwd`
+ * Quality presets only come from the user config
+ */
+export async function loadConfig(cwd = process.cwd(), userPath = getConfigPath()): Promise<LoadedConfig> {
+  const errors: string[] = []
+  const user = await loadUserConfig(userPath)
+  if (user.error) errors.push(user.error)
+
+  const projectPath = await findProjectConfig(cwd)
+  const project = projectPath ? await loadUserConfig(projectPath, 'project') : null
+  if (project?.error) errors.push(project.error)
+
+  const projectPresets = project?.config.presets ?? []
+  const overridden = new Set(projectPresets.map((p) => p.name.toLowerCase()))
+  const presets = [...projectPresets, ...user.config.presets.filter((p) => !overridden.has(p.name.toLowerCase()))]
+
+  const budget = project?.config.budget ?? user.config.budget
+  return { config: { qualityPresets: user.config.qualityPresets, presets, budget }, projectPath, errors }
+}
+
+/**
+ * Config file representation of a conversion preset
+ */
+export function presetToJson(preset: ConversionPreset): Record<string, unknown> {
+  const json: Record<string, unknown> = { name: preset.name, formats: preset.formats, quality: preset.quality }
+  if (preset.resizeWidth !== null) json.width = preset.resizeWidth
+  if (preset.resizeHeight !== null) json.height = preset.resizeHeight
+  if (Object.keys(preset.encoder).length > 0) json.encoder = preset.encoder
+  return json
+}
+
+/**
+ * Short summary of a preset, e.g. "webp+avif q80 1600w"
+ */
+export function describePreset(preset: ConversionPreset): string {
+  const quality = preset.quality === 'auto' ? 'auto' : `q${preset.quality}`
+  const size =
+    preset.resizeWidth !== null && preset.resizeHeight !== null
+      ? ` ${preset.resizeWidth}x${preset.resizeHeight}`
+      : preset.resizeWidth !== null
+        ? ` ${preset.resizeWidth}w`
+        : preset.resizeHeight !== null
+          ? ` ${preset.resizeHeight}h`
+          : ''
+  return `${preset.formats.join('+')} ${quality}${size}`
+}
+
+/**
+ * Replace one key of a config file, keeping the others
+ */
+async function writeConfigKey(path: string, key: string, value: unknown): Promise<{ success: boolean; error?: string }> {
+  try {
+    const file = Bun.file(path)
+    let existing: Record<string, unknown> = {}
+    if (await file.exists()) {
+      const data: unknown = await file.json()
+      if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+        existing = data as Record<string, unknown>
+      }
+    }
+
+    await mkdir(dirname(path), { recursive: true })
+    await Bun.write(path, JSON.stringify({ ...existing, [key]: value }, null, 2) + '\n')
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Could not save ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+}
+
+/**
+ * Write the quality presets, keeping any other keys already in the file
+ */
+export function saveQualityPresets(
+  presets: SavedQualityPreset[],
+  path = getConfigPath()
+): Promise<{ success: boolean; error?: string }> {
+  return writeConfigKey(path, 'qualityPresets', presets)
+}
+
+/**
+ * Change the conversion presets stored in the user config
+ * The file is read again rather than taking the loaded list, which leaves out
+ * user presets that a project preset of the same name overrides
+ */
+async function updateUserPresets(
+  path: string,
+  update: (presets: ConversionPreset[]) => ConversionPreset[]
+): Promise<{ success: boolean; error?: string }> {
+  const current = await loadUserConfig(path)
+  if (!current.success) {
+    return { success: false, error: current.error }
+  }
+  return writeConfigKey(path, 'presets', update(current.config.presets).map(presetToJson))
+}
+
+/**
+ * Add a conversion preset to the user config, replacing one with the same name
+ */
+export function saveUserPreset(
+  preset: ConversionPreset,
+  path = getConfigPath()
+): Promise<{ success: boolean; error?: string }> {
+  return updateUserPresets(path, (presets) => upsertConversionPreset(presets, preset))
+}
+
+/**
+ * Remove a conversion preset from the user config
+ */
+export function deleteUserPreset(
+  name: string,
+  path = getConfigPath()
+): Promise<{ success: boolean; error?: string }> {
+  return updateUserPresets(path, (presets) => presets.filter((p) => p.name !== name))
+}
+
+/**
+ * Check a name for a new preset; `reserved` are names that can't be replaced
+ * (built-in quality presets, or presets from the project config)
+ * Returns an error message, or null when the name is usable
+ */
+export function validatePresetName(name: string, reserved: string[]): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Enter a name for the preset'
+  if (trimmed.length > MAX_PRESET_NAME_LENGTH) {
+    return `Preset names can be at most ${MAX_PRESET_NAME_LENGTH} characters`
+  }
+  if (reserved.some((r) => r.toLowerCase() === trimmed.toLowerCase())) {
+    return `The name "${trimmed}" is already taken`
+  }
+  return null
+}
+
+/**
+ * Add a preset, replacing one with the same name (case-insensitive)
+ */
+export function upsertQualityPreset(
+  presets: SavedQualityPreset[],
+  preset: SavedQualityPreset
+): SavedQualityPreset[] {
+  const index = presets.findIndex((p) => p.name.toLowerCase() === preset.name.toLowerCase())
+  if (index < 0) return [...presets, preset]
+  return presets.map((p, i) => (i === index ? preset : p))
+}
+
+/**
+ * Add a conversion preset, replacing one with the same name (case-insensitive)
+ */
+export function upsertConversionPreset(presets: ConversionPreset[], preset: ConversionPreset): ConversionPreset[] {
+  const index = presets.findIndex((p) => p.name.toLowerCase() === preset.name.toLowerCase())
+  if (index < 0) return [...presets, preset]
+  return presets.map((p, i) => (i === index ? preset : p))
+}
+
+/**
+ * Remove the preset with the given name
+ */
+export function removeQualityPreset(presets: SavedQualityPreset[], name: string): SavedQualityPreset[] {
+  return presets.filter((p) => p.name !== name)
+}